@@ -0,0 +1,187 @@
+#!/usr/bin/env node
+/**
+ * Align the English subtitle track to the Japanese one by cue timing and
+ * write the result as a translation file that enrichCards.ts can consume
+ * through --translations.
+ *
+ * Usage:
+ *   npx tsx scripts/alignSubs.ts subtitles/<Show>/episodeXX/raw/episodeXX.ja.srt \
+ *     [episodeXX.en.srt|.vtt|.ass] [--out out.json] [--offset <ms>] [--max-offset <ms>]
+ *     [--min-overlap <ratio>] [--min-confidence <score>]
+ *
+ * The English track defaults to the sibling "<name>.en.<ext>" and the output to
+ * "cards/<name>.aligned.json" when the input lives under a raw/ folder.
+ */
+
+import { existsSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { alignSubtitles, toTranslationEntries } from './lib/align.js';
+import { extractAnnotations } from './lib/annotations.js';
+import { cardsOutputPath, findEnglishTrack } from './lib/episodes.js';
+import { serializeDataFile } from './lib/schema.js';
+import { parseSubtitleFile } from './lib/subtitles.js';
+
+interface CliOptions {
+  japanesePath: string;
+  englishPath: string;
+  outputPath: string;
+  offsetMs: number | null;
+  maxOffsetMs: number | undefined;
+  minOverlap: number | undefined;
+  minConfidence: number;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  if (!existsSync(options.englishPath)) {
+    console.error(`English subtitle file not found at ${options.englishPath}.`);
+    process.exit(1);
+  }
+
+  // Sound-effect and breathing cues have no English counterpart; leaving them
+  // out keeps them from absorbing English lines that merely overlap in time.
+  const japanese = parseSubtitleFile(options.japanesePath).filter(
+    (entry) => !extractAnnotations(entry.text).nonSpeech,
+  );
+  const english = parseSubtitleFile(options.englishPath);
+
+  if (!japanese.length || !english.length) {
+    console.error('Both subtitle tracks need at least one cue to align.');
+    process.exit(1);
+  }
+
+  const result = alignSubtitles(japanese, english, {
+    offsetMs: options.offsetMs,
+    maxOffsetMs: options.maxOffsetMs,
+    minOverlap: options.minOverlap,
+  });
+
+  const entries = toTranslationEntries(result, options.minConfidence);
+
+  writeFileSync(options.outputPath, serializeDataFile('translations', entries), 'utf8');
+
+  const shared = result.cues.filter((cue) => cue.shared).length;
+  const merged = result.cues.filter((cue) => cue.english.length > 1).length;
+  console.log(
+    `Aligned ${entries.length}/${japanese.length} Japanese cues using ${english.length} English cues (offset ${formatOffset(result.offsetMs)}).`,
+  );
+  console.log(
+    `- ${merged} cue(s) merged from several English lines, ${shared} sharing an English line.`,
+  );
+  if (result.cues.length > entries.length) {
+    console.log(
+      `- ${result.cues.length - entries.length} match(es) dropped below confidence ${options.minConfidence}.`,
+    );
+  }
+  if (result.unmatchedEnglish.length) {
+    console.log(`- ${result.unmatchedEnglish.length} English cue(s) had no Japanese counterpart.`);
+  }
+  console.log(`Aligned translations written to ${options.outputPath}`);
+}
+
+function parseOptions(tokens: string[]): CliOptions {
+  const japanesePath = resolve(tokens[0]);
+  let cursor = 1;
+  let englishPath: string | null = null;
+
+  if (tokens[cursor] && !tokens[cursor].startsWith('--')) {
+    englishPath = resolve(tokens[cursor]);
+    cursor += 1;
+  }
+
+  const opts: CliOptions = {
+    japanesePath,
+    englishPath: englishPath ?? findEnglishTrack(japanesePath),
+    outputPath: '',
+    offsetMs: null,
+    maxOffsetMs: undefined,
+    minOverlap: undefined,
+    minConfidence: 0,
+  };
+
+  for (let i = cursor; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    switch (token) {
+      case '--out':
+        opts.outputPath = resolve(requireArgument(tokens, ++i, '--out'));
+        break;
+      case '--offset':
+        opts.offsetMs = parseNumber(requireArgument(tokens, ++i, '--offset'), '--offset');
+        break;
+      case '--max-offset':
+        opts.maxOffsetMs = parseNumber(requireArgument(tokens, ++i, '--max-offset'), '--max-offset');
+        break;
+      case '--min-overlap':
+        opts.minOverlap = parseNumber(requireArgument(tokens, ++i, '--min-overlap'), '--min-overlap');
+        break;
+      case '--min-confidence':
+        opts.minConfidence = parseNumber(
+          requireArgument(tokens, ++i, '--min-confidence'),
+          '--min-confidence',
+        );
+        break;
+      default:
+        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+    }
+  }
+
+  opts.outputPath = opts.outputPath || cardsOutputPath(japanesePath, '.aligned.json');
+  return opts;
+}
+
+function requireArgument(tokens: string[], index: number, flag: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${flag} needs an argument.`);
+  }
+  return tokens[index];
+}
+
+function parseNumber(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${flag} expects a number, got "${value}".`);
+  }
+  return parsed;
+}
+
+function formatOffset(offsetMs: number): string {
+  return `${offsetMs >= 0 ? '+' : ''}${offsetMs} ms`;
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/alignSubs.ts <ja subtitles> [en subtitles] [options]
+
+Options:
+  --out <path>             Destination for the aligned translations JSON
+  --offset <ms>            Fixed offset added to every English cue (skips estimation)
+  --max-offset <ms>        Largest offset tried when estimating (default 30000)
+  --min-overlap <ratio>    Share of a cue that must overlap to match (default 0.3)
+  --min-confidence <score> Drop matches scoring below this value (0-1, default 0)
+  -h, --help               Show this help text
+
+Both tracks may be SRT, WebVTT or ASS/SSA. The English track defaults to
+"<input>.en.<ext>" next to the Japanese file.
+Output defaults to "cards/<input>.aligned.json" and can be passed to
+enrichCards.ts via --translations.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,502 @@
+#!/usr/bin/env node
+/**
+ * Run the whole pipeline (parse → align → enrich → export) for every episode
+ * of a show, or of every show under subtitles/.
+ *
+ * Usage:
+ *   npx tsx scripts/buildSeries.ts [subtitles/<Show>|subtitles] [options]
+ *
+ * Options:
+ *   --force                Rebuild episodes even when up to date, re-enriching every card
+ *   --dict <file>          Dictionary for token meanings (same default as enrichCards.ts)
+ *   --accents <file>       Pitch accent list (same default as enrichCards.ts)
+ *   --no-accents           Leave pitch accent off the breakdown and the Anki notes
+ *   --word-levels <file>   JLPT level/frequency rank list (same default as enrichCards.ts)
+ *   --kanji <file>         Kanji data (same default as enrichCards.ts)
+ *   --no-difficulty        Skip levels, kanji notes and the difficulty score
+ *   --translator <name>    Fill missing translations with this provider (deepl, openai, mock)
+ *   --context <n>          Send the previous/next n lines as translation context
+ *   --merge-split <ms>     Join cues split mid-sentence when the gap is under <ms>
+ *   --no-grouping          Keep one breakdown entry per kuromoji token
+ *   --no-align             Don't use the English track even when one exists
+ *   --no-export            Skip writing the Anki package
+ *   --drop-non-speech      Leave sound-effect, breathing and music cues out entirely
+ *   (provider options such as --deepl-formality are passed through)
+ *
+ * Every "raw/<name>.ja.<ext>" track found below the directory is one episode.
+ * Its outputs land in the episode's cards/ folder under the usual names
+ * (<name>.cards.json/.tsv, .aligned.json, .translations.json, .apkg). An
+ * existing cards file is merged like parseSubs.ts does, so hand edits
+ * survive and only new or changed cues are re-enriched. An episode is
+ * skipped when all of its outputs are newer than its subtitle tracks.
+ * The tokenizer, dictionary, accent/level/kanji data and translator are
+ * loaded once and shared by all episodes; one failing episode doesn't stop
+ * the others.
+ * Each show's subtitles/<Show>/glossary.json is applied to its episodes
+ * (with DeepL, through the glossary's uploaded copy when it is up to date).
+ */
+
+import 'dotenv/config';
+import { existsSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { alignSubtitles, toTranslationEntries } from './lib/align.js';
+import { buildSentenceDeck } from './lib/ankiDeck.js';
+import { extractAnnotations } from './lib/annotations.js';
+import {
+  buildCards,
+  cardsToTsv,
+  mergeReparsedCards,
+  readCardsFile,
+  reportMerge,
+  writeCardsFile,
+  type CardRecord,
+} from './lib/cards.js';
+import { defaultDictionaryPath, openDictionary, type Dictionary } from './lib/dictionary.js';
+import { enrichCards } from './lib/enrich.js';
+import { cardsOutputPath, findEnglishTrack } from './lib/episodes.js';
+import { defaultWordLevelsPath, loadWordLevels, type WordLevels } from './lib/difficulty.js';
+import { GLOSSARY_FILE, loadGlossary, withSyncedGlossaryFlag, type Glossary } from './lib/glossary.js';
+import { defaultKanjiPath, loadKanjiDictionary, type KanjiDictionary } from './lib/kanji.js';
+import { defaultAccentPath, loadAccentDictionary, type AccentDictionary } from './lib/pitch.js';
+import { serializeDataFile } from './lib/schema.js';
+import { parseSubtitleFile } from './lib/subtitles.js';
+import { buildTokenizer, type KuromojiTokenizer } from './lib/tokenizer.js';
+import { addTranslationHints, loadTranslationHints, persistTranslations } from './lib/translations.js';
+import {
+  createTranslator,
+  findProviderOption,
+  getTranslationProvider,
+  type Translator,
+} from './lib/translators.js';
+
+interface CliOptions {
+  rootDir: string;
+  force: boolean;
+  dictPath: string;
+  /** Null when --no-accents was given. */
+  accentPath: string | null;
+  /** Both null when --no-difficulty was given. */
+  wordLevelsPath: string | null;
+  kanjiPath: string | null;
+  translatorName: string | null;
+  translatorFlags: Map<string, string>;
+  contextSize: number;
+  mergeGapMs: number | null;
+  groupWords: boolean;
+  align: boolean;
+  exportDeck: boolean;
+  dropNonSpeech: boolean;
+}
+
+interface EpisodeJob {
+  show: string;
+  episode: string;
+  japanesePath: string;
+  englishPath: string | null;
+  cardsPath: string;
+  tsvPath: string;
+  alignedPath: string;
+  translationsPath: string;
+  apkgPath: string;
+  glossaryPath: string;
+}
+
+interface SharedResources {
+  tokenizer: KuromojiTokenizer;
+  dictionary: Dictionary;
+  accents: AccentDictionary | null;
+  wordLevels: WordLevels | null;
+  kanji: KanjiDictionary | null;
+  /** Translators by the DeepL glossary id they use ('' for none); empty without --translator. */
+  translators: Map<string, Translator>;
+}
+
+const JAPANESE_TRACK = /\.(ja|jp)\.(srt|vtt|ass|ssa)$/i;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const jobs = findEpisodes(options.rootDir).map((path) => planEpisode(path, options));
+  if (!jobs.length) {
+    console.error(`No raw/*.ja.srt (or .vtt/.ass/.ssa) tracks found under ${options.rootDir}.`);
+    process.exit(1);
+  }
+
+  const stale = jobs.filter((job) => options.force || !isUpToDate(job, options));
+  jobs
+    .filter((job) => !stale.includes(job))
+    .forEach((job) => console.log(`${label(job)}: up to date, skipped.`));
+  if (!stale.length) {
+    console.log(`All ${jobs.length} episode(s) are up to date. Pass --force to rebuild.`);
+    return;
+  }
+
+  const shared: SharedResources = {
+    tokenizer: await buildTokenizer(),
+    dictionary: await openDictionary(options.dictPath),
+    accents: options.accentPath ? loadAccentDictionary(options.accentPath) : null,
+    wordLevels: options.wordLevelsPath ? loadWordLevels(options.wordLevelsPath) : null,
+    kanji: options.kanjiPath ? loadKanjiDictionary(options.kanjiPath) : null,
+    translators: new Map(),
+  };
+  // Created up front so a missing API key fails before any episode is touched.
+  translatorFor(shared, options, null);
+
+  const failures: Array<{ job: EpisodeJob; message: string }> = [];
+  const summaries: string[] = [];
+  for (const job of stale) {
+    console.log(`\n== ${label(job)} ==`);
+    const started = Date.now();
+    try {
+      // Episodes run one after another so translation quota and logs stay readable.
+      // eslint-disable-next-line no-await-in-loop
+      const summary = await buildEpisode(job, shared, options);
+      summaries.push(`${label(job)}: ${summary} (${((Date.now() - started) / 1000).toFixed(1)}s)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`${label(job)} failed: ${message}`);
+      failures.push({ job, message });
+    }
+  }
+  shared.dictionary.close();
+
+  console.log('\nSummary:');
+  summaries.forEach((line) => console.log(`- ${line}`));
+  console.log(
+    `Built ${summaries.length} episode(s), skipped ${jobs.length - stale.length} up to date, ${failures.length} failed.`,
+  );
+  if (failures.length) {
+    console.error('\nFailed episodes:');
+    failures.forEach(({ job, message }) => console.error(`- ${label(job)}: ${message}`));
+    process.exitCode = 1;
+  }
+}
+
+async function buildEpisode(job: EpisodeJob, shared: SharedResources, options: CliOptions): Promise<string> {
+  const subtitles = parseSubtitleFile(job.japanesePath);
+  if (!subtitles.length) {
+    throw new Error(`No subtitle lines found in ${job.japanesePath}.`);
+  }
+  let cards = buildCards(subtitles, options.dropNonSpeech);
+  console.log(`Parsed ${subtitles.length} subtitle blocks into ${cards.length} card entries.`);
+  if (existsSync(job.cardsPath)) {
+    const existing = readCardsFile(job.cardsPath);
+    const merge = mergeReparsedCards(existing, cards);
+    reportMerge(merge);
+    cards = merge.cards;
+  }
+
+  const translations = loadTranslationHints(existsSync(job.translationsPath) ? job.translationsPath : null);
+  let aligned = 0;
+  if (job.englishPath) {
+    // Same filtering as alignSubs.ts: non-speech cues have no English counterpart.
+    const japanese = subtitles.filter((entry) => !extractAnnotations(entry.text).nonSpeech);
+    const english = parseSubtitleFile(job.englishPath);
+    if (japanese.length && english.length) {
+      const entries = toTranslationEntries(alignSubtitles(japanese, english), 0);
+      writeFileSync(job.alignedPath, serializeDataFile('translations', entries), 'utf8');
+      // Official English lines take precedence over cached machine translations.
+      addTranslationHints(translations, entries);
+      aligned = entries.length;
+      console.log(`Aligned ${aligned}/${japanese.length} Japanese cues with ${basename(job.englishPath)}.`);
+    }
+  }
+
+  const glossary = existsSync(job.glossaryPath) ? loadGlossary(job.glossaryPath) : null;
+  const translator = translatorFor(shared, options, glossary);
+  const enriched = await enrichCards(cards, {
+    tokenizer: shared.tokenizer,
+    dictionary: shared.dictionary,
+    translations,
+    translator,
+    glossary,
+    accents: shared.accents,
+    wordLevels: shared.wordLevels,
+    kanji: shared.kanji,
+    autoTranslateReplace: true,
+    groupWords: options.groupWords,
+    batchSize: 50,
+    concurrency: 2,
+    maxRetries: 5,
+    contextSize: options.contextSize,
+    mergeGapMs: options.mergeGapMs,
+    // --force (or a glossary edited since the last build) re-enriches everything;
+    // otherwise only cues the re-parse added or changed are re-tokenized.
+    onlyChanged: !options.force && !isNewer(job.glossaryPath, job.cardsPath),
+    checkpointPath: translator ? job.translationsPath : null,
+  });
+  // The cache goes first so it is never newer than the cards built from it (see isUpToDate).
+  if (translator && translations.addedEntries.length) {
+    persistTranslations(translations, job.translationsPath);
+  }
+  writeCardsFile(job.cardsPath, enriched);
+  writeFileSync(job.tsvPath, cardsToTsv(enriched), 'utf8');
+
+  const parts = [`${enriched.length} cards`, `translations: ${describeSources(enriched)}`];
+  if (job.englishPath) parts.push(`${aligned} aligned`);
+
+  if (options.exportDeck) {
+    const deck = await buildSentenceDeck(enriched, {
+      deckName: `${job.show}::${job.episode}`,
+      show: job.show,
+      episode: job.episode,
+      cardsDir: dirname(job.cardsPath),
+      includeNonSpeech: false,
+      tags: [],
+      maxUnknown: null,
+    });
+    writeFileSync(job.apkgPath, deck.apkg);
+    parts.push(`${deck.notes} notes`);
+  }
+
+  return parts.join(', ');
+}
+
+/** The --translator provider, set up for the show's DeepL glossary when it has an uploaded one. */
+function translatorFor(
+  shared: SharedResources,
+  options: CliOptions,
+  glossary: Glossary | null,
+): Translator | null {
+  if (!options.translatorName) return null;
+  const flags =
+    options.translatorName === 'deepl'
+      ? withSyncedGlossaryFlag(options.translatorFlags, glossary)
+      : options.translatorFlags;
+  const key = flags.get('--deepl-glossary') ?? '';
+  let translator = shared.translators.get(key);
+  if (!translator) {
+    translator = createTranslator(options.translatorName, flags);
+    shared.translators.set(key, translator);
+  }
+  return translator;
+}
+
+/** "hint 280, deepl 12, literal 3" from the cards' translationSource. */
+function describeSources(cards: CardRecord[]): string {
+  const counts = new Map<string, number>();
+  cards
+    .filter((card) => !card.nonSpeech && card.translationSource)
+    .forEach((card) => {
+      const source = String(card.translationSource);
+      counts.set(source, (counts.get(source) ?? 0) + 1);
+    });
+  return (
+    Array.from(counts.entries())
+      .sort(([, a], [, b]) => b - a)
+      .map(([source, count]) => `${source} ${count}`)
+      .join(', ') || 'none'
+  );
+}
+
+function findEpisodes(dir: string): string[] {
+  const found: string[] = [];
+  readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const path = resolve(dir, entry.name);
+    if (entry.isDirectory()) {
+      found.push(...findEpisodes(path));
+    } else if (basename(dir).toLowerCase() === 'raw' && JAPANESE_TRACK.test(entry.name)) {
+      found.push(path);
+    }
+  });
+  return found.sort();
+}
+
+function planEpisode(japanesePath: string, options: CliOptions): EpisodeJob {
+  const episodeDir = dirname(dirname(japanesePath));
+  const englishPath = findEnglishTrack(japanesePath);
+  return {
+    show: basename(dirname(episodeDir)),
+    episode: basename(episodeDir),
+    japanesePath,
+    englishPath: options.align && existsSync(englishPath) ? englishPath : null,
+    cardsPath: cardsOutputPath(japanesePath, '.cards.json'),
+    tsvPath: cardsOutputPath(japanesePath, '.cards.tsv'),
+    alignedPath: cardsOutputPath(japanesePath, '.aligned.json'),
+    translationsPath: cardsOutputPath(japanesePath, '.translations.json'),
+    apkgPath: cardsOutputPath(japanesePath, '.apkg'),
+    glossaryPath: resolve(dirname(episodeDir), GLOSSARY_FILE),
+  };
+}
+
+/** Every output exists and is at least as new as the newest subtitle track, translation cache and glossary. */
+function isUpToDate(job: EpisodeJob, options: CliOptions): boolean {
+  const inputs = [job.japanesePath, job.englishPath, job.translationsPath, job.glossaryPath].filter(
+    (path): path is string => path !== null && existsSync(path),
+  );
+  const outputs = [job.cardsPath, job.tsvPath];
+  if (job.englishPath) outputs.push(job.alignedPath);
+  if (options.exportDeck) outputs.push(job.apkgPath);
+
+  if (!outputs.every((path) => existsSync(path))) return false;
+  const newestInput = Math.max(...inputs.map((path) => statSync(path).mtimeMs));
+  const oldestOutput = Math.min(...outputs.map((path) => statSync(path).mtimeMs));
+  return oldestOutput >= newestInput;
+}
+
+function isNewer(path: string, than: string): boolean {
+  return existsSync(path) && existsSync(than) && statSync(path).mtimeMs > statSync(than).mtimeMs;
+}
+
+function label(job: EpisodeJob): string {
+  return `${job.show}/${job.episode}`;
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const opts: CliOptions = {
+    rootDir: resolve(__dirname, '../subtitles'),
+    force: false,
+    dictPath: defaultDictionaryPath(),
+    accentPath: defaultAccentPath(),
+    wordLevelsPath: defaultWordLevelsPath(),
+    kanjiPath: defaultKanjiPath(),
+    translatorName: null,
+    translatorFlags: new Map(),
+    contextSize: 0,
+    mergeGapMs: null,
+    groupWords: true,
+    align: true,
+    exportDeck: true,
+    dropNonSpeech: false,
+  };
+  let rootGiven = false;
+
+  for (let i = 0; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--force':
+        opts.force = true;
+        break;
+      case '--dict':
+        opts.dictPath = resolve(ensureNext(cliArgs, ++i, '--dict'));
+        break;
+      case '--accents':
+        opts.accentPath = resolve(ensureNext(cliArgs, ++i, '--accents'));
+        break;
+      case '--no-accents':
+        opts.accentPath = null;
+        break;
+      case '--word-levels':
+        opts.wordLevelsPath = resolve(ensureNext(cliArgs, ++i, '--word-levels'));
+        break;
+      case '--kanji':
+        opts.kanjiPath = resolve(ensureNext(cliArgs, ++i, '--kanji'));
+        break;
+      case '--no-difficulty':
+        opts.wordLevelsPath = null;
+        opts.kanjiPath = null;
+        break;
+      case '--translator':
+        opts.translatorName = getTranslationProvider(ensureNext(cliArgs, ++i, '--translator')).name;
+        break;
+      case '--context':
+        opts.contextSize = parseCount(ensureNext(cliArgs, ++i, '--context'), '--context');
+        break;
+      case '--merge-split':
+        opts.mergeGapMs = parseCount(ensureNext(cliArgs, ++i, '--merge-split'), '--merge-split');
+        break;
+      case '--no-grouping':
+        opts.groupWords = false;
+        break;
+      case '--no-align':
+        opts.align = false;
+        break;
+      case '--no-export':
+        opts.exportDeck = false;
+        break;
+      case '--drop-non-speech':
+        opts.dropNonSpeech = true;
+        break;
+      default:
+        if (findProviderOption(token)) {
+          opts.translatorFlags.set(token, ensureNext(cliArgs, ++i, token));
+        } else if (token.startsWith('--') || rootGiven) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        } else {
+          opts.rootDir = resolve(token);
+          rootGiven = true;
+        }
+    }
+  }
+
+  if (!existsSync(opts.rootDir) || !statSync(opts.rootDir).isDirectory()) {
+    throw new Error(`Directory not found at ${opts.rootDir}.`);
+  }
+  for (const flag of opts.translatorFlags.keys()) {
+    const owner = findProviderOption(flag)?.provider.name;
+    if (owner !== opts.translatorName) {
+      console.warn(`${flag} only applies to --translator ${owner}; ignoring it.`);
+    }
+  }
+
+  return opts;
+}
+
+function parseCount(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${flag} expects a whole number, got "${value}".`);
+  }
+  return parsed;
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/buildSeries.ts [show or subtitles dir] [options]
+
+Runs parse → align → enrich → export for every raw/*.ja.<ext> track below the
+directory (defaults to subtitles/).
+
+Options:
+  --force                Rebuild episodes even when up to date, re-enriching every card
+  --dict <path>          Dictionary for token meanings (defaults to data/jmdict.sqlite when imported)
+  --accents <path>       Kanjium-format pitch accent list (defaults to data/accents.txt when present)
+  --no-accents           Leave pitch accent off the breakdown and the Anki notes
+  --word-levels <path>   Word list with JLPT level and frequency rank (defaults to data/word-levels.tsv
+                         when present)
+  --kanji <path>         Kanji data in kanji-data's kanji.json format (defaults to data/kanji.json
+                         when present)
+  --no-difficulty        Skip JLPT levels, frequency ranks, kanji notes and the difficulty score
+  --translator <name>    Fill missing translations with this provider; results are cached
+                         in cards/<name>.translations.json
+  --context <n>          Send the previous/next n lines as translation context
+  --merge-split <ms>     Join cues with no 。！？ ending into the next cue when the gap is under <ms>
+  --no-grouping          Keep one breakdown entry per kuromoji token
+  --no-align             Ignore the English track
+  --no-export            Skip the Anki package
+  --drop-non-speech      Drop sound-effect, breathing and music cues instead of flagging them
+  -h, --help             Show this help text
+
+Provider options (--deepl-formality, --openai-model, ...) are passed through;
+see enrichCards.ts --help for the full list. Each show's glossary.json is applied
+to its episodes (see syncGlossary.ts for DeepL).
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,329 @@
+#!/usr/bin/env node
+/**
+ * Collect the vocabulary of one or more enriched episodes into a word list.
+ *
+ * Usage:
+ *   npx tsx scripts/buildVocab.ts subtitles/<Show>/episodeXX/cards/episodeXX.cards.json [...] [options]
+ *
+ * Options:
+ *   --out <file>         Destination JSON (defaults to "<episode>.vocab.json" for one file,
+ *                        "<Show>/<Show>.vocab.json" for several episodes of one show)
+ *   --tsv <file>         Destination TSV (defaults to the JSON path with .tsv)
+ *   --no-tsv             Skip the TSV output
+ *   --dict <file>        Dictionary used for lemma readings (same default as enrichCards.ts)
+ *   --known <file>       Known-words store (defaults to data/known-words.json)
+ *   --skip-known         Leave out words that are already known
+ *   --min-frequency <n>  Only keep words seen at least n times (default 1)
+ *
+ * Each entry lists the lemma, its reading and meanings, how often it occurs
+ * (overall and per episode), where it first appears, and the best example:
+ * the card with the fewest other unknown words, shortest sentence first.
+ * Particles, auxiliaries, symbols, numbers and names are skipped.
+ */
+
+import { existsSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { readCardsFile, type TokenBreakdown } from './lib/cards.js';
+import { defaultDictionaryPath, openDictionary } from './lib/dictionary.js';
+import { inferShowAndEpisode } from './lib/episodes.js';
+import { loadKnownWords, scoreCard } from './lib/knownWords.js';
+import { isContentPos } from './lib/pos.js';
+
+interface CliOptions {
+  inputPaths: string[];
+  outputPath: string;
+  tsvPath: string;
+  writeTsv: boolean;
+  dictPath: string;
+  knownPath: string;
+  skipKnown: boolean;
+  minFrequency: number;
+}
+
+interface VocabOccurrence {
+  episode: string;
+  subtitleId: number | string;
+  startTime: string | null;
+}
+
+interface VocabExample extends VocabOccurrence {
+  sentence: string;
+  translation: string;
+  /** Unknown content words on the card besides this one. */
+  otherUnknown: number;
+}
+
+interface VocabEntry {
+  lemma: string;
+  reading: string | null;
+  pos: string;
+  meanings: string[];
+  entryId: number | null;
+  frequency: number;
+  episodes: Record<string, number>;
+  firstOccurrence: VocabOccurrence;
+  example: VocabExample;
+  known: boolean;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const known = loadKnownWords(options.knownPath);
+  const dictionary = await openDictionary(options.dictPath);
+  const entries = new Map<string, VocabEntry>();
+  // Surface readings seen for each lemma; used when the dictionary has none.
+  const readings = new Map<string, Map<string, number>>();
+
+  options.inputPaths.forEach((inputPath) => {
+    const episode =
+      inferShowAndEpisode(inputPath).episode ?? basename(inputPath).replace(/(\.cards)?\.json$/i, '');
+    const cards = readCardsFile(inputPath);
+
+    cards
+      .filter((card) => !card.nonSpeech && card.tokens?.length)
+      .forEach((card) => {
+        const unknown = new Set(scoreCard(card, known).unknownLemmas);
+        const occurrence: VocabOccurrence = {
+          episode,
+          subtitleId: card.subtitleId ?? card.id,
+          startTime: card.startTime ?? null,
+        };
+
+        (card.tokens ?? [])
+          .filter((token) => isContentPos(token.pos))
+          .forEach((token) => {
+            recordReading(readings, token);
+            const example: VocabExample = {
+              ...occurrence,
+              sentence: card.sentence ?? '',
+              translation: card.translation ?? '',
+              otherUnknown: unknown.size - (unknown.has(token.lemma) ? 1 : 0),
+            };
+            const existing = entries.get(token.lemma);
+            if (!existing) {
+              entries.set(token.lemma, {
+                lemma: token.lemma,
+                reading: null,
+                pos: token.pos,
+                meanings: token.meanings ?? [],
+                entryId: token.entryId ?? null,
+                frequency: 1,
+                episodes: { [episode]: 1 },
+                firstOccurrence: occurrence,
+                example,
+                known: !unknown.has(token.lemma),
+              });
+              return;
+            }
+            existing.frequency += 1;
+            existing.episodes[episode] = (existing.episodes[episode] ?? 0) + 1;
+            if (!existing.meanings.length && token.meanings?.length) existing.meanings = token.meanings;
+            if (existing.entryId == null && token.entryId != null) existing.entryId = token.entryId;
+            if (isBetterExample(example, existing.example)) existing.example = example;
+          });
+      });
+  });
+
+  const vocabulary = Array.from(entries.values())
+    .filter((entry) => entry.frequency >= options.minFrequency)
+    .filter((entry) => !options.skipKnown || !entry.known)
+    .map((entry) => ({
+      ...entry,
+      reading: dictionary.lookupReading(entry.lemma, entry.entryId) ?? mostCommonReading(readings, entry.lemma),
+    }))
+    .sort((a, b) => b.frequency - a.frequency || a.lemma.localeCompare(b.lemma, 'ja'));
+  dictionary.close();
+
+  writeFileSync(options.outputPath, JSON.stringify(vocabulary, null, 2), 'utf8');
+  console.log(
+    `Collected ${vocabulary.length} word(s) from ${options.inputPaths.length} file(s)${
+      options.skipKnown ? ' (known words skipped)' : ''
+    }.`,
+  );
+  console.log(`Vocabulary JSON written to ${options.outputPath}`);
+
+  if (options.writeTsv) {
+    writeFileSync(options.tsvPath, vocabularyToTsv(vocabulary), 'utf8');
+    console.log(`Vocabulary TSV written to ${options.tsvPath}`);
+  }
+}
+
+/** Fewer other unknown words wins; ties go to the shorter sentence. */
+function isBetterExample(candidate: VocabExample, current: VocabExample): boolean {
+  if (candidate.otherUnknown !== current.otherUnknown) {
+    return candidate.otherUnknown < current.otherUnknown;
+  }
+  return candidate.sentence.length < current.sentence.length;
+}
+
+/**
+ * Only uninflected occurrences carry the lemma's own reading (売った reads
+ * うった, not うる), so those are preferred.
+ */
+function recordReading(readings: Map<string, Map<string, number>>, token: TokenBreakdown): void {
+  if (!token.reading) return;
+  const counts = readings.get(token.lemma) ?? new Map<string, number>();
+  const weight = token.surface === token.lemma ? 1000 : 1;
+  counts.set(token.reading, (counts.get(token.reading) ?? 0) + weight);
+  readings.set(token.lemma, counts);
+}
+
+function mostCommonReading(readings: Map<string, Map<string, number>>, lemma: string): string | null {
+  const counts = readings.get(lemma);
+  if (!counts) return null;
+  return Array.from(counts.entries()).sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+}
+
+function vocabularyToTsv(vocabulary: VocabEntry[]): string {
+  const header = ['lemma', 'reading', 'meanings', 'frequency', 'first occurrence', 'example', 'example translation'];
+  const rows = vocabulary.map((entry) =>
+    [
+      entry.lemma,
+      entry.reading ?? '',
+      entry.meanings.join('; '),
+      String(entry.frequency),
+      `${entry.firstOccurrence.episode} ${formatTime(entry.firstOccurrence.startTime)}`,
+      entry.example.sentence,
+      entry.example.translation,
+    ]
+      .map(clean)
+      .join('\t'),
+  );
+  return [header.join('\t'), ...rows].join('\n');
+}
+
+function formatTime(value: string | null): string {
+  return (value ?? '').replace(/[,.]\d+$/, '');
+}
+
+function clean(value: string | null | undefined): string {
+  return (value ?? '').replace(/\t/g, ' ').replace(/\r?\n/g, ' ').trim();
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const inputPaths: string[] = [];
+  let outputPath = '';
+  let tsvPath = '';
+  let writeTsv = true;
+  let dictPath = defaultDictionaryPath();
+  let knownPath = resolve(__dirname, '../data/known-words.json');
+  let skipKnown = false;
+  let minFrequency = 1;
+
+  for (let i = 0; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--out':
+        outputPath = resolve(ensureNext(cliArgs, ++i, '--out'));
+        break;
+      case '--tsv':
+        tsvPath = resolve(ensureNext(cliArgs, ++i, '--tsv'));
+        break;
+      case '--no-tsv':
+        writeTsv = false;
+        break;
+      case '--dict':
+        dictPath = resolve(ensureNext(cliArgs, ++i, '--dict'));
+        break;
+      case '--known':
+        knownPath = resolve(ensureNext(cliArgs, ++i, '--known'));
+        break;
+      case '--skip-known':
+        skipKnown = true;
+        break;
+      case '--min-frequency': {
+        const value = ensureNext(cliArgs, ++i, '--min-frequency');
+        minFrequency = Number(value);
+        if (!Number.isInteger(minFrequency) || minFrequency < 1) {
+          throw new Error(`--min-frequency expects a whole number of at least 1, got "${value}".`);
+        }
+        break;
+      }
+      default:
+        if (token.startsWith('--')) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        }
+        inputPaths.push(resolve(token));
+    }
+  }
+
+  if (!inputPaths.length) {
+    throw new Error('At least one cards JSON file is required.');
+  }
+  const missing = inputPaths.find((path) => !existsSync(path));
+  if (missing) {
+    throw new Error(`Cards file not found at ${missing}.`);
+  }
+
+  outputPath = outputPath || defaultVocabPath(inputPaths);
+  return {
+    inputPaths,
+    outputPath,
+    tsvPath: tsvPath || resolve(dirname(outputPath), `${basename(outputPath, extname(outputPath))}.tsv`),
+    writeTsv,
+    dictPath,
+    knownPath,
+    skipKnown,
+    minFrequency,
+  };
+}
+
+function defaultVocabPath(inputPaths: string[]): string {
+  if (inputPaths.length === 1) {
+    const base = basename(inputPaths[0], extname(inputPaths[0])).replace(/\.cards$/i, '');
+    return resolve(dirname(inputPaths[0]), `${base}.vocab.json`);
+  }
+  const shows = new Set(inputPaths.map((path) => inferShowAndEpisode(path).show));
+  const [show] = Array.from(shows);
+  if (shows.size !== 1 || !show) {
+    throw new Error('Inputs span several shows (or none could be inferred). Pass --out <file>.');
+  }
+  const showDir = dirname(dirname(dirname(inputPaths[0])));
+  return resolve(showDir, `${show}.vocab.json`);
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/buildVocab.ts <cards.json> [more.cards.json ...] [options]
+
+Options:
+  --out <path>           Destination JSON (defaults to "<episode>.vocab.json", or
+                         "<Show>/<Show>.vocab.json" for several episodes)
+  --tsv <path>           Destination TSV (defaults to the JSON path with .tsv)
+  --no-tsv               Skip the TSV output
+  --dict <path>          Dictionary for lemma readings (defaults to data/jmdict.sqlite when imported)
+  --known <path>         Known-words store (defaults to data/known-words.json)
+  --skip-known           Leave out words that are already known
+  --min-frequency <n>    Only keep words seen at least n times (default 1)
+  -h, --help             Show this help text
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
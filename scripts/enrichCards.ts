@@ -1,82 +1,89 @@
 #!/usr/bin/env node
 /**
  * Enrich an existing cards JSON file with:
- *  - tokenized word breakdowns (lemma, reading, glosses)
- *  - sentence-level translations (from hints or literal fallback)
+ *  - word breakdowns (lemma, reading, glosses, conjugation), with inflected
+ *    verbs/adjectives and dictionary expressions grouped into one unit
+ *  - Hepburn romaji and Anki furigana markup for the sentence
+ *  - sentence-level translations (from hints, a translation provider or literal fallback)
+ *  - pitch accent, JLPT levels, frequency ranks, kanji notes and a difficulty score
  *  - refreshed TSV output compatible with Anki
  *
  * Usage:
  *   npx tsx scripts/enrichCards.ts path/to/cards.json [options]
  *
  * Options:
- *   --dict <file>          Path to a dictionary JSON (defaults to data/japanese-mini-dict.json)
+ *   --dict <file>          JMdict store (.sqlite) or dictionary JSON (defaults to data/jmdict.sqlite
+ *                          when imported, else data/japanese-mini-dict.json)
  *   --translations <file>  Optional JSON file with translations keyed by id or sentence
  *   --out <file>           Custom path for the enriched card JSON (defaults to input path)
  *   --tsv <file>           Custom path for the TSV output (defaults to alongside JSON)
  *   --no-tsv               Skip writing the TSV file
- *   --auto-translate       Use DeepL API to fill missing translations
+ *   --tsv-pitch            Add a pitch-accent graph column to the TSV
+ *   --tsv-kanji            Add a kanji notes column to the TSV
+ *   --sort <order>         TSV rows in cue order (default) or by difficulty, easiest first
+ *   --auto-translate       Use the translation provider to fill missing translations
  *   --deepl-translate      Alias for --auto-translate
+ *   --translator <name>    Translation provider (deepl, openai, mock); implies --auto-translate
  *   --auto-translate-keep  Keep existing card translations (don’t overwrite literals)
+ *   --batch-size <n>       Lines per translation request (default 50, capped by the provider)
+ *   --concurrency <n>      Translation requests in flight at once (default 2)
+ *   --max-retries <n>      Retries for rate-limited/5xx requests (default 5)
+ *   --context <n>          Send the previous/next n lines as translation context
+ *   --merge-split <ms>     Join cues split mid-sentence when the gap is under <ms>
+ *   --no-grouping          Keep one breakdown entry per kuromoji token
+ *   --only-changed         Only enrich cards a re-parse marked `needsEnrichment` (or never enriched)
+ *   --glossary <file>      Show glossary (defaults to subtitles/<Show>/glossary.json when present)
+ *   --no-glossary          Ignore the show glossary
+ *   --accents <file>       Kanjium-format pitch accent list (defaults to data/accents.txt when
+ *                          present, else data/accents-mini.tsv)
+ *   --no-accents           Leave pitch accent off the breakdown
+ *   --word-levels <file>   JLPT level/frequency rank list (defaults to data/word-levels.tsv when
+ *                          present, else data/word-levels-mini.tsv)
+ *   --kanji <file>         kanji-data kanji.json (defaults to data/kanji.json when present,
+ *                          else data/kanji-mini.json)
+ *   --no-difficulty        Skip levels, kanji notes and the difficulty score
  *   --deepl-formality <v>  DeepL formality (default, more, less, prefer_more, prefer_less)
  *   --deepl-glossary <id>  DeepL glossary ID to apply
+ *   --openai-url/--openai-model/--openai-key
+ *                          OpenAI-compatible endpoint settings
+ *   --mock-file <file>     Offline translations for the mock provider
  *   -h, --help             Show usage help
+ *
+ * The show glossary glosses names and terms in the breakdown and is forced
+ * onto provider translations; with --translator deepl its uploaded copy
+ * (syncGlossary.ts) is used unless --deepl-glossary names another.
+ *
+ * Auto-translation is checkpointed: the translation cache is rewritten after
+ * every finished batch, so rerunning an interrupted job only sends the lines
+ * that are still missing.
  */
 
 import 'dotenv/config';
-import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { existsSync, writeFileSync } from 'node:fs';
 import { basename, dirname, extname, resolve } from 'node:path';
-import { fileURLToPath } from 'node:url';
-import kuromoji from 'kuromoji';
-import type { IpadicFeatures, Tokenizer } from 'kuromoji';
-import { Translator as DeepLTranslator } from 'deepl-node';
-
-type KuromojiTokenizer = Tokenizer<IpadicFeatures>;
-
-interface DictionaryEntry {
-  lemma: string;
-  reading?: string;
-  pos?: string;
-  meanings?: string[];
-}
-
-interface TokenBreakdown {
-  surface: string;
-  lemma: string;
-  reading: string | null;
-  pos: string;
-  meanings: string[] | null;
-}
-
-interface CardRecord {
-  id: number;
-  subtitleId?: number | null;
-  sentence?: string | null;
-  translation?: string | null;
-  romaji?: string;
-  furigana?: string;
-  startTime?: string | null;
-  endTime?: string | null;
-  startMs?: number | null;
-  endMs?: number | null;
-  tokens?: TokenBreakdown[];
-  [key: string]: unknown;
-}
-
-interface TranslationEntry {
-  id: number | string | null;
-  subtitleId: number | string | null;
-  sentence: string | null;
-  translation: string;
-}
-
-interface TranslationState {
-  byId: Map<string, string>;
-  bySubtitleId: Map<string, string>;
-  bySentence: Map<string, string>;
-  addedEntries: TranslationEntry[];
-  initialEntries: TranslationEntry[];
-  sourcePath: string | null;
-}
+import { cardsToTsv, readCardsFile, writeCardsFile } from './lib/cards.js';
+import { defaultDictionaryPath, openDictionary } from './lib/dictionary.js';
+import {
+  CARD_ORDERS,
+  defaultWordLevelsPath,
+  loadWordLevels,
+  sortCards,
+  type CardOrder,
+} from './lib/difficulty.js';
+import { enrichCards } from './lib/enrich.js';
+import { loadGlossary, showGlossaryPath, withSyncedGlossaryFlag, type Glossary } from './lib/glossary.js';
+import { defaultKanjiPath, loadKanjiDictionary } from './lib/kanji.js';
+import { defaultAccentPath, loadAccentDictionary } from './lib/pitch.js';
+import { buildTokenizer } from './lib/tokenizer.js';
+import { loadTranslationHints, persistTranslations } from './lib/translations.js';
+import {
+  createTranslator,
+  DEFAULT_TRANSLATOR,
+  findProviderOption,
+  getTranslationProvider,
+  listTranslationProviders,
+  type Translator,
+} from './lib/translators.js';
 
 interface CliOptions {
   inputPath: string;
@@ -86,61 +93,30 @@ interface CliOptions {
   outputJsonPath: string;
   tsvPath: string;
   writeTsv: boolean;
+  tsvPitch: boolean;
+  tsvKanji: boolean;
+  order: CardOrder;
   autoTranslate: boolean;
   autoTranslateReplace: boolean;
-  deeplFormality: string;
-  deeplGlossaryId: string | null;
+  translatorName: string;
+  /** Provider-specific flag values, keyed by flag (e.g. "--deepl-formality"). */
+  translatorFlags: Map<string, string>;
+  batchSize: number;
+  concurrency: number;
+  maxRetries: number;
+  contextSize: number;
+  mergeGapMs: number | null;
+  groupWords: boolean;
+  onlyChanged: boolean;
+  /** Null when there is no glossary or --no-glossary was given. */
+  glossaryPath: string | null;
+  /** Null when --no-accents was given. */
+  accentPath: string | null;
+  /** Both null when --no-difficulty was given. */
+  wordLevelsPath: string | null;
+  kanjiPath: string | null;
 }
 
-type TranslatorFn = (card: CardRecord) => Promise<string | null>;
-
-const POS_MAP: Record<string, string> = {
-  名詞: 'noun',
-  動詞: 'verb',
-  形容詞: 'adjective',
-  副詞: 'adverb',
-  助詞: 'particle',
-  助動詞: 'auxiliary-verb',
-  記号: 'symbol',
-  連体詞: 'prenoun-adjectival',
-  感動詞: 'interjection',
-  接続詞: 'conjunction',
-  接頭詞: 'prefix',
-  その他: 'other',
-  フィラー: 'filler',
-  一般: 'general',
-  固有名詞: 'proper-noun',
-  サ変接続: 'suru-verb',
-  自立: 'independent',
-  非自立: 'non-independent',
-  形容動詞語幹: 'na-adj-stem',
-  数: 'number',
-  助数詞: 'counter',
-  係助詞: 'binding-particle',
-  格助詞: 'case-particle',
-  副助詞: 'adverbial-particle',
-  並立助詞: 'parallel-particle',
-  終助詞: 'sentence-ending-particle',
-  連体化: 'attributive',
-  接続助詞: 'conjunctive-particle',
-  感動詞語幹: 'interjection-stem',
-  括弧開: 'open-bracket',
-  括弧閉: 'close-bracket',
-  句点: 'period',
-  読点: 'comma',
-  空白: 'whitespace',
-  記号一般: 'symbol-general',
-  代名詞: 'pronoun',
-  副詞可能: 'adverbial',
-  連語: 'expression',
-  語幹: 'stem',
-  テ形: 'te-form',
-  タ形: 'ta-form',
-};
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   if (!args.length || args.includes('-h') || args.includes('--help')) {
@@ -151,229 +127,59 @@ async function main(): Promise<void> {
   const options = parseOptions(args);
 
   const tokenizer = await buildTokenizer();
-  const dictionary = loadDictionary(options.dictPath);
+  const dictionary = await openDictionary(options.dictPath);
   const translations = loadTranslationHints(options.translationPath);
-  const translator: TranslatorFn | null = options.autoTranslate
-    ? createDeepLTranslator({
-        formality: options.deeplFormality,
-        glossaryId: options.deeplGlossaryId,
-      })
+  const glossary: Glossary | null = options.glossaryPath ? loadGlossary(options.glossaryPath) : null;
+  if (glossary) {
+    console.log(`Using ${glossary.entries.length} glossary term(s) from ${options.glossaryPath}`);
+  }
+  const accents = options.accentPath ? loadAccentDictionary(options.accentPath) : null;
+  const wordLevels = options.wordLevelsPath ? loadWordLevels(options.wordLevelsPath) : null;
+  const kanji = options.kanjiPath ? loadKanjiDictionary(options.kanjiPath) : null;
+  const translator: Translator | null = options.autoTranslate
+    ? createTranslator(
+        options.translatorName,
+        options.translatorName === 'deepl'
+          ? withSyncedGlossaryFlag(options.translatorFlags, glossary)
+          : options.translatorFlags,
+      )
     : null;
 
-  const rawCards: CardRecord[] = JSON.parse(readFileSync(options.inputPath, 'utf8'));
-  const enrichedCards: CardRecord[] = [];
-
-  for (const card of rawCards) {
-    // eslint-disable-next-line no-await-in-loop
-    const enriched = await enrichCard(
-      card,
-      tokenizer,
-      dictionary,
-      translations,
-      translator,
-      {
-        autoTranslateReplace: options.autoTranslateReplace,
-      },
-    );
-    enrichedCards.push(enriched);
-  }
+  const loadedCards = readCardsFile(options.inputPath);
+  const enriched = await enrichCards(loadedCards, {
+    tokenizer,
+    dictionary,
+    translations,
+    translator,
+    glossary,
+    accents,
+    wordLevels,
+    kanji,
+    autoTranslateReplace: options.autoTranslateReplace,
+    groupWords: options.groupWords,
+    batchSize: options.batchSize,
+    concurrency: options.concurrency,
+    maxRetries: options.maxRetries,
+    contextSize: options.contextSize,
+    mergeGapMs: options.mergeGapMs,
+    onlyChanged: options.onlyChanged,
+    checkpointPath: options.translationSavePath,
+  });
 
-  writeFileSync(options.outputJsonPath, JSON.stringify(enrichedCards, null, 2), 'utf8');
+  // cards.json stays in cue order; merging, context and QA rely on it.
+  writeCardsFile(options.outputJsonPath, enriched);
   console.log(`Enriched JSON written to ${options.outputJsonPath}`);
 
   if (options.writeTsv) {
-    writeFileSync(options.tsvPath, cardsToTsv(enrichedCards), 'utf8');
+    const rows = sortCards(enriched, options.order);
+    writeFileSync(options.tsvPath, cardsToTsv(rows, { pitch: options.tsvPitch, kanji: options.tsvKanji }), 'utf8');
     console.log(`TSV output written to ${options.tsvPath}`);
   }
 
   if (options.translationSavePath && translations.addedEntries.length) {
     persistTranslations(translations, options.translationSavePath);
   }
-}
-
-async function enrichCard(
-  card: CardRecord,
-  tokenizer: KuromojiTokenizer,
-  dictionary: Map<string, DictionaryEntry>,
-  translations: TranslationState,
-  translator: TranslatorFn | null,
-  options: { autoTranslateReplace: boolean },
-): Promise<CardRecord> {
-  const tokens = tokenizer.tokenize(card.sentence || '');
-  const breakdown = tokens
-    .map((token) => normalizeToken(token, dictionary))
-    .filter((token) => token.surface.trim().length);
-
-  const translatorEnabled = Boolean(translator);
-  const cardTranslation = (card.translation || '').trim();
-
-  let translationSource: 'hint' | 'card' | 'literal' | 'deepl' | null = null;
-  let translation = pickTranslation(card, translations);
-  if (translation) {
-    translationSource = 'hint';
-  }
-
-  if (!translation && cardTranslation.length && (!translatorEnabled || !options.autoTranslateReplace)) {
-    translation = cardTranslation;
-    translationSource = 'card';
-  }
-
-  if (!translation) {
-    translation = buildLiteralTranslation(breakdown);
-    translationSource = 'literal';
-  }
-
-  const shouldAutoTranslate =
-    translatorEnabled &&
-    (!translation || (options.autoTranslateReplace && translationSource !== 'hint'));
-
-  if (shouldAutoTranslate && translator) {
-    const generated = await translator(card);
-    if (generated) {
-      translation = generated;
-      translationSource = 'deepl';
-      registerGeneratedTranslation(translations, card, translation);
-    }
-  }
-
-  return {
-    ...card,
-    translation: translation ?? '',
-    tokens: breakdown,
-  };
-}
-
-function normalizeToken(token: IpadicFeatures, dictionary: Map<string, DictionaryEntry>): TokenBreakdown {
-  const lemma = token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form;
-  const dictEntry = dictionary.get(lemma);
-
-  return {
-    surface: token.surface_form,
-    lemma,
-    reading: token.reading && token.reading !== '*' ? katakanaToHiragana(token.reading) : null,
-    pos: buildPosLabel(token),
-    meanings: dictEntry?.meanings ?? null,
-  };
-}
-
-function buildPosLabel(token: IpadicFeatures): string {
-  return [token.pos, token.pos_detail_1, token.pos_detail_2, token.pos_detail_3]
-    .map((part) => translatePosPart(part))
-    .filter((part): part is string => Boolean(part))
-    .join('-');
-}
-
-function translatePosPart(part?: string | null): string | null {
-  if (!part || part === '*') return null;
-  return part
-    .split('／')
-    .map((segment) => {
-      const trimmed = segment.trim();
-      return POS_MAP[trimmed] ?? trimmed;
-    })
-    .join('/');
-}
-
-function buildLiteralTranslation(tokens: TokenBreakdown[]): string {
-  if (!tokens.length) return '';
-  return tokens
-    .map((token) => (token.meanings?.[0] ? token.meanings[0] : token.surface))
-    .join(' ');
-}
-
-function pickTranslation(card: CardRecord, translations: TranslationState): string | null {
-  if (translations.byId.has(String(card.id))) {
-    return translations.byId.get(String(card.id)) ?? null;
-  }
-
-  if (card.subtitleId != null && translations.bySubtitleId.has(String(card.subtitleId))) {
-    return translations.bySubtitleId.get(String(card.subtitleId)) ?? null;
-  }
-
-  const normalizedSentence = (card.sentence || '').trim();
-  if (normalizedSentence.length && translations.bySentence.has(normalizedSentence)) {
-    return translations.bySentence.get(normalizedSentence) ?? null;
-  }
-
-  return null;
-}
-
-function buildTokenizer(): Promise<KuromojiTokenizer> {
-  const dictPath = resolve(__dirname, '../node_modules/kuromoji/dict');
-  return new Promise((resolvePromise, rejectPromise) => {
-    kuromoji.builder({ dicPath: dictPath }).build((err, tokenizer) => {
-      if (err) {
-        rejectPromise(err);
-      } else {
-        resolvePromise(tokenizer);
-      }
-    });
-  });
-}
-
-function loadDictionary(dictPath: string): Map<string, DictionaryEntry> {
-  if (!existsSync(dictPath)) {
-    console.warn(`Dictionary file not found at ${dictPath}. Meanings will be omitted.`);
-    return new Map();
-  }
-
-  const payload = JSON.parse(readFileSync(dictPath, 'utf8')) as DictionaryEntry[] | DictionaryEntry;
-  const entries = Array.isArray(payload) ? payload : [payload];
-
-  return new Map(entries.map((entry) => [entry.lemma, entry]));
-}
-
-function loadTranslationHints(path: string | null): TranslationState {
-  const byId = new Map<string, string>();
-  const bySubtitleId = new Map<string, string>();
-  const bySentence = new Map<string, string>();
-  const initialEntries: TranslationEntry[] = [];
-
-  if (!path) {
-    return { byId, bySubtitleId, bySentence, addedEntries: [], initialEntries, sourcePath: null };
-  }
-
-  if (!existsSync(path)) {
-    console.warn(`Translation hint file not found at ${path}. Skipping translations.`);
-    return { byId, bySubtitleId, bySentence, addedEntries: [], initialEntries, sourcePath: path };
-  }
-
-  const raw = JSON.parse(readFileSync(path, 'utf8')) as unknown;
-
-  const registerEntry = (entryLike: unknown): void => {
-    const safeEntry = sanitizeTranslationEntry(entryLike);
-    if (!safeEntry) return;
-    if (safeEntry.id != null) {
-      byId.set(String(safeEntry.id), safeEntry.translation);
-    }
-    if (safeEntry.subtitleId != null) {
-      bySubtitleId.set(String(safeEntry.subtitleId), safeEntry.translation);
-    }
-    if (safeEntry.sentence) {
-      bySentence.set(safeEntry.sentence, safeEntry.translation);
-    }
-    initialEntries.push(safeEntry);
-  };
-
-  if (Array.isArray(raw)) {
-    raw.forEach(registerEntry);
-  } else if (typeof raw === 'object' && raw !== null) {
-    Object.entries(raw).forEach(([key, value]) => {
-      if (typeof value === 'string') {
-        registerEntry({ id: key, translation: value });
-      } else if (value && typeof value === 'object') {
-        registerEntry({ id: key, ...value });
-      }
-    });
-  }
-
-  return { byId, bySubtitleId, bySentence, addedEntries: [], initialEntries, sourcePath: path };
-}
-
-function katakanaToHiragana(text: string): string {
-  return text.replace(/[\u30a1-\u30f6]/g, (char) =>
-    String.fromCharCode(char.charCodeAt(0) - 0x60),
-  );
+  dictionary.close();
 }
 
 function parseOptions(cliArgs: string[]): CliOptions {
@@ -383,17 +189,32 @@ function parseOptions(cliArgs: string[]): CliOptions {
 
   const opts: CliOptions = {
     inputPath: resolve(cliArgs[0]),
-    dictPath: resolveDefaultDict(),
+    dictPath: defaultDictionaryPath(),
     translationPath: null,
     translationSavePath: null,
     outputJsonPath: '',
     tsvPath: '',
     writeTsv: true,
+    tsvPitch: false,
+    tsvKanji: false,
+    order: 'cue',
     autoTranslate: false,
     autoTranslateReplace: true,
-    deeplFormality: 'default',
-    deeplGlossaryId: null,
+    translatorName: DEFAULT_TRANSLATOR,
+    translatorFlags: new Map(),
+    batchSize: 50,
+    concurrency: 2,
+    maxRetries: 5,
+    contextSize: 0,
+    mergeGapMs: null,
+    groupWords: true,
+    onlyChanged: false,
+    glossaryPath: null,
+    accentPath: defaultAccentPath(),
+    wordLevelsPath: defaultWordLevelsPath(),
+    kanjiPath: defaultKanjiPath(),
   };
+  let glossaryPath: string | null | undefined;
 
   for (let i = 1; i < cliArgs.length; i += 1) {
     const token = cliArgs[i];
@@ -416,21 +237,93 @@ function parseOptions(cliArgs: string[]): CliOptions {
       case '--no-tsv':
         opts.writeTsv = false;
         break;
+      case '--tsv-pitch':
+        opts.tsvPitch = true;
+        break;
+      case '--tsv-kanji':
+        opts.tsvKanji = true;
+        break;
+      case '--sort': {
+        const order = ensureNext(cliArgs, ++i, '--sort');
+        if (!CARD_ORDERS.includes(order as CardOrder)) {
+          throw new Error(`--sort expects one of ${CARD_ORDERS.join(', ')}, got "${order}".`);
+        }
+        opts.order = order as CardOrder;
+        break;
+      }
       case '--auto-translate':
       case '--deepl-translate':
         opts.autoTranslate = true;
         break;
+      case '--translator':
+        opts.translatorName = getTranslationProvider(ensureNext(cliArgs, ++i, '--translator')).name;
+        opts.autoTranslate = true;
+        break;
       case '--auto-translate-keep':
         opts.autoTranslateReplace = false;
         break;
-      case '--deepl-formality':
-        opts.deeplFormality = ensureNext(cliArgs, ++i, '--deepl-formality');
+      case '--batch-size':
+        opts.batchSize = parseCount(ensureNext(cliArgs, ++i, '--batch-size'), '--batch-size', 1);
+        break;
+      case '--concurrency':
+        opts.concurrency = parseCount(ensureNext(cliArgs, ++i, '--concurrency'), '--concurrency', 1);
+        break;
+      case '--max-retries':
+        opts.maxRetries = parseCount(ensureNext(cliArgs, ++i, '--max-retries'), '--max-retries', 0);
+        break;
+      case '--context':
+        opts.contextSize = parseCount(ensureNext(cliArgs, ++i, '--context'), '--context', 0);
+        break;
+      case '--merge-split':
+        opts.mergeGapMs = parseCount(ensureNext(cliArgs, ++i, '--merge-split'), '--merge-split', 0);
+        break;
+      case '--no-grouping':
+        opts.groupWords = false;
+        break;
+      case '--only-changed':
+        opts.onlyChanged = true;
+        break;
+      case '--glossary':
+        glossaryPath = resolve(ensureNext(cliArgs, ++i, '--glossary'));
+        if (!existsSync(glossaryPath)) throw new Error(`Glossary not found at ${glossaryPath}.`);
+        break;
+      case '--no-glossary':
+        glossaryPath = null;
+        break;
+      case '--accents':
+        opts.accentPath = resolve(ensureNext(cliArgs, ++i, '--accents'));
+        if (!existsSync(opts.accentPath)) throw new Error(`Accent list not found at ${opts.accentPath}.`);
+        break;
+      case '--no-accents':
+        opts.accentPath = null;
         break;
-      case '--deepl-glossary':
-        opts.deeplGlossaryId = ensureNext(cliArgs, ++i, '--deepl-glossary');
+      case '--word-levels':
+        opts.wordLevelsPath = resolve(ensureNext(cliArgs, ++i, '--word-levels'));
+        if (!existsSync(opts.wordLevelsPath)) {
+          throw new Error(`Word level list not found at ${opts.wordLevelsPath}.`);
+        }
         break;
-      default:
-        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+      case '--kanji':
+        opts.kanjiPath = resolve(ensureNext(cliArgs, ++i, '--kanji'));
+        if (!existsSync(opts.kanjiPath)) throw new Error(`Kanji data not found at ${opts.kanjiPath}.`);
+        break;
+      case '--no-difficulty':
+        opts.wordLevelsPath = null;
+        opts.kanjiPath = null;
+        break;
+      default: {
+        if (!findProviderOption(token)) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        }
+        opts.translatorFlags.set(token, ensureNext(cliArgs, ++i, token));
+      }
+    }
+  }
+
+  for (const flag of opts.translatorFlags.keys()) {
+    const owner = findProviderOption(flag)?.provider.name;
+    if (owner !== opts.translatorName) {
+      console.warn(`${flag} only applies to --translator ${owner}; ignoring it for ${opts.translatorName}.`);
     }
   }
 
@@ -443,6 +336,13 @@ function parseOptions(cliArgs: string[]): CliOptions {
     opts.tsvPath = opts.tsvPath ? resolve(opts.tsvPath) : opts.outputJsonPath.replace(/\.json$/, '.tsv');
   }
 
+  if (glossaryPath === undefined) {
+    const showGlossary = showGlossaryPath(opts.inputPath);
+    opts.glossaryPath = showGlossary && existsSync(showGlossary) ? showGlossary : null;
+  } else {
+    opts.glossaryPath = glossaryPath;
+  }
+
   if (!opts.translationSavePath && opts.translationPath) {
     opts.translationSavePath = opts.translationPath;
   }
@@ -450,6 +350,14 @@ function parseOptions(cliArgs: string[]): CliOptions {
   return opts;
 }
 
+function parseCount(value: string, flag: string, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${flag} expects a whole number of at least ${min}, got "${value}".`);
+  }
+  return parsed;
+}
+
 function ensureNext(tokens: string[], index: number, optionName: string): string {
   if (index >= tokens.length) {
     throw new Error(`${optionName} requires a file path argument.`);
@@ -463,189 +371,57 @@ function replaceExt(filePath: string, newExt: string): string {
   return resolve(dir, `${base}${newExt}`);
 }
 
-function resolveDefaultDict(): string {
-  return resolve(__dirname, '../data/japanese-mini-dict.json');
-}
-
-function cardsToTsv(cards: CardRecord[]): string {
-  return cards
-    .map((card) => `${clean(card.sentence)}\t${clean(card.translation as string | null | undefined)}`)
-    .join('\n');
-}
-
-function clean(value: string | null | undefined): string {
-  return (value ?? '').replace(/\t/g, ' ').replace(/\r?\n/g, ' ').trim();
-}
-
 function printUsage(): void {
   console.log(`Usage: npx tsx scripts/enrichCards.ts <cards.json> [options]
 
 Options:
-  --dict <path>          Custom dictionary JSON
+  --dict <path>          JMdict store (.sqlite) or dictionary JSON
+                         (defaults to data/jmdict.sqlite when imported)
   --translations <path>  JSON with translations keyed by id/subtitleId/sentence
   --translations-out <path>
                          Write updated translation cache (defaults to --translations path)
   --out <path>           Destination for enriched JSON (defaults to input)
   --tsv <path>           Destination for TSV (defaults to alongside JSON)
   --no-tsv               Skip writing the TSV output
-  --auto-translate       Use DeepL API to fill missing translations
+  --tsv-pitch            Add a TSV column with pitch-accent graphs (HTML) of the words
+  --tsv-kanji            Add a TSV column with the kanji notes (HTML) of the sentence
+  --sort <order>         Row order of the TSV: ${CARD_ORDERS.join(' or ')} (default cue; difficulty
+                         puts the easiest cards first). The JSON always stays in cue order
+  --auto-translate       Use the translation provider to fill missing translations
   --deepl-translate      Alias for --auto-translate
+  --translator <name>    Translation provider (default ${DEFAULT_TRANSLATOR}); implies --auto-translate
   --auto-translate-keep  Keep existing card translations (don’t overwrite literals)
-  --deepl-formality <v>  DeepL formality (default, more, less, prefer_more, prefer_less)
-  --deepl-glossary <id>  DeepL glossary ID to apply
+  --batch-size <n>       Lines per translation request (default 50, capped by the provider)
+  --concurrency <n>      Translation requests in flight at once (default 2)
+  --max-retries <n>      Retries for rate-limited/5xx requests, with exponential backoff (default 5)
+  --context <n>          Send the previous/next n lines as context (only the target line is kept)
+  --merge-split <ms>     Join cues with no 。！？ ending into the next cue when the gap is under <ms>
+  --no-grouping          Keep one breakdown entry per kuromoji token (no word/conjugation grouping)
+  --only-changed         Only enrich cards marked needsEnrichment by a re-parse (or never enriched)
+  --glossary <path>      Show glossary of names and terms
+                         (defaults to subtitles/<Show>/glossary.json when present)
+  --no-glossary          Ignore the show glossary
+  --accents <path>       Kanjium-format pitch accent list (word, reading, downstep positions)
+                         (defaults to data/accents.txt when present, else data/accents-mini.tsv)
+  --no-accents           Leave pitch accent off the breakdown
+  --word-levels <path>   Word list with JLPT level and frequency rank (word, reading, N5–N1, rank)
+                         (defaults to data/word-levels.tsv when present, else data/word-levels-mini.tsv)
+  --kanji <path>         Kanji data in kanji-data's kanji.json format
+                         (defaults to data/kanji.json when present, else data/kanji-mini.json)
+  --no-difficulty        Skip JLPT levels, frequency ranks, kanji notes and the difficulty score
   -h, --help             Show this help text
-`);
-}
-
-function sanitizeTranslationEntry(entry: unknown): TranslationEntry | null {
-  if (!entry || typeof entry !== 'object') return null;
-  const maybe = entry as Record<string, unknown>;
-  if (typeof maybe.translation !== 'string') return null;
-  const translation = maybe.translation.trim();
-  if (!translation.length) return null;
-
-  const sentence =
-    typeof maybe.sentence === 'string' && maybe.sentence.trim().length
-      ? maybe.sentence.trim()
-      : null;
-
-  const normalizedId =
-    maybe.id === null || maybe.id === undefined || maybe.id === ''
-      ? null
-      : normalizeNumeric(maybe.id);
-
-  const normalizedSubtitleId =
-    maybe.subtitleId === null || maybe.subtitleId === undefined || maybe.subtitleId === ''
-      ? null
-      : normalizeNumeric(maybe.subtitleId);
-
-  return {
-    id: normalizedId,
-    subtitleId: normalizedSubtitleId,
-    sentence,
-    translation,
-  };
-}
-
-function normalizeNumeric(value: unknown): number | string {
-  if (typeof value === 'number' && Number.isFinite(value)) return value;
-  const parsed = Number.parseInt(String(value), 10);
-  return Number.isNaN(parsed) ? String(value) : parsed;
-}
-
-function registerGeneratedTranslation(
-  translations: TranslationState,
-  card: CardRecord,
-  translation: string,
-): void {
-  const normalizedSentence = (card.sentence || '').trim() || null;
-
-  if (card.id != null) {
-    translations.byId.set(String(card.id), translation);
-  }
-  if (card.subtitleId != null) {
-    translations.bySubtitleId.set(String(card.subtitleId), translation);
-  }
-  if (normalizedSentence) {
-    translations.bySentence.set(normalizedSentence, translation);
-  }
-
-  const entry = sanitizeTranslationEntry({
-    id: card.id ?? null,
-    subtitleId: card.subtitleId ?? null,
-    sentence: normalizedSentence,
-    translation,
-  });
-  if (entry) {
-    translations.addedEntries.push(entry);
-  }
-}
 
-function persistTranslations(translations: TranslationState, outputPath: string): void {
-  const existing = translations.initialEntries ?? [];
-  const additions = translations.addedEntries ?? [];
-  const merged = mergeTranslationEntries(existing, additions);
-  writeFileSync(outputPath, JSON.stringify(merged, null, 2), 'utf8');
-  console.log(
-    `Translation cache updated at ${outputPath} (+${additions.length} new entries).`,
-  );
-}
-
-function mergeTranslationEntries(
-  existing: TranslationEntry[],
-  additions: TranslationEntry[],
-): TranslationEntry[] {
-  const map = new Map<string, TranslationEntry>();
-  let anonCounter = 0;
-
-  const put = (entry: TranslationEntry | null): void => {
-    if (!entry) return;
-    const key =
-      entry.subtitleId != null
-        ? `subtitleId:${entry.subtitleId}`
-        : entry.id != null
-          ? `id:${entry.id}`
-          : entry.sentence
-            ? `sentence:${entry.sentence}`
-            : `anon:${anonCounter++}`;
-    map.set(key, entry);
-  };
-
-  existing.forEach(put);
-  additions.forEach(put);
-
-  return Array.from(map.values());
-}
-
-function createDeepLTranslator(options: {
-  formality?: string;
-  glossaryId?: string | null;
-}): TranslatorFn {
-  const authKey = process.env.DEEPL_API_KEY;
-  if (!authKey) {
-    throw new Error('DEEPL_API_KEY environment variable is required for --deepl-translate.');
-  }
-
-  const translator = new DeepLTranslator(authKey);
-  const requestedFormality = options.formality ?? 'default';
-  const normalizedFormality = normalizeDeepLFormality(requestedFormality);
-  const glossaryId = options.glossaryId ?? null;
-
-  return async (card: CardRecord) => {
-    const sentence = (card.sentence || '').trim();
-    if (!sentence.length) return null;
-    try {
-      const response = await translator.translateText(sentence, 'ja', 'en-US', {
-        formality: normalizedFormality === 'default' ? undefined : normalizedFormality,
-        glossary: glossaryId ?? undefined,
-      });
-      if (Array.isArray(response)) {
-        return response[0]?.text?.trim() ?? null;
-      }
-      return response?.text?.trim() ?? null;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.warn(
-        `DeepL translation failed for subtitle ${card.subtitleId ?? card.id}: ${message}`,
-      );
-      return null;
-    }
-  };
-}
-
-function normalizeDeepLFormality(value: string): 'default' | 'more' | 'less' {
-  switch (value) {
-    case 'more':
-    case 'less':
-    case 'default':
-      return value;
-    case 'prefer_more':
-      return 'more';
-    case 'prefer_less':
-      return 'less';
-    default:
-      return 'default';
-  }
+Translation providers:
+${listTranslationProviders()
+  .map((provider) => {
+    const flags = provider.options.map(
+      (option) =>
+        `    ${`${option.flag} <v>`.padEnd(20)} ${option.description}${option.env ? ` ($${option.env})` : ''}`,
+    );
+    return [`  ${provider.name.padEnd(8)}${provider.description}`, ...flags].join('\n');
+  })
+  .join('\n')}
+`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,184 @@
+#!/usr/bin/env node
+/**
+ * Export an enriched cards JSON file as an Anki package (.apkg) with a
+ * dedicated note type (sentence, furigana, romaji, translation, word
+ * breakdown, pitch accent, kanji notes, speaker, episode, timestamp, audio,
+ * image).
+ *
+ * Usage:
+ *   npx tsx scripts/exportAnki.ts subtitles/<Show>/episodeXX/cards/episodeXX.cards.json [options]
+ *
+ * Options:
+ *   --out <file>            Destination .apkg (defaults to "<episode>.apkg" next to the JSON)
+ *   --deck <name>           Deck name (defaults to "<Show>::<episode>")
+ *   --show <slug>           Show slug used for GUIDs/tags (inferred from the path)
+ *   --episode <id>          Episode id used for GUIDs/tags (inferred from the path)
+ *   --include-non-speech    Also export cards flagged as sound effects/breathing/music
+ *   --tag <tag>             Only export cards carrying this tag (e.g. "i+1"); repeatable
+ *   --max-unknown <n>       Only export cards with at most n unknown words (see knownWords.ts score)
+ *   --sort <order>          Order new cards are studied in: cue (default) or difficulty, easiest first
+ *
+ * Note GUIDs derive from show, episode and subtitleId, so importing a
+ * re-export updates the existing notes rather than adding duplicates.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { buildSentenceDeck } from './lib/ankiDeck.js';
+import { readCardsFile } from './lib/cards.js';
+import { CARD_ORDERS, sortCards, type CardOrder } from './lib/difficulty.js';
+import { inferShowAndEpisode } from './lib/episodes.js';
+
+interface CliOptions {
+  inputPath: string;
+  outputPath: string;
+  deckName: string;
+  show: string;
+  episode: string;
+  includeNonSpeech: boolean;
+  tags: string[];
+  maxUnknown: number | null;
+  order: CardOrder;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  // Anki studies new cards in the order the notes were added.
+  const cards = sortCards(readCardsFile(options.inputPath), options.order);
+  const deck = await buildSentenceDeck(cards, { ...options, cardsDir: dirname(options.inputPath) });
+  writeFileSync(options.outputPath, deck.apkg);
+
+  console.log(
+    `Exported ${deck.notes} note(s) and ${deck.media} media file(s) to deck "${options.deckName}".`,
+  );
+  if (deck.skippedNonSpeech) {
+    console.log(`- Skipped ${deck.skippedNonSpeech} non-speech card(s).`);
+  }
+  if (deck.skippedByFilter) {
+    console.log(`- Skipped ${deck.skippedByFilter} card(s) not matching --tag/--max-unknown.`);
+  }
+  console.log(`Anki package written to ${options.outputPath}`);
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const inputPath = resolve(cliArgs[0]);
+  const inferred = inferShowAndEpisode(inputPath);
+  let outputPath = '';
+  let deckName = '';
+  let show = inferred.show;
+  let episode = inferred.episode;
+  let includeNonSpeech = false;
+  const tags: string[] = [];
+  let maxUnknown: number | null = null;
+  let order: CardOrder = 'cue';
+
+  for (let i = 1; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--out':
+        outputPath = resolve(ensureNext(cliArgs, ++i, '--out'));
+        break;
+      case '--deck':
+        deckName = ensureNext(cliArgs, ++i, '--deck');
+        break;
+      case '--show':
+        show = ensureNext(cliArgs, ++i, '--show');
+        break;
+      case '--episode':
+        episode = ensureNext(cliArgs, ++i, '--episode');
+        break;
+      case '--include-non-speech':
+        includeNonSpeech = true;
+        break;
+      case '--tag':
+        tags.push(ensureNext(cliArgs, ++i, '--tag'));
+        break;
+      case '--max-unknown': {
+        const value = ensureNext(cliArgs, ++i, '--max-unknown');
+        maxUnknown = Number(value);
+        if (!Number.isInteger(maxUnknown) || maxUnknown < 0) {
+          throw new Error(`--max-unknown expects a whole number, got "${value}".`);
+        }
+        break;
+      }
+      case '--sort': {
+        const value = ensureNext(cliArgs, ++i, '--sort');
+        if (!CARD_ORDERS.includes(value as CardOrder)) {
+          throw new Error(`--sort expects one of ${CARD_ORDERS.join(', ')}, got "${value}".`);
+        }
+        order = value as CardOrder;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+    }
+  }
+
+  if (!show || !episode) {
+    throw new Error(
+      'Could not infer show/episode from the path. Pass --show and --episode so note GUIDs stay stable.',
+    );
+  }
+
+  return {
+    inputPath,
+    outputPath: outputPath || defaultApkgPath(inputPath),
+    deckName: deckName || `${show}::${episode}`,
+    show,
+    episode,
+    includeNonSpeech,
+    tags,
+    maxUnknown,
+    order,
+  };
+}
+
+function defaultApkgPath(inputPath: string): string {
+  const base = basename(inputPath, extname(inputPath)).replace(/\.cards$/i, '');
+  return resolve(dirname(inputPath), `${base}.apkg`);
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/exportAnki.ts <cards.json> [options]
+
+Options:
+  --out <path>            Destination .apkg (defaults to "<episode>.apkg" next to the JSON)
+  --deck <name>           Deck name (defaults to "<Show>::<episode>")
+  --show <slug>           Show slug for note GUIDs and tags (inferred from the path)
+  --episode <id>          Episode id for note GUIDs and tags (inferred from the path)
+  --include-non-speech    Also export sound-effect/breathing/music cards
+  --tag <tag>             Only export cards with this tag (e.g. "i+1"); repeat to require several
+  --max-unknown <n>       Only export cards with at most n unknown words (run knownWords.ts score first)
+  --sort <order>          Order new cards are studied in: ${CARD_ORDERS.join(' or ')} (default cue;
+                          difficulty puts the easiest cards first)
+  -h, --help              Show this help text
+
+Re-exporting an episode keeps note GUIDs stable, so Anki updates existing notes.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
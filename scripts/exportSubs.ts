@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+/**
+ * Turn an enriched cards JSON file back into subtitles for playback, with
+ * the card's Japanese on top and its English underneath.
+ *
+ * Usage:
+ *   npx tsx scripts/exportSubs.ts subtitles/<Show>/episodeXX/cards/episodeXX.cards.json [options]
+ *
+ * Options:
+ *   --format <list>         Comma-separated formats: srt, vtt, ass (default srt)
+ *   --out-dir <dir>         Where to write "<episode>.bilingual.<ext>" (defaults to the JSON's folder)
+ *   --english <mode>        all (default), unknown (only lines with unknown words) or none
+ *   --known <file>          Known-words store for --english unknown (defaults to data/known-words.json)
+ *   --drop-non-speech       Leave out sound-effect/breathing/music cues
+ *
+ * The ASS file shows furigana as ruby above each kanji run.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { BILINGUAL_FORMATS, renderBilingual, type BilingualFormat } from './lib/bilingual.js';
+import { readCardsFile, type CardRecord } from './lib/cards.js';
+import { inferShowAndEpisode } from './lib/episodes.js';
+import { loadKnownWords, scoreCard } from './lib/knownWords.js';
+
+type EnglishMode = 'all' | 'unknown' | 'none';
+
+interface CliOptions {
+  inputPath: string;
+  formats: BilingualFormat[];
+  outputDir: string;
+  english: EnglishMode;
+  knownPath: string;
+  dropNonSpeech: boolean;
+}
+
+const ENGLISH_MODES: EnglishMode[] = ['all', 'unknown', 'none'];
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const cards = readCardsFile(options.inputPath);
+  const showEnglish = englishFilter(cards, options);
+  const { show, episode } = inferShowAndEpisode(options.inputPath);
+  const base = basename(options.inputPath, extname(options.inputPath)).replace(/\.cards$/i, '');
+  if (!existsSync(options.outputDir)) mkdirSync(options.outputDir, { recursive: true });
+
+  options.formats.forEach((format) => {
+    const outputPath = resolve(options.outputDir, `${base}.bilingual.${format}`);
+    const content = renderBilingual(cards, format, {
+      showEnglish,
+      dropNonSpeech: options.dropNonSpeech,
+      title: show && episode ? `${show} ${episode}` : base,
+    });
+    writeFileSync(outputPath, content, 'utf8');
+    console.log(`Bilingual ${format.toUpperCase()} written to ${outputPath}`);
+  });
+
+  const english = cards.filter((card) => card.translation && !card.nonSpeech && showEnglish(card)).length;
+  console.log(`English shown on ${english} of ${cards.filter((card) => !card.nonSpeech).length} speech line(s).`);
+}
+
+/**
+ * "unknown" scores cards against the known-words store when it has words,
+ * otherwise falls back to the counts from an earlier knownWords.ts score.
+ */
+function englishFilter(cards: CardRecord[], options: CliOptions): (card: CardRecord) => boolean {
+  if (options.english === 'all') return () => true;
+  if (options.english === 'none') return () => false;
+
+  const store = loadKnownWords(options.knownPath);
+  if (Object.keys(store.words).length) {
+    return (card) => scoreCard(card, store).unknownCount > 0;
+  }
+  if (!cards.some((card) => card.unknownCount != null)) {
+    console.warn(
+      `No known words in ${options.knownPath} and no scores on the cards; every line counts as unknown.`,
+    );
+  }
+  return (card) => card.unknownCount == null || card.unknownCount > 0;
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const inputPath = resolve(cliArgs[0]);
+  let formats: BilingualFormat[] = ['srt'];
+  let outputDir = dirname(inputPath);
+  let english: EnglishMode = 'all';
+  let knownPath = resolve(__dirname, '../data/known-words.json');
+  let dropNonSpeech = false;
+
+  for (let i = 1; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--format': {
+        const value = ensureNext(cliArgs, ++i, '--format');
+        formats = value.split(',').map((part) => part.trim().toLowerCase()) as BilingualFormat[];
+        const unknown = formats.filter((format) => !BILINGUAL_FORMATS.includes(format));
+        if (unknown.length || !formats.length) {
+          throw new Error(`--format expects a list of ${BILINGUAL_FORMATS.join(', ')}, got "${value}".`);
+        }
+        break;
+      }
+      case '--out-dir':
+        outputDir = resolve(ensureNext(cliArgs, ++i, '--out-dir'));
+        break;
+      case '--english': {
+        const value = ensureNext(cliArgs, ++i, '--english') as EnglishMode;
+        if (!ENGLISH_MODES.includes(value)) {
+          throw new Error(`--english expects one of ${ENGLISH_MODES.join(', ')}, got "${value}".`);
+        }
+        english = value;
+        break;
+      }
+      case '--known':
+        knownPath = resolve(ensureNext(cliArgs, ++i, '--known'));
+        break;
+      case '--drop-non-speech':
+        dropNonSpeech = true;
+        break;
+      default:
+        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+    }
+  }
+
+  return { inputPath, formats: Array.from(new Set(formats)), outputDir, english, knownPath, dropNonSpeech };
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/exportSubs.ts <cards.json> [options]
+
+Options:
+  --format <list>         Comma-separated formats: srt, vtt, ass (default srt)
+  --out-dir <dir>         Where to write "<episode>.bilingual.<ext>" (defaults to the JSON's folder)
+  --english <mode>        all (default), unknown (only lines with unknown words) or none
+  --known <path>          Known-words store for --english unknown (defaults to data/known-words.json)
+  --drop-non-speech       Leave out sound-effect/breathing/music cues
+  -h, --help              Show this help text
+
+SRT and WebVTT put the Japanese line above the English one; the ASS file also
+shows furigana above the kanji. Load the file in your player next to the episode video.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
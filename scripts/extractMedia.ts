@@ -0,0 +1,342 @@
+#!/usr/bin/env node
+/**
+ * Cut one audio clip and one mid-cue screenshot per card from the episode's
+ * video using a locally installed ffmpeg, and record them on each card as
+ * `audioFile`/`imageFile` (paths relative to the cards JSON).
+ *
+ * Usage:
+ *   npx tsx scripts/extractMedia.ts subtitles/<Show>/episodeXX/cards/episodeXX.cards.json [options]
+ *
+ * Options:
+ *   --video <file>          Source video (defaults to the video next to raw/)
+ *   --media-dir <dir>       Output folder (defaults to "<episode>/media")
+ *   --pad-start <ms>        Extra audio before each cue (default 250)
+ *   --pad-end <ms>          Extra audio after each cue (default 250)
+ *   --ffmpeg <path>         ffmpeg binary (defaults to FFMPEG_PATH or "ffmpeg")
+ *   --no-audio              Skip audio clips
+ *   --no-image              Skip screenshots
+ *   --include-non-speech    Also cut media for sound-effect/breathing/music cards
+ *   --force                 Re-extract files even when they are up to date
+ *   --out <file>            Write updated cards here (defaults to the input path)
+ *
+ * Files are skipped when they exist, are newer than the video and were cut
+ * with the same timing and padding (tracked in "<media-dir>/.media.json").
+ */
+
+import { spawn } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, relative, resolve } from 'node:path';
+import { readCardsFile, writeCardsFile } from './lib/cards.js';
+import { findEpisodeVideo, inferShowAndEpisode } from './lib/episodes.js';
+
+interface CliOptions {
+  inputPath: string;
+  outputPath: string;
+  videoPath: string | null;
+  mediaDir: string | null;
+  padStartMs: number;
+  padEndMs: number;
+  ffmpegPath: string;
+  writeAudio: boolean;
+  writeImage: boolean;
+  includeNonSpeech: boolean;
+  force: boolean;
+}
+
+interface MediaJob {
+  field: 'audioFile' | 'imageFile';
+  file: string;
+  /** Video + timing fingerprint; a changed fingerprint forces re-extraction. */
+  signature: string;
+  args: string[];
+}
+
+type MediaManifest = Record<string, string>;
+
+const MANIFEST_NAME = '.media.json';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const cardsDir = dirname(options.inputPath);
+  const episodeDir = dirname(cardsDir);
+  const videoPath = options.videoPath ?? findEpisodeVideo(episodeDir);
+  if (!videoPath || !existsSync(videoPath)) {
+    console.error(
+      `No video found${videoPath ? ` at ${videoPath}` : ` next to ${resolve(episodeDir, 'raw')}`}. Pass --video <file>.`,
+    );
+    process.exit(1);
+    return;
+  }
+
+  try {
+    await ensureFfmpeg(options.ffmpegPath);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const mediaDir = options.mediaDir ?? resolve(episodeDir, 'media');
+  if (!existsSync(mediaDir)) {
+    mkdirSync(mediaDir, { recursive: true });
+  }
+
+  const manifestPath = resolve(mediaDir, MANIFEST_NAME);
+  const manifest: MediaManifest = existsSync(manifestPath)
+    ? JSON.parse(readFileSync(manifestPath, 'utf8'))
+    : {};
+  const videoMtime = statSync(videoPath).mtimeMs;
+  const prefix = mediaPrefix(options.inputPath);
+
+  const cards = readCardsFile(options.inputPath);
+  let extracted = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const card of cards) {
+    if (card.startMs == null || card.endMs == null) continue;
+    if (card.nonSpeech && !options.includeNonSpeech) continue;
+
+    const stem = `${prefix}-${String(card.subtitleId ?? card.id).padStart(4, '0')}`;
+    const clipStart = Math.max(0, card.startMs - options.padStartMs);
+    const clipEnd = card.endMs + options.padEndMs;
+    const midpoint = Math.round((card.startMs + card.endMs) / 2);
+
+    const jobs: MediaJob[] = [];
+    if (options.writeAudio) {
+      const file = resolve(mediaDir, `${stem}.mp3`);
+      jobs.push({
+        field: 'audioFile',
+        file,
+        signature: `audio:${videoPath}:${clipStart}-${clipEnd}`,
+        args: audioArgs(videoPath, clipStart, clipEnd, file),
+      });
+    }
+    if (options.writeImage) {
+      const file = resolve(mediaDir, `${stem}.jpg`);
+      jobs.push({
+        field: 'imageFile',
+        file,
+        signature: `image:${videoPath}:${midpoint}`,
+        args: imageArgs(videoPath, midpoint, file),
+      });
+    }
+
+    for (const job of jobs) {
+      const name = basename(job.file);
+      if (!options.force && isUpToDate(job.file, manifest[name], job.signature, videoMtime)) {
+        card[job.field] = relative(cardsDir, job.file);
+        skipped += 1;
+        continue;
+      }
+
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await runFfmpeg(options.ffmpegPath, job.args);
+        manifest[name] = job.signature;
+        card[job.field] = relative(cardsDir, job.file);
+        extracted += 1;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`ffmpeg failed for subtitle ${card.subtitleId ?? card.id} (${name}): ${message}`);
+        failed += 1;
+      }
+    }
+  }
+
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf8');
+  writeCardsFile(options.outputPath, cards);
+
+  console.log(
+    `Media ready in ${mediaDir}: ${extracted} extracted, ${skipped} up to date${failed ? `, ${failed} failed` : ''}.`,
+  );
+  console.log(`Cards JSON updated at ${options.outputPath}`);
+}
+
+function audioArgs(video: string, startMs: number, endMs: number, output: string): string[] {
+  return [
+    '-y',
+    '-loglevel', 'error',
+    '-ss', formatSeconds(startMs),
+    '-i', video,
+    '-t', formatSeconds(endMs - startMs),
+    '-vn',
+    '-ac', '1',
+    '-c:a', 'libmp3lame',
+    '-q:a', '4',
+    output,
+  ];
+}
+
+function imageArgs(video: string, atMs: number, output: string): string[] {
+  return [
+    '-y',
+    '-loglevel', 'error',
+    '-ss', formatSeconds(atMs),
+    '-i', video,
+    '-frames:v', '1',
+    '-vf', 'scale=640:-2',
+    '-q:v', '4',
+    output,
+  ];
+}
+
+function isUpToDate(
+  file: string,
+  recordedSignature: string | undefined,
+  signature: string,
+  videoMtime: number,
+): boolean {
+  if (!existsSync(file) || recordedSignature !== signature) return false;
+  return statSync(file).mtimeMs >= videoMtime;
+}
+
+function runFfmpeg(ffmpegPath: string, args: string[]): Promise<void> {
+  return new Promise((resolvePromise, rejectPromise) => {
+    const child = spawn(ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', rejectPromise);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolvePromise();
+      } else {
+        rejectPromise(new Error(stderr.trim() || `exited with code ${code}`));
+      }
+    });
+  });
+}
+
+async function ensureFfmpeg(ffmpegPath: string): Promise<void> {
+  try {
+    await runFfmpeg(ffmpegPath, ['-version']);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`ffmpeg is required but could not be run (${ffmpegPath}): ${message}`);
+  }
+}
+
+function mediaPrefix(inputPath: string): string {
+  const { show, episode } = inferShowAndEpisode(inputPath);
+  const base = show && episode ? `${show}-${episode}` : basename(inputPath).replace(/\.cards\.json$|\.json$/i, '');
+  return base.replace(/[^a-z0-9_-]+/gi, '_');
+}
+
+function formatSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const opts: CliOptions = {
+    inputPath: resolve(cliArgs[0]),
+    outputPath: '',
+    videoPath: null,
+    mediaDir: null,
+    padStartMs: 250,
+    padEndMs: 250,
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    writeAudio: true,
+    writeImage: true,
+    includeNonSpeech: false,
+    force: false,
+  };
+
+  for (let i = 1; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--video':
+        opts.videoPath = resolve(ensureNext(cliArgs, ++i, '--video'));
+        break;
+      case '--media-dir':
+        opts.mediaDir = resolve(ensureNext(cliArgs, ++i, '--media-dir'));
+        break;
+      case '--pad-start':
+        opts.padStartMs = parseMs(ensureNext(cliArgs, ++i, '--pad-start'), '--pad-start');
+        break;
+      case '--pad-end':
+        opts.padEndMs = parseMs(ensureNext(cliArgs, ++i, '--pad-end'), '--pad-end');
+        break;
+      case '--ffmpeg':
+        opts.ffmpegPath = ensureNext(cliArgs, ++i, '--ffmpeg');
+        break;
+      case '--no-audio':
+        opts.writeAudio = false;
+        break;
+      case '--no-image':
+        opts.writeImage = false;
+        break;
+      case '--include-non-speech':
+        opts.includeNonSpeech = true;
+        break;
+      case '--force':
+        opts.force = true;
+        break;
+      case '--out':
+        opts.outputPath = resolve(ensureNext(cliArgs, ++i, '--out'));
+        break;
+      default:
+        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+    }
+  }
+
+  if (!opts.writeAudio && !opts.writeImage) {
+    throw new Error('Nothing to do: both --no-audio and --no-image were given.');
+  }
+
+  opts.outputPath = opts.outputPath || opts.inputPath;
+  return opts;
+}
+
+function parseMs(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${flag} expects a non-negative number of milliseconds, got "${value}".`);
+  }
+  return parsed;
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/extractMedia.ts <cards.json> [options]
+
+Options:
+  --video <path>          Source video (defaults to the video next to raw/)
+  --media-dir <dir>       Output folder for clips (defaults to "<episode>/media")
+  --pad-start <ms>        Audio padding before each cue (default 250)
+  --pad-end <ms>          Audio padding after each cue (default 250)
+  --ffmpeg <path>         ffmpeg binary (defaults to $FFMPEG_PATH or "ffmpeg")
+  --no-audio              Skip audio clips
+  --no-image              Skip screenshots
+  --include-non-speech    Also cut media for sound-effect/breathing/music cards
+  --force                 Re-extract even when files are up to date
+  --out <path>            Destination for the updated cards JSON (defaults to input)
+  -h, --help              Show this help text
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
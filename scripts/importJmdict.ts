@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+/**
+ * Convert a local JMdict download into the indexed SQLite store used by
+ * enrichCards.ts for token meanings.
+ *
+ * Usage:
+ *   npx tsx scripts/importJmdict.ts path/to/JMdict_e.xml [--out data/jmdict.sqlite]
+ *   npx tsx scripts/importJmdict.ts path/to/jmdict-eng.json [--out data/jmdict.sqlite]
+ *
+ * Accepts the EDRDG XML release (JMdict_e or the multilingual JMdict, from
+ * which only English glosses are kept) and the jmdict-simplified JSON export.
+ *
+ * Options:
+ *   --out <file>   Destination store (defaults to data/jmdict.sqlite, which
+ *                  enrichCards.ts picks up automatically)
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { buildJmdictStore, readJmdictJson, readJmdictXml } from './lib/jmdict.js';
+
+interface CliOptions {
+  inputPath: string;
+  outputPath: string;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const isJson = extname(options.inputPath).toLowerCase() === '.json';
+  const entries = isJson ? readJmdictJson(options.inputPath) : readJmdictXml(options.inputPath);
+
+  console.log(`Importing ${options.inputPath}...`);
+  const store = await buildJmdictStore(entries, basename(options.inputPath));
+
+  const outDir = dirname(options.outputPath);
+  if (!existsSync(outDir)) {
+    mkdirSync(outDir, { recursive: true });
+  }
+  writeFileSync(options.outputPath, store.data);
+
+  console.log(`Imported ${store.entryCount} entries (${store.formCount} kanji/kana forms).`);
+  console.log(`Dictionary store written to ${options.outputPath}`);
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const inputPath = resolve(cliArgs[0]);
+  if (!existsSync(inputPath)) {
+    throw new Error(`JMdict file not found at ${inputPath}.`);
+  }
+  let outputPath = resolve(__dirname, '../data/jmdict.sqlite');
+
+  for (let i = 1; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--out':
+        outputPath = resolve(ensureNext(cliArgs, ++i, '--out'));
+        break;
+      default:
+        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+    }
+  }
+
+  return { inputPath, outputPath };
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/importJmdict.ts <JMdict_e.xml|jmdict-eng.json> [options]
+
+Options:
+  --out <path>   Destination SQLite store (defaults to data/jmdict.sqlite)
+  -h, --help     Show this help text
+
+Download JMdict_e.gz from https://www.edrdg.org/jmdict/j_jmdict.html (gunzip it first)
+or jmdict-eng from https://github.com/scriptin/jmdict-simplified/releases.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,261 @@
+#!/usr/bin/env node
+/**
+ * Maintain the known-words store and score enriched cards against it.
+ *
+ * Usage:
+ *   npx tsx scripts/knownWords.ts add 食べる 行く ...
+ *   npx tsx scripts/knownWords.ts remove 食べる
+ *   npx tsx scripts/knownWords.ts import core2k.txt
+ *   npx tsx scripts/knownWords.ts import Mining.apkg --field Word
+ *   npx tsx scripts/knownWords.ts import Sentences.apkg --field Sentence --tokenize
+ *   npx tsx scripts/knownWords.ts score subtitles/<Show>/episodeXX/cards/episodeXX.cards.json [...]
+ *   npx tsx scripts/knownWords.ts stats
+ *
+ * Options:
+ *   --store <file>     Known-words JSON (defaults to data/known-words.json)
+ *   --field <name|n>   Field to import from Anki notes or tab-separated lines (default: first)
+ *   --tokenize         Treat imported values as sentences and add every content word's lemma
+ *
+ * `score` writes `unknownCount` and `unknownLemmas` onto every speech card
+ * and tags cards with exactly one unknown content word as "i+1".
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { readApkgNotes } from './lib/anki.js';
+import { readCardsFile, writeCardsFile } from './lib/cards.js';
+import {
+  addKnownWords,
+  applyScore,
+  cleanWord,
+  I_PLUS_ONE_TAG,
+  loadKnownWords,
+  type KnownWordsStore,
+  removeKnownWords,
+  saveKnownWords,
+  scoreCard,
+} from './lib/knownWords.js';
+import { buildPosLabel, isContentPos } from './lib/pos.js';
+import { buildTokenizer } from './lib/tokenizer.js';
+
+type Command = 'add' | 'remove' | 'import' | 'score' | 'stats';
+
+interface CliOptions {
+  command: Command;
+  values: string[];
+  storePath: string;
+  field: string | null;
+  tokenize: boolean;
+}
+
+const COMMANDS: Command[] = ['add', 'remove', 'import', 'score', 'stats'];
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const store = loadKnownWords(options.storePath);
+
+  switch (options.command) {
+    case 'add': {
+      const added = addKnownWords(store, options.values, 'manual');
+      saveKnownWords(store, options.storePath);
+      console.log(`Added ${added} word(s); ${Object.keys(store.words).length} known.`);
+      break;
+    }
+    case 'remove': {
+      const removed = removeKnownWords(store, options.values);
+      saveKnownWords(store, options.storePath);
+      console.log(`Removed ${removed} word(s); ${Object.keys(store.words).length} known.`);
+      break;
+    }
+    case 'import': {
+      for (const file of options.values) {
+        // eslint-disable-next-line no-await-in-loop
+        const values = await readImportValues(file, options.field);
+        // eslint-disable-next-line no-await-in-loop
+        const words = options.tokenize ? await contentLemmas(values) : values;
+        const source = `${isAnkiPackage(file) ? 'anki' : 'list'}:${basename(file)}`;
+        const added = addKnownWords(store, words, source);
+        console.log(`${basename(file)}: ${values.length} value(s) read, ${added} new word(s).`);
+      }
+      saveKnownWords(store, options.storePath);
+      console.log(`Known-words store now holds ${Object.keys(store.words).length} word(s).`);
+      break;
+    }
+    case 'score':
+      options.values.forEach((file) => scoreCardsFile(file, store));
+      break;
+    case 'stats':
+      printStats(store);
+      break;
+    default:
+      break;
+  }
+}
+
+function scoreCardsFile(file: string, store: KnownWordsStore): void {
+  const cards = readCardsFile(file);
+  const histogram = new Map<number, number>();
+
+  const scored = cards.map((card) => {
+    if (card.nonSpeech) return card;
+    const score = scoreCard(card, store);
+    histogram.set(score.unknownCount, (histogram.get(score.unknownCount) ?? 0) + 1);
+    return applyScore(card, score);
+  });
+  writeCardsFile(file, scored);
+
+  const summary = Array.from(histogram.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([unknown, count]) => `${unknown} unknown: ${count}`)
+    .join(', ');
+  const iPlusOne = scored.filter((card) => card.tags?.includes(I_PLUS_ONE_TAG)).length;
+  console.log(`${file}: ${iPlusOne} i+1 card(s) (${summary || 'no speech cards'}).`);
+}
+
+async function readImportValues(file: string, field: string | null): Promise<string[]> {
+  if (isAnkiPackage(file)) {
+    const notes = await readApkgNotes(file);
+    return notes
+      .map((note) => {
+        const names = Object.keys(note.fields);
+        const key = field == null ? names[0] : /^\d+$/.test(field) ? names[Number(field)] : field;
+        return cleanWord(note.fields[key] ?? '');
+      })
+      .filter(Boolean);
+  }
+
+  const index = field == null ? 0 : Number(field);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`--field must be a column number for text files, got "${field}".`);
+  }
+  return readFileSync(file, 'utf8')
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    // Anki's plain-text exports start with "#separator:tab" style headers.
+    .filter((line) => line.trim().length && !line.startsWith('#'))
+    .map((line) => cleanWord(line.split('\t')[index] ?? ''))
+    .filter(Boolean);
+}
+
+async function contentLemmas(sentences: string[]): Promise<string[]> {
+  const tokenizer = await buildTokenizer();
+  return sentences.flatMap((sentence) =>
+    tokenizer
+      .tokenize(sentence)
+      .filter((token) => isContentPos(buildPosLabel(token)))
+      .map((token) =>
+        token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form,
+      ),
+  );
+}
+
+function printStats(store: KnownWordsStore): void {
+  const bySource = new Map<string, number>();
+  Object.values(store.words).forEach((word) => {
+    bySource.set(word.source, (bySource.get(word.source) ?? 0) + 1);
+  });
+  console.log(`${Object.keys(store.words).length} known word(s).`);
+  Array.from(bySource.entries())
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([source, count]) => console.log(`- ${source}: ${count}`));
+}
+
+function isAnkiPackage(file: string): boolean {
+  const ext = extname(file).toLowerCase();
+  return ext === '.apkg' || ext === '.colpkg';
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const command = cliArgs[0] as Command;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${cliArgs[0]}". Expected one of: ${COMMANDS.join(', ')}.`);
+  }
+
+  const opts: CliOptions = {
+    command,
+    values: [],
+    storePath: resolve(__dirname, '../data/known-words.json'),
+    field: null,
+    tokenize: false,
+  };
+
+  for (let i = 1; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--store':
+        opts.storePath = resolve(ensureNext(cliArgs, ++i, '--store'));
+        break;
+      case '--field':
+        opts.field = ensureNext(cliArgs, ++i, '--field');
+        break;
+      case '--tokenize':
+        opts.tokenize = true;
+        break;
+      default:
+        if (token.startsWith('--')) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        }
+        opts.values.push(token);
+    }
+  }
+
+  if (command !== 'stats' && !opts.values.length) {
+    const noun = command === 'add' || command === 'remove' ? 'word' : 'file';
+    throw new Error(`"${command}" needs at least one ${noun}.`);
+  }
+  if (command === 'import' || command === 'score') {
+    opts.values = opts.values.map((value) => resolve(value));
+    const missing = opts.values.find((value) => !existsSync(value));
+    if (missing) throw new Error(`File not found: ${missing}`);
+  }
+
+  return opts;
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/knownWords.ts <command> [args] [options]
+
+Commands:
+  add <word...>            Mark words (dictionary form) as known
+  remove <word...>         Forget words
+  import <file...>         Seed from a word list (.txt/.tsv) or an Anki export (.apkg/.colpkg)
+  score <cards.json...>    Write unknownCount/unknownLemmas and tag i+1 cards
+  stats                    Show how many words are known, by source
+
+Options:
+  --store <path>           Known-words JSON (defaults to data/known-words.json)
+  --field <name|n>         Anki field name/index or TSV column to import (default: first)
+  --tokenize               Import every content word from sentence fields instead of whole values
+  -h, --help               Show this help text
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,214 @@
+/**
+ * Timing-based alignment between a Japanese and an English subtitle track.
+ *
+ * Every English cue is attached to the Japanese cue it overlaps most
+ * (many-to-one). Japanese cues left empty afterwards borrow the English cue
+ * that covers them (one-to-many), so a long English line split across two
+ * Japanese cues ends up on both. A constant offset between the tracks is
+ * either supplied or estimated by maximising the total overlap.
+ */
+
+import { extractAnnotations } from './annotations.js';
+import type { SubtitleEntry } from './subtitles.js';
+import type { TranslationEntry } from './translations.js';
+
+export interface AlignmentOptions {
+  /** Offset (ms) added to every English cue; estimated when null/undefined. */
+  offsetMs?: number | null;
+  /** Largest absolute offset (ms) considered during estimation. */
+  maxOffsetMs?: number;
+  /** Minimum share of a cue's duration that must overlap to count as a match. */
+  minOverlap?: number;
+}
+
+export interface AlignedCue {
+  japanese: SubtitleEntry;
+  english: SubtitleEntry[];
+  /** Time-based intersection-over-union of the Japanese cue and its English cues. */
+  confidence: number;
+  /** True when at least one English cue was also matched to another Japanese cue. */
+  shared: boolean;
+}
+
+export interface AlignmentResult {
+  offsetMs: number;
+  cues: AlignedCue[];
+  unmatchedEnglish: SubtitleEntry[];
+}
+
+interface TimedCue {
+  entry: SubtitleEntry;
+  startMs: number;
+  endMs: number;
+}
+
+const DEFAULT_MAX_OFFSET_MS = 30_000;
+const DEFAULT_MIN_OVERLAP = 0.3;
+const OFFSET_STEP_MS = 100;
+
+export function alignSubtitles(
+  japanese: SubtitleEntry[],
+  english: SubtitleEntry[],
+  options: AlignmentOptions = {},
+): AlignmentResult {
+  const minOverlap = options.minOverlap ?? DEFAULT_MIN_OVERLAP;
+  const jaCues = toTimedCues(japanese);
+  const enCues = toTimedCues(english);
+
+  const offsetMs =
+    options.offsetMs ?? estimateOffset(jaCues, enCues, options.maxOffsetMs ?? DEFAULT_MAX_OFFSET_MS);
+  const shifted = enCues.map((cue) => ({
+    ...cue,
+    startMs: cue.startMs + offsetMs,
+    endMs: cue.endMs + offsetMs,
+  }));
+
+  const assignments = new Map<number, number[]>();
+  const usage = new Map<number, number>();
+
+  shifted.forEach((enCue, enIdx) => {
+    let bestJa = -1;
+    let bestOverlap = 0;
+    jaCues.forEach((jaCue, jaIdx) => {
+      const overlap = overlapMs(jaCue, enCue);
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        bestJa = jaIdx;
+      }
+    });
+    if (bestJa === -1 || bestOverlap / duration(enCue) < minOverlap) return;
+    pushAssignment(assignments, bestJa, enIdx);
+    usage.set(enIdx, (usage.get(enIdx) ?? 0) + 1);
+  });
+
+  jaCues.forEach((jaCue, jaIdx) => {
+    if (assignments.has(jaIdx)) return;
+    let bestEn = -1;
+    let bestOverlap = 0;
+    shifted.forEach((enCue, enIdx) => {
+      const overlap = overlapMs(jaCue, enCue);
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        bestEn = enIdx;
+      }
+    });
+    if (bestEn === -1 || bestOverlap / duration(jaCue) < minOverlap) return;
+    pushAssignment(assignments, jaIdx, bestEn);
+    usage.set(bestEn, (usage.get(bestEn) ?? 0) + 1);
+  });
+
+  const cues: AlignedCue[] = [];
+  jaCues.forEach((jaCue, jaIdx) => {
+    const matched = assignments.get(jaIdx);
+    if (!matched) return;
+    const enMatches = matched.map((enIdx) => shifted[enIdx]);
+    cues.push({
+      japanese: jaCue.entry,
+      english: enMatches.map((cue) => cue.entry),
+      confidence: intersectionOverUnion(jaCue, enMatches),
+      shared: matched.some((enIdx) => (usage.get(enIdx) ?? 0) > 1),
+    });
+  });
+
+  const unmatchedEnglish = enCues.filter((_, enIdx) => !usage.has(enIdx)).map((cue) => cue.entry);
+
+  return { offsetMs, cues, unmatchedEnglish };
+}
+
+/** Translation-cache entries for the matches scoring at least `minConfidence`. */
+export function toTranslationEntries(result: AlignmentResult, minConfidence: number): TranslationEntry[] {
+  return result.cues
+    .filter((cue) => cue.confidence >= minConfidence)
+    .map((cue) => ({
+      id: cue.japanese.index,
+      subtitleId: cue.japanese.rawId,
+      sentence: extractAnnotations(cue.japanese.text).text,
+      translation: cue.english.map((entry) => entry.text).join(' '),
+      confidence: cue.confidence,
+    }));
+}
+
+/** Best constant offset for `moving` against `reference`, with the total overlap (ms) it reaches. */
+export function findBestOffset(
+  reference: SubtitleEntry[],
+  moving: SubtitleEntry[],
+  maxOffsetMs = DEFAULT_MAX_OFFSET_MS,
+): { offsetMs: number; overlapMs: number } {
+  const referenceCues = toTimedCues(reference);
+  const movingCues = toTimedCues(moving);
+  const offsetMs = estimateOffset(referenceCues, movingCues, maxOffsetMs);
+  return { offsetMs, overlapMs: totalOverlap(referenceCues, movingCues, offsetMs) };
+}
+
+function estimateOffset(jaCues: TimedCue[], enCues: TimedCue[], maxOffsetMs: number): number {
+  const candidates = new Set<number>([0]);
+  for (const jaCue of jaCues) {
+    for (const enCue of enCues) {
+      const delta = jaCue.startMs - enCue.startMs;
+      if (Math.abs(delta) <= maxOffsetMs) {
+        candidates.add(Math.round(delta / OFFSET_STEP_MS) * OFFSET_STEP_MS);
+      }
+    }
+  }
+
+  let bestOffset = 0;
+  let bestScore = -1;
+  for (const candidate of candidates) {
+    const score = totalOverlap(jaCues, enCues, candidate);
+    if (
+      score > bestScore ||
+      (score === bestScore && Math.abs(candidate) < Math.abs(bestOffset))
+    ) {
+      bestScore = score;
+      bestOffset = candidate;
+    }
+  }
+  return bestOffset;
+}
+
+function totalOverlap(jaCues: TimedCue[], enCues: TimedCue[], offsetMs: number): number {
+  let total = 0;
+  for (const jaCue of jaCues) {
+    for (const enCue of enCues) {
+      if (enCue.startMs + offsetMs >= jaCue.endMs) break;
+      total += Math.max(
+        0,
+        Math.min(jaCue.endMs, enCue.endMs + offsetMs) - Math.max(jaCue.startMs, enCue.startMs + offsetMs),
+      );
+    }
+  }
+  return total;
+}
+
+function intersectionOverUnion(jaCue: TimedCue, enCues: TimedCue[]): number {
+  const intersection = enCues.reduce((sum, enCue) => sum + overlapMs(jaCue, enCue), 0);
+  const enDuration = enCues.reduce((sum, enCue) => sum + duration(enCue), 0);
+  const union = duration(jaCue) + enDuration - intersection;
+  if (union <= 0) return 0;
+  return Math.round((intersection / union) * 100) / 100;
+}
+
+function toTimedCues(entries: SubtitleEntry[]): TimedCue[] {
+  return entries
+    .filter(
+      (entry): entry is SubtitleEntry & { startMs: number; endMs: number } =>
+        entry.startMs != null && entry.endMs != null && entry.endMs > entry.startMs,
+    )
+    .map((entry) => ({ entry, startMs: entry.startMs, endMs: entry.endMs }))
+    .sort((a, b) => a.startMs - b.startMs);
+}
+
+function pushAssignment(assignments: Map<number, number[]>, jaIdx: number, enIdx: number): void {
+  const list = assignments.get(jaIdx) ?? [];
+  list.push(enIdx);
+  list.sort((a, b) => a - b);
+  assignments.set(jaIdx, list);
+}
+
+function overlapMs(a: TimedCue, b: TimedCue): number {
+  return Math.max(0, Math.min(a.endMs, b.endMs) - Math.max(a.startMs, b.startMs));
+}
+
+function duration(cue: TimedCue): number {
+  return cue.endMs - cue.startMs;
+}
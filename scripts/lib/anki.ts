@@ -0,0 +1,343 @@
+/**
+ * Minimal Anki package (.apkg) writer, plus a reader for the notes in
+ * packages exported from Anki.
+ *
+ * An .apkg is a zip holding a legacy-schema SQLite collection
+ * ("collection.anki2"), a "media" JSON manifest mapping numbered entries to
+ * file names, and the media files themselves stored under those numbers.
+ * Notes carry GUIDs derived from show/episode/subtitle so importing a
+ * re-exported episode updates existing notes instead of duplicating them.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { unzipSync, zipSync } from 'fflate';
+import initSqlJs from 'sql.js';
+
+export interface AnkiNoteType {
+  name: string;
+  fields: string[];
+  /** Question/answer templates; field names go in {{double braces}}. */
+  front: string;
+  back: string;
+  css: string;
+}
+
+export interface AnkiNote {
+  guid: string;
+  fields: Record<string, string>;
+  tags: string[];
+}
+
+export interface AnkiMediaFile {
+  /** Name referenced from note fields ([sound:name], <img src="name">). */
+  name: string;
+  path: string;
+}
+
+export interface AnkiPackageOptions {
+  deckName: string;
+  noteType: AnkiNoteType;
+  notes: AnkiNote[];
+  media?: AnkiMediaFile[];
+}
+
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const FIELD_SEPARATOR = '\x1f';
+
+/** Stable note GUID for a subtitle line; identical inputs always map to the same note. */
+export function buildNoteGuid(show: string, episode: string, subtitleId: number | string): string {
+  return createHash('sha1')
+    .update(`${show}\u0000${episode}\u0000${subtitleId}`)
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+export async function buildApkg(options: AnkiPackageOptions): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  const nowMs = Date.now();
+  const nowSeconds = Math.floor(nowMs / 1000);
+
+  const modelId = stableId(`model:${options.noteType.name}`);
+  const deckId = stableId(`deck:${options.deckName}`);
+
+  try {
+    db.run(COLLECTION_SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      nowSeconds,
+      nowMs,
+      nowMs,
+      JSON.stringify(buildCollectionConf(modelId, deckId)),
+      JSON.stringify({ [modelId]: buildModel(options.noteType, modelId, deckId, nowSeconds) }),
+      JSON.stringify(buildDecks(options.deckName, deckId, nowSeconds)),
+      JSON.stringify({ 1: buildDeckConfig() }),
+      '{}',
+    ]);
+
+    const usedIds = new Set<number>();
+    options.notes.forEach((note, idx) => {
+      const values = options.noteType.fields.map((name) => note.fields[name] ?? '');
+      const sortField = stripHtml(values[0] ?? '');
+      const noteId = uniqueId(stableId(`note:${note.guid}`), usedIds);
+      const cardId = uniqueId(stableId(`card:${note.guid}`), usedIds);
+
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)', [
+        noteId,
+        note.guid,
+        modelId,
+        nowSeconds,
+        note.tags.length ? ` ${note.tags.map(sanitizeTag).join(' ')} ` : '',
+        values.join(FIELD_SEPARATOR),
+        sortField,
+        checksum(sortField),
+        '',
+      ]);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)', [
+        cardId,
+        noteId,
+        deckId,
+        nowSeconds,
+        idx + 1,
+        '',
+      ]);
+    });
+
+    const media = options.media ?? [];
+    const manifest: Record<string, string> = {};
+    const files: Record<string, Uint8Array> = { 'collection.anki2': db.export() };
+    media.forEach((file, idx) => {
+      manifest[String(idx)] = file.name;
+      files[String(idx)] = readFileSync(file.path);
+    });
+    files.media = new TextEncoder().encode(JSON.stringify(manifest));
+
+    return zipSync(files, { level: 6 });
+  } finally {
+    db.close();
+  }
+}
+
+export function mediaFromPath(path: string): AnkiMediaFile {
+  return { name: basename(path), path };
+}
+
+/**
+ * Notes from an exported .apkg/.colpkg, with fields keyed by name. Only the
+ * legacy collection formats are readable; packages exported without
+ * "Support older Anki versions" (collection.anki21b) are rejected.
+ */
+export async function readApkgNotes(path: string): Promise<AnkiNote[]> {
+  const files = unzipSync(readFileSync(path));
+  const collection = files['collection.anki21'] ?? files['collection.anki2'];
+  if (!collection) {
+    throw new Error(
+      files['collection.anki21b']
+        ? `${path} uses the newer Anki package format. Re-export it with "Support older Anki versions" checked.`
+        : `${path} does not contain an Anki collection.`,
+    );
+  }
+
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    const [colRow] = db.exec('SELECT models FROM col');
+    const models = JSON.parse(String(colRow?.values[0]?.[0] ?? '{}')) as Record<
+      string,
+      { flds: Array<{ name: string; ord: number }> }
+    >;
+    const [notesResult] = db.exec('SELECT guid, mid, flds, tags FROM notes');
+    return (notesResult?.values ?? []).map(([guid, mid, flds, tags]) => {
+      const fieldNames = (models[String(mid)]?.flds ?? [])
+        .slice()
+        .sort((a, b) => a.ord - b.ord)
+        .map((field) => field.name);
+      const values = String(flds).split(FIELD_SEPARATOR);
+      return {
+        guid: String(guid),
+        fields: Object.fromEntries(values.map((value, idx) => [fieldNames[idx] ?? String(idx), value])),
+        tags: String(tags).trim().split(/\s+/).filter(Boolean),
+      };
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function buildModel(
+  noteType: AnkiNoteType,
+  modelId: number,
+  deckId: number,
+  nowSeconds: number,
+): Record<string, unknown> {
+  return {
+    id: modelId,
+    name: noteType.name,
+    type: 0,
+    mod: nowSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: 'Card 1',
+        ord: 0,
+        qfmt: noteType.front,
+        afmt: noteType.back,
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      },
+    ],
+    flds: noteType.fields.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    css: noteType.css,
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function buildDecks(deckName: string, deckId: number, nowSeconds: number): Record<string, unknown> {
+  const deck = (id: number, name: string): Record<string, unknown> => ({
+    id,
+    name,
+    mod: nowSeconds,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+  });
+  return { 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) };
+}
+
+function buildDeckConfig(): Record<string, unknown> {
+  return {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: {
+      bury: false,
+      delays: [1, 10],
+      initialFactor: 2500,
+      ints: [1, 4, 0],
+      order: 1,
+      perDay: 20,
+    },
+    rev: {
+      bury: false,
+      ease4: 1.3,
+      ivlFct: 1,
+      maxIvl: 36500,
+      perDay: 200,
+      hardFactor: 1.2,
+    },
+    lapse: {
+      delays: [10],
+      leechAction: 1,
+      leechFails: 8,
+      minInt: 1,
+      mult: 0,
+    },
+  };
+}
+
+function buildCollectionConf(modelId: number, deckId: number): Record<string, unknown> {
+  return {
+    activeDecks: [deckId],
+    curDeck: deckId,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: modelId,
+    nextPos: 1,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    addToCur: true,
+  };
+}
+
+/** Deterministic positive id in the millisecond-timestamp range Anki expects. */
+function stableId(seed: string): number {
+  const hash = createHash('sha1').update(seed).digest();
+  return 1_000_000_000_000 + (hash.readUInt32BE(0) % 1_000_000) * 1_000_000 + (hash.readUInt32BE(4) % 1_000_000);
+}
+
+function uniqueId(candidate: number, used: Set<number>): number {
+  let id = candidate;
+  while (used.has(id)) id += 1;
+  used.add(id);
+  return id;
+}
+
+function checksum(value: string): number {
+  return Number.parseInt(createHash('sha1').update(value).digest('hex').slice(0, 8), 16);
+}
+
+function stripHtml(value: string): string {
+  return value.replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim();
+}
+
+function sanitizeTag(tag: string): string {
+  return tag.replace(/\s+/g, '_');
+}
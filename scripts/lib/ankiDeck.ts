@@ -0,0 +1,193 @@
+/**
+ * Sentence-card Anki deck: the "Japanese Subs Sentence" note type and the
+ * conversion from enriched cards to notes, shared by exportAnki.ts and the
+ * series build.
+ */
+
+import { existsSync } from 'node:fs';
+import { isAbsolute, resolve } from 'node:path';
+import {
+  buildApkg,
+  buildNoteGuid,
+  mediaFromPath,
+  type AnkiMediaFile,
+  type AnkiNote,
+  type AnkiNoteType,
+} from './anki.js';
+import type { CardRecord, TokenBreakdown } from './cards.js';
+import { escapeHtml } from './html.js';
+import { renderKanjiNotes } from './kanji.js';
+import { renderPitchField } from './pitch.js';
+
+export interface DeckFilters {
+  includeNonSpeech: boolean;
+  /** Only cards carrying every one of these tags. */
+  tags: string[];
+  /** Only scored cards with at most this many unknown words. */
+  maxUnknown: number | null;
+}
+
+export interface SentenceDeckOptions extends DeckFilters {
+  deckName: string;
+  show: string;
+  episode: string;
+  /** Folder the card media paths are relative to. */
+  cardsDir: string;
+}
+
+export interface SentenceDeck {
+  apkg: Uint8Array;
+  notes: number;
+  media: number;
+  /** Cards dropped as non-speech, and speech cards dropped by --tag/--max-unknown. */
+  skippedNonSpeech: number;
+  skippedByFilter: number;
+}
+
+/**
+ * Bumped whenever the note fields change. The version is part of the note
+ * type's name and so of its id: Anki refuses to import notes into an existing
+ * note type whose fields differ, so a changed layout has to be a new one.
+ * 2 added "Pitch accent", 3 "Kanji notes".
+ */
+const NOTE_TYPE_VERSION = 3;
+
+export const SENTENCE_NOTE_TYPE: AnkiNoteType = {
+  name: `Japanese Subs Sentence v${NOTE_TYPE_VERSION}`,
+  fields: [
+    'Sentence',
+    'Furigana',
+    'Romaji',
+    'Translation',
+    'Word breakdown',
+    'Pitch accent',
+    'Kanji notes',
+    'Speaker',
+    'Episode',
+    'Timestamp',
+    'Audio',
+    'Image',
+  ],
+  front: `<div class="sentence">{{Sentence}}</div>
+{{Audio}}`,
+  back: `<div class="sentence">{{#Furigana}}{{furigana:Furigana}}{{/Furigana}}{{^Furigana}}{{Sentence}}{{/Furigana}}</div>
+{{Audio}}
+<hr id="answer">
+<div class="romaji">{{Romaji}}</div>
+<div class="translation">{{Translation}}</div>
+{{#Word breakdown}}<div class="breakdown">{{Word breakdown}}</div>{{/Word breakdown}}
+{{#Pitch accent}}<div class="pitch">{{Pitch accent}}</div>{{/Pitch accent}}
+{{#Kanji notes}}<div class="kanji">{{Kanji notes}}</div>{{/Kanji notes}}
+{{#Image}}<div class="image">{{Image}}</div>{{/Image}}
+<div class="meta">{{#Speaker}}{{Speaker}} · {{/Speaker}}{{Episode}} · {{Timestamp}}</div>`,
+  css: `.card { font-family: "Hiragino Sans", "Noto Sans JP", sans-serif; font-size: 22px; text-align: center; }
+.sentence { font-size: 32px; margin: 12px 0; }
+.romaji { color: #666; font-style: italic; }
+.translation { margin-top: 8px; }
+.breakdown { font-size: 16px; text-align: left; margin: 16px auto; max-width: 640px; }
+.breakdown ul { padding-left: 20px; }
+.breakdown .pos { color: #888; font-size: 13px; }
+.pitch { margin: 12px auto; max-width: 640px; }
+.pitch-word { display: inline-block; margin: 4px 10px; font-size: 14px; vertical-align: top; }
+.pitch-lemma { display: block; font-size: 16px; }
+.pitch-graph { display: block; margin: 2px auto; }
+.pitch-type { color: #888; font-size: 12px; }
+.kanji { font-size: 15px; text-align: left; margin: 12px auto; max-width: 640px; }
+.kanji ul { list-style: none; padding-left: 0; }
+.kanji-char { font-size: 24px; margin-right: 6px; }
+.image img { max-width: 100%; }
+.meta { color: #999; font-size: 13px; margin-top: 16px; }`,
+};
+
+export async function buildSentenceDeck(
+  cards: CardRecord[],
+  options: SentenceDeckOptions,
+): Promise<SentenceDeck> {
+  const speech = cards.filter((card) => options.includeNonSpeech || !card.nonSpeech);
+  const exportable = speech.filter((card) => matchesFilters(card, options));
+
+  const media = new Map<string, AnkiMediaFile>();
+  const notes: AnkiNote[] = exportable.map((card) => {
+    const audio = resolveMedia(card.audioFile, options.cardsDir, media);
+    const image = resolveMedia(card.imageFile, options.cardsDir, media);
+    return {
+      guid: buildNoteGuid(options.show, options.episode, card.subtitleId ?? card.id),
+      tags: [options.show, options.episode, ...(card.tags ?? [])],
+      fields: {
+        Sentence: escapeHtml(card.sentence ?? ''),
+        Furigana: escapeHtml(card.furigana ?? ''),
+        Romaji: escapeHtml(card.romaji ?? ''),
+        Translation: escapeHtml(card.translation ?? ''),
+        'Word breakdown': renderBreakdown(card.tokens ?? []),
+        'Pitch accent': renderPitchField(card.tokens ?? []),
+        'Kanji notes': renderKanjiNotes(card.kanji ?? []),
+        Speaker: escapeHtml(card.speaker ?? ''),
+        Episode: escapeHtml(`${options.show} ${options.episode}`),
+        Timestamp: formatTimestamp(card),
+        Audio: audio ? `[sound:${audio}]` : '',
+        Image: image ? `<img src="${escapeHtml(image)}">` : '',
+      },
+    };
+  });
+
+  const apkg = await buildApkg({
+    deckName: options.deckName,
+    noteType: SENTENCE_NOTE_TYPE,
+    notes,
+    media: Array.from(media.values()),
+  });
+
+  return {
+    apkg,
+    notes: notes.length,
+    media: media.size,
+    skippedNonSpeech: cards.length - speech.length,
+    skippedByFilter: speech.length - exportable.length,
+  };
+}
+
+function matchesFilters(card: CardRecord, options: DeckFilters): boolean {
+  if (options.tags.length && !options.tags.every((tag) => card.tags?.includes(tag))) {
+    return false;
+  }
+  if (options.maxUnknown != null) {
+    // Unscored cards have no count; leave them out rather than guess.
+    return card.unknownCount != null && card.unknownCount <= options.maxUnknown;
+  }
+  return true;
+}
+
+function resolveMedia(
+  value: unknown,
+  baseDir: string,
+  media: Map<string, AnkiMediaFile>,
+): string | null {
+  if (typeof value !== 'string' || !value.trim().length) return null;
+  const fullPath = isAbsolute(value) ? value : resolve(baseDir, value);
+  if (!existsSync(fullPath)) {
+    console.warn(`Media file not found at ${fullPath}. Leaving the field empty.`);
+    return null;
+  }
+  const file = mediaFromPath(fullPath);
+  media.set(file.name, file);
+  return file.name;
+}
+
+function renderBreakdown(tokens: TokenBreakdown[]): string {
+  const items = tokens
+    .filter((token) => !token.pos.startsWith('symbol') && token.surface.trim().length)
+    .map((token) => {
+      const reading = token.reading && token.reading !== token.surface ? `【${token.reading}】` : '';
+      const lemma = token.lemma !== token.surface ? ` (${token.lemma})` : '';
+      const conjugation = token.conjugation ? ` [${token.conjugation}]` : '';
+      const meanings = token.meanings?.length ? ` — ${token.meanings.join('; ')}` : '';
+      return `<li><b>${escapeHtml(token.surface)}</b>${escapeHtml(reading + lemma + conjugation + meanings)} <span class="pos">${escapeHtml(token.pos)}</span></li>`;
+    });
+  return items.length ? `<ul>${items.join('')}</ul>` : '';
+}
+
+function formatTimestamp(card: CardRecord): string {
+  const trim = (value: string | null | undefined): string => (value ?? '').replace(/[,.]\d+$/, '');
+  if (!card.startTime) return '';
+  return card.endTime ? `${trim(card.startTime)}–${trim(card.endTime)}` : trim(card.startTime);
+}
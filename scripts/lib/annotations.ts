@@ -0,0 +1,87 @@
+/**
+ * Caption annotation handling for Japanese subtitle tracks.
+ *
+ * Japanese closed captions mark speakers and sounds with parentheses:
+ *   （デンジ）ハァ ハァ…   → speaker "デンジ", breathing-only line
+ *   （足音）               → sound-effect-only line
+ *   噛(か)め！             → inline reading, kept as "噛め！"
+ * Both full-width （） and half-width () forms are recognized.
+ */
+
+export type NonSpeechKind = 'sfx' | 'breathing' | 'music';
+
+export interface CueAnnotations {
+  /** Speaker name(s) from leading annotations, joined with "/" when several talk. */
+  speaker: string | null;
+  /** Text with speaker labels, inline readings and sound annotations removed. */
+  text: string;
+  soundEffects: string[];
+  nonSpeech: NonSpeechKind | null;
+}
+
+const KANJI_CLASS = '\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF\\u3005';
+const INLINE_READING = new RegExp(`([${KANJI_CLASS}])[（(][\\u3041-\\u309F]+[）)]`, 'g');
+const ANNOTATION = /[（(]([^（）()]+)[）)]/g;
+/** Annotations naming a sound rather than a person (…の音, うめき声, 笑い). */
+const SOUND_LABEL = /(音|声|笑い|ノック|チャイム|拍手|ため息)$/;
+const MUSIC_ONLY = /^[\s♪♫～〜~]*$/;
+/** Kana that only ever spell out breathing, grunts and laughter (ハァ, うう…, ん？, ヒヒッ). */
+const BREATHING_ONLY = /^[ハはァぁアあフふゥぅウうンんッっヒひィぃオおォぉーヘへ]+$/;
+const PUNCTUATION = /[\s…‥、。！？!?～〜~・⸺―ー]+/g;
+/** Answers that happen to be spelled with breathing kana but carry meaning. */
+const SPOKEN_ANSWERS = ['うん', 'ううん'];
+
+export function extractAnnotations(rawText: string): CueAnnotations {
+  const withoutReadings = rawText.replace(INLINE_READING, '$1');
+  const speakers: string[] = [];
+  const soundEffects: string[] = [];
+
+  const matches = Array.from(withoutReadings.matchAll(ANNOTATION));
+  matches.forEach((match, idx) => {
+    const label = match[1].trim();
+    const followStart = (match.index ?? 0) + match[0].length;
+    const followEnd = matches[idx + 1]?.index ?? withoutReadings.length;
+    const followedBySpeech = withoutReadings.slice(followStart, followEnd).trim().length > 0;
+
+    if (followedBySpeech && !SOUND_LABEL.test(label)) {
+      if (!speakers.includes(label)) speakers.push(label);
+    } else {
+      soundEffects.push(label);
+    }
+  });
+
+  const text = withoutReadings.replace(ANNOTATION, ' ').replace(/\s+/g, ' ').trim();
+  const speaker = speakers.length ? speakers.join('/') : null;
+
+  if (!text.length) {
+    return {
+      speaker,
+      text: stripSpeakerLabels(withoutReadings, speakers),
+      soundEffects,
+      nonSpeech: 'sfx',
+    };
+  }
+
+  return { speaker, text, soundEffects, nonSpeech: classifySpokenText(text) };
+}
+
+function classifySpokenText(text: string): NonSpeechKind | null {
+  if (MUSIC_ONLY.test(text) || /^[♪♫].*[♪♫]$/.test(text)) return 'music';
+  const letters = text.replace(PUNCTUATION, '');
+  const answer = text.replace(/[…‥、。！？!?～〜~]+$/, '');
+  if (letters.length && BREATHING_ONLY.test(letters) && !SPOKEN_ANSWERS.includes(answer)) {
+    return 'breathing';
+  }
+  return null;
+}
+
+function stripSpeakerLabels(text: string, speakers: string[]): string {
+  return speakers
+    .reduce((current, name) => current.replace(new RegExp(`[（(]${escapeRegExp(name)}[）)]`, 'g'), ''), text)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
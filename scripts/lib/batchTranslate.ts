@@ -0,0 +1,117 @@
+/**
+ * Drives a `Translator` over many cards: splits them into batches, keeps up
+ * to `concurrency` requests in flight, retries rate-limit and server errors
+ * with exponential backoff, and stops starting new batches once the provider
+ * reports that its quota is used up. `onBatch` runs after every finished
+ * batch so callers can checkpoint their translation cache.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  TranslationRequestError,
+  type TranslationRequest,
+  type Translator,
+} from './translators.js';
+
+export interface BatchTranslateOptions {
+  batchSize: number;
+  concurrency: number;
+  maxRetries: number;
+  /** Delay before the first retry; doubles on every further attempt. */
+  baseDelayMs?: number;
+  onBatch?(requests: TranslationRequest[], results: Array<string | null>): void;
+}
+
+export interface BatchTranslateSummary {
+  translated: number;
+  /** Lines whose batch still failed after all retries. */
+  failed: number;
+  /** Lines never sent because the quota ran out first. */
+  skipped: number;
+  /** Characters sent in successful requests. */
+  characters: number;
+  quotaExceeded: boolean;
+}
+
+const MAX_BACKOFF_MS = 60_000;
+
+export async function translateInBatches(
+  translator: Translator,
+  requests: TranslationRequest[],
+  options: BatchTranslateOptions,
+): Promise<BatchTranslateSummary> {
+  const providerLimit = requests.some((request) => request.context)
+    ? translator.maxContextBatchSize ?? translator.maxBatchSize
+    : translator.maxBatchSize;
+  const batchSize = Math.max(1, Math.min(options.batchSize, providerLimit));
+  const batches: TranslationRequest[][] = [];
+  for (let i = 0; i < requests.length; i += batchSize) {
+    batches.push(requests.slice(i, i + batchSize));
+  }
+
+  const summary: BatchTranslateSummary = {
+    translated: 0,
+    failed: 0,
+    skipped: 0,
+    characters: 0,
+    quotaExceeded: false,
+  };
+  let nextBatch = 0;
+
+  const worker = async (): Promise<void> => {
+    while (!summary.quotaExceeded && nextBatch < batches.length) {
+      const batch = batches[nextBatch++];
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const results = await withRetry(translator, () => translator.translate(batch), options);
+        summary.translated += results.filter(Boolean).length;
+        summary.characters += batch.reduce(
+          (sum, { card }) => sum + (card.sentence || '').trim().length,
+          0,
+        );
+        options.onBatch?.(batch, results);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const first = batch[0].card;
+        console.warn(
+          `${translator.name} translation failed for ${batch.length} line(s) starting at subtitle ${first.subtitleId ?? first.id}: ${message}`,
+        );
+        summary.failed += batch.length;
+        if (error instanceof TranslationRequestError && error.kind === 'quota') {
+          summary.quotaExceeded = true;
+        }
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, batches.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  summary.skipped = batches.slice(nextBatch).reduce((sum, batch) => sum + batch.length, 0);
+  return summary;
+}
+
+async function withRetry<T>(
+  translator: Translator,
+  request: () => Promise<T>,
+  options: BatchTranslateOptions,
+): Promise<T> {
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      return await request();
+    } catch (error) {
+      const retryable = error instanceof TranslationRequestError && error.kind === 'retry';
+      if (!retryable || attempt >= options.maxRetries) throw error;
+
+      const backoff = baseDelayMs * 2 ** attempt + Math.floor(Math.random() * 250);
+      const delayMs = Math.min(MAX_BACKOFF_MS, error.retryAfterMs ?? backoff);
+      console.warn(
+        `${translator.name}: ${error.message}; retrying in ${(delayMs / 1000).toFixed(1)}s (${attempt + 1}/${options.maxRetries}).`,
+      );
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(delayMs);
+    }
+  }
+}
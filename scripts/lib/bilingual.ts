@@ -0,0 +1,200 @@
+/**
+ * Subtitle files rendered from enriched cards, for watching an episode with
+ * the same text as the study cards: Japanese on top, English underneath.
+ *
+ * SRT and WebVTT carry plain text. The ASS renderer places each kanji run's
+ * reading above it as a separate small line; positions assume full-width
+ * glyphs are square, which holds for Japanese fonts, so readings stay over
+ * their kanji without a font metrics library.
+ */
+
+import type { CardRecord } from './cards.js';
+import { parseFurigana, type RubySegment } from './reading.js';
+import { msToTimecode } from './subtitles.js';
+
+export type BilingualFormat = 'srt' | 'vtt' | 'ass';
+
+export const BILINGUAL_FORMATS: BilingualFormat[] = ['srt', 'vtt', 'ass'];
+
+export interface BilingualOptions {
+  /** Whether a card's English line is shown; e.g. only for cards with unknown words. */
+  showEnglish: (card: CardRecord) => boolean;
+  /** Leave out sound-effect, breathing and music cues. */
+  dropNonSpeech: boolean;
+  /** ASS script title. */
+  title: string;
+}
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  japanese: string;
+  english: string | null;
+  ruby: RubySegment[] | null;
+}
+
+const PLAY_RES_X = 1920;
+const PLAY_RES_Y = 1080;
+const JAPANESE_SIZE = 64;
+const RUBY_SIZE = 32;
+const ENGLISH_SIZE = 48;
+const MARGIN_V = 40;
+/** Share of the frame width a Japanese line may use before its font is shrunk. */
+const MAX_LINE_WIDTH = 0.9;
+
+export function renderBilingual(
+  cards: CardRecord[],
+  format: BilingualFormat,
+  options: BilingualOptions,
+): string {
+  const cues = toCues(cards, options);
+  switch (format) {
+    case 'vtt':
+      return renderVtt(cues);
+    case 'ass':
+      return renderAss(cues, options.title);
+    default:
+      return renderSrt(cues);
+  }
+}
+
+function toCues(cards: CardRecord[], options: BilingualOptions): Cue[] {
+  return cards
+    .filter((card) => card.startMs != null && card.endMs != null && card.endMs > card.startMs)
+    .filter((card) => (card.sentence || '').trim().length)
+    .filter((card) => !(options.dropNonSpeech && card.nonSpeech))
+    .map((card) => {
+      const japanese = (card.sentence || '').trim();
+      const translation = (card.translation || '').trim();
+      // Non-speech cues only have a literal echo of the Japanese as "translation".
+      const english = translation && !card.nonSpeech && options.showEnglish(card) ? translation : null;
+      return {
+        startMs: card.startMs as number,
+        endMs: card.endMs as number,
+        japanese,
+        english,
+        ruby: card.furigana ? parseFurigana(card.furigana, japanese) : null,
+      };
+    })
+    .sort((a, b) => a.startMs - b.startMs);
+}
+
+function renderSrt(cues: Cue[]): string {
+  const blocks = cues.map((cue, idx) =>
+    [
+      String(idx + 1),
+      `${msToTimecode(cue.startMs)} --> ${msToTimecode(cue.endMs)}`,
+      cue.japanese,
+      ...(cue.english ? [cue.english] : []),
+    ].join('\n'),
+  );
+  return `${blocks.join('\n\n')}\n`;
+}
+
+function renderVtt(cues: Cue[]): string {
+  const blocks = cues.map((cue) =>
+    [
+      `${vttTimecode(cue.startMs)} --> ${vttTimecode(cue.endMs)}`,
+      escapeVtt(cue.japanese),
+      ...(cue.english ? [escapeVtt(cue.english)] : []),
+    ].join('\n'),
+  );
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+function renderAss(cues: Cue[], title: string): string {
+  const header = [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${PLAY_RES_X}`,
+    `PlayResY: ${PLAY_RES_Y}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Japanese,Noto Sans CJK JP,${JAPANESE_SIZE},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,40,40,${MARGIN_V},1`,
+    `Style: Ruby,Noto Sans CJK JP,${RUBY_SIZE},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,${MARGIN_V},1`,
+    `Style: English,Noto Sans,${ENGLISH_SIZE},&H00E0E0E0,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,${MARGIN_V},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = cues.flatMap((cue) => {
+    const start = assTimecode(cue.startMs);
+    const end = assTimecode(cue.endMs);
+    const lines: string[] = [];
+
+    // Stack from the bottom: English (if any), the Japanese line, then its readings.
+    let bottom = PLAY_RES_Y - MARGIN_V;
+    if (cue.english) {
+      lines.push(`Dialogue: 0,${start},${end},English,,0,0,0,,${escapeAss(cue.english)}`);
+      bottom -= estimateEnglishLines(cue.english) * ENGLISH_SIZE * 1.2 + 8;
+    }
+
+    const units = displayWidth(cue.japanese);
+    const size = Math.min(JAPANESE_SIZE, Math.floor((PLAY_RES_X * MAX_LINE_WIDTH) / Math.max(units, 1)));
+    const center = PLAY_RES_X / 2;
+    lines.push(
+      `Dialogue: 0,${start},${end},Japanese,,0,0,0,,{\\an2\\pos(${center},${Math.round(bottom)})\\fs${size}\\q2}${escapeAss(cue.japanese)}`,
+    );
+
+    if (cue.ruby) {
+      const rubySize = Math.round((size * RUBY_SIZE) / JAPANESE_SIZE);
+      const rubyBottom = Math.round(bottom - size * 1.1);
+      let left = center - (units * size) / 2;
+      cue.ruby.forEach((segment) => {
+        const width = displayWidth(segment.text) * size;
+        if (segment.reading) {
+          const x = Math.round(left + width / 2);
+          lines.push(
+            `Dialogue: 1,${start},${end},Ruby,,0,0,0,,{\\an2\\pos(${x},${rubyBottom})\\fs${rubySize}\\q2}${escapeAss(segment.reading)}`,
+          );
+        }
+        left += width;
+      });
+    }
+    return lines;
+  });
+
+  return `\uFEFF${[...header, ...events].join('\n')}\n`;
+}
+
+/** Width in full-width character units; ASCII and half-width katakana count as half. */
+function displayWidth(text: string): number {
+  let units = 0;
+  for (const char of text) {
+    units += /[ -~\uFF61-\uFF9F]/.test(char) ? 0.5 : 1;
+  }
+  return units;
+}
+
+function estimateEnglishLines(text: string): number {
+  const usable = PLAY_RES_X - 80;
+  // Proportional Latin text averages roughly half an em per character.
+  return Math.max(1, Math.ceil((text.length * ENGLISH_SIZE * 0.5) / usable));
+}
+
+function vttTimecode(ms: number): string {
+  return msToTimecode(ms).replace(',', '.');
+}
+
+function assTimecode(ms: number): string {
+  const centis = Math.round(Math.max(0, ms) / 10);
+  const hours = Math.floor(centis / 360_000);
+  const minutes = Math.floor((centis % 360_000) / 6000);
+  const seconds = Math.floor((centis % 6000) / 100);
+  const fraction = centis % 100;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(fraction).padStart(2, '0')}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** ASS has no escape for override braces; swap them for full-width ones. */
+function escapeAss(text: string): string {
+  return text.replace(/\{/g, '\uFF5B').replace(/\}/g, '\uFF5D').replace(/\r?\n/g, '\\N');
+}
@@ -0,0 +1,218 @@
+/**
+ * Card shapes shared by the parse, enrichment and export scripts, plus the
+ * subtitle-to-card conversion and TSV rendering they have in common.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { extractAnnotations } from './annotations.js';
+import { renderKanjiNotes, type KanjiInfo } from './kanji.js';
+import { renderPitchField, type PitchAccent } from './pitch.js';
+import { loadDataFile, serializeDataFile } from './schema.js';
+import type { SubtitleEntry } from './subtitles.js';
+import type { TranslationOrigin, TranslationRevision } from './translations.js';
+
+export interface TokenBreakdown {
+  surface: string;
+  lemma: string;
+  reading: string | null;
+  pos: string;
+  meanings: string[] | null;
+  /** Set when the meanings were edited in the review UI; re-enrichment keeps them. */
+  meaningsEdited?: boolean;
+  /** JMdict entry id (ent_seq) the meanings came from, when the store knows the word. */
+  entryId?: number | null;
+  /** Inflection of a grouped word, e.g. "past" or "te-iru progressive". */
+  conjugation?: string | null;
+  /** Raw kuromoji tokens when several were grouped into this word or expression. */
+  parts?: TokenBreakdown[];
+  /** Tokyo pitch accent of the dictionary form, from the accent dictionary (see pitch.ts). */
+  pitchAccent?: PitchAccent | null;
+  /** JLPT level, 5 (N5) to 1 (N1), and corpus frequency rank (see difficulty.ts). */
+  jlpt?: number | null;
+  frequencyRank?: number | null;
+}
+
+export interface CardRecord {
+  id: number;
+  subtitleId?: number | null;
+  sentence?: string | null;
+  speaker?: string | null;
+  nonSpeech?: string | null;
+  translation?: string | null;
+  /** Where the translation came from: 'hint', 'card', 'manual', 'literal' or a provider name. */
+  translationSource?: string | null;
+  /** Who produced the current translation and when (see translations.ts). */
+  translationProvenance?: TranslationOrigin;
+  /** Translations this card had before, oldest first. */
+  translationHistory?: TranslationRevision[];
+  romaji?: string;
+  furigana?: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  startMs?: number | null;
+  endMs?: number | null;
+  tokens?: TokenBreakdown[];
+  /** Media paths relative to the cards JSON (written by extractMedia.ts). */
+  audioFile?: string | null;
+  imageFile?: string | null;
+  /** Set by knownWords.ts score: unknown content-word lemmas and their count. */
+  unknownCount?: number | null;
+  unknownLemmas?: string[];
+  /** Free-form card tags (e.g. "i+1"), carried into Anki note tags. */
+  tags?: string[];
+  /** Source cues when enrichCards.ts --merge-split joined several into this card. */
+  mergedSubtitleIds?: Array<number | string>;
+  /** Set by a re-parse when the cue is new or its text changed; cleared by enrichment. */
+  needsEnrichment?: boolean;
+  /** Set by qaCards.ts: checks this card's translation failed (see qa.ts); cleared by enrichment. */
+  qaFlags?: string[];
+  /** Distinct kanji of the sentence with their notes (see kanji.ts). */
+  kanji?: KanjiInfo[];
+  /** 0 (trivial) to 100, from word levels and kanji (see difficulty.ts). */
+  difficulty?: number | null;
+  [key: string]: unknown;
+}
+
+/** One card per subtitle cue; caption annotations become `speaker`/`nonSpeech`. */
+export function buildCards(subtitles: SubtitleEntry[], dropNonSpeech: boolean): CardRecord[] {
+  const cards: CardRecord[] = subtitles.map((entry) => {
+    const annotations = extractAnnotations(entry.text);
+    return {
+      id: entry.index,
+      subtitleId: entry.rawId,
+      sentence: annotations.text,
+      speaker: annotations.speaker,
+      nonSpeech: annotations.nonSpeech,
+      translation: '',
+      romaji: '',
+      furigana: '',
+      startTime: entry.start,
+      endTime: entry.end,
+      startMs: entry.startMs,
+      endMs: entry.endMs,
+    };
+  });
+
+  return dropNonSpeech ? cards.filter((card) => !card.nonSpeech) : cards;
+}
+
+export interface ReparseResult {
+  cards: CardRecord[];
+  unchanged: number;
+  changed: number;
+  added: number;
+  /** Existing cards whose cue is gone from the subtitle file. */
+  removed: CardRecord[];
+}
+
+/** Fields that follow the subtitle file even on cards that keep their edits. */
+const TIMING_FIELDS = ['id', 'subtitleId', 'startTime', 'endTime', 'startMs', 'endMs'] as const;
+
+/**
+ * Merge freshly parsed cards into an existing (possibly enriched and hand
+ * edited) cards file. A parsed cue matches an existing card with the same
+ * subtitleId and sentence, then one with the same sentence elsewhere (cues
+ * renumbered by an insertion), then one with the same subtitleId (text
+ * edited). Matches with unchanged text keep every existing field except
+ * timing; edited cues take the parsed card, keep the card's tags and get
+ * `needsEnrichment`. New cues are flagged the same way.
+ */
+export function mergeReparsedCards(existing: CardRecord[], parsed: CardRecord[]): ReparseResult {
+  const matches = new Array<CardRecord | null>(parsed.length).fill(null);
+  const used = new Set<CardRecord>();
+  const sentenceOf = (card: CardRecord): string => (card.sentence ?? '').trim();
+
+  const claim = (predicate: (card: CardRecord, parsedCard: CardRecord) => boolean): void => {
+    parsed.forEach((parsedCard, idx) => {
+      if (matches[idx]) return;
+      const match = existing.find((card) => !used.has(card) && predicate(card, parsedCard));
+      if (!match) return;
+      matches[idx] = match;
+      used.add(match);
+    });
+  };
+
+  const sameId = (card: CardRecord, parsedCard: CardRecord): boolean =>
+    card.subtitleId === parsedCard.subtitleId;
+  const sameSentence = (card: CardRecord, parsedCard: CardRecord): boolean =>
+    sentenceOf(card).length > 0 && sentenceOf(card) === sentenceOf(parsedCard);
+
+  claim((card, parsedCard) => sameId(card, parsedCard) && sentenceOf(card) === sentenceOf(parsedCard));
+  claim(sameSentence);
+  claim(sameId);
+
+  let unchanged = 0;
+  let changed = 0;
+  let added = 0;
+  const cards = parsed.map((parsedCard, idx) => {
+    const match = matches[idx];
+    if (!match) {
+      added += 1;
+      return { ...parsedCard, needsEnrichment: true };
+    }
+    if (sentenceOf(match) === sentenceOf(parsedCard)) {
+      unchanged += 1;
+      const timing = Object.fromEntries(TIMING_FIELDS.map((field) => [field, parsedCard[field]]));
+      return { ...match, ...timing };
+    }
+    changed += 1;
+    return { ...parsedCard, ...(match.tags?.length ? { tags: match.tags } : {}), needsEnrichment: true };
+  });
+
+  return {
+    cards,
+    unchanged,
+    changed,
+    added,
+    removed: existing.filter((card) => !used.has(card)),
+  };
+}
+
+/** Console summary of a merge, listing every removed cue so nothing disappears unnoticed. */
+export function reportMerge(result: ReparseResult): void {
+  console.log(
+    `Merged into existing cards: ${result.unchanged} unchanged, ${result.changed} changed, ${result.added} new, ${result.removed.length} removed.`,
+  );
+  if (result.changed || result.added) {
+    console.log(`- ${result.changed + result.added} card(s) marked needsEnrichment.`);
+  }
+  result.removed.forEach((card) => {
+    const translation = card.translation ? ` (${card.translation})` : '';
+    console.warn(
+      `- Removed cue #${card.subtitleId ?? card.id} ${card.startTime ?? ''}: ${card.sentence ?? ''}${translation}`,
+    );
+  });
+}
+
+/** Cards from a cards.json file, migrated from older layouts and checked against the schema. */
+export function readCardsFile(path: string): CardRecord[] {
+  return loadDataFile<CardRecord>(path, 'cards');
+}
+
+export function writeCardsFile(path: string, cards: CardRecord[]): void {
+  writeFileSync(path, serializeDataFile('cards', cards), 'utf8');
+}
+
+export interface TsvOptions {
+  /** Add a column with the pitch-graph HTML of the card's words. */
+  pitch?: boolean;
+  /** Add a column with the card's kanji notes (HTML). */
+  kanji?: boolean;
+}
+
+/** Sentence/translation TSV for Anki's plain-text import; non-speech cues are left out. */
+export function cardsToTsv(cards: CardRecord[], options: TsvOptions = {}): string {
+  return cards
+    .filter((card) => !card.nonSpeech)
+    .map((card) => {
+      const columns = [clean(card.sentence), clean(card.translation)];
+      if (options.pitch) columns.push(renderPitchField(card.tokens ?? []));
+      if (options.kanji) columns.push(renderKanjiNotes(card.kanji ?? []));
+      return columns.join('\t');
+    })
+    .join('\n');
+}
+
+function clean(value: string | null | undefined): string {
+  return (value ?? '').replace(/\t/g, ' ').replace(/\r?\n/g, ' ').trim();
+}
@@ -0,0 +1,94 @@
+/**
+ * Sentence context across subtitle cues.
+ *
+ * Japanese subtitles often split one sentence over several cues:
+ *   「俺は…」 / 「ずっと待ってたんだ」
+ * `mergeSplitCards` joins such runs into one card, and `neighbourContext`
+ * collects the surrounding lines a translation provider can use as context
+ * without translating them.
+ */
+
+import type { CardRecord } from './cards.js';
+
+export interface CueContext {
+  before: string[];
+  after: string[];
+}
+
+/** Sentence-final punctuation, ignoring closing quotes/brackets after it. */
+const TERMINAL = /[。！？!?][」』）)"'”’]*$/;
+
+export function endsSentence(sentence: string): boolean {
+  return TERMINAL.test(sentence.trim());
+}
+
+/**
+ * Join consecutive speech cards when the earlier one has no sentence-final
+ * punctuation and the next starts less than `maxGapMs` after it ends.
+ * Cards with different speakers are never merged. The merged card keeps the
+ * first card's ids, lists every source cue in `mergedSubtitleIds` and is
+ * marked `needsEnrichment`.
+ */
+export function mergeSplitCards(cards: CardRecord[], maxGapMs: number): CardRecord[] {
+  const merged: CardRecord[] = [];
+
+  cards.forEach((card) => {
+    const previous = merged[merged.length - 1];
+    if (previous && canMerge(previous, card, maxGapMs)) {
+      merged[merged.length - 1] = joinCards(previous, card);
+    } else {
+      merged.push(card);
+    }
+  });
+
+  return merged;
+}
+
+/** Up to `size` speech lines before and after each card, keyed by card position. */
+export function neighbourContext(cards: CardRecord[], size: number): Array<CueContext | null> {
+  if (size <= 0) return cards.map(() => null);
+
+  const speech = cards
+    .map((card, idx) => ({ idx, sentence: (card.sentence || '').trim() }))
+    .filter(({ idx, sentence }) => sentence.length && !cards[idx].nonSpeech);
+  const contexts: Array<CueContext | null> = cards.map(() => null);
+
+  speech.forEach(({ idx }, position) => {
+    contexts[idx] = {
+      before: speech.slice(Math.max(0, position - size), position).map((line) => line.sentence),
+      after: speech.slice(position + 1, position + 1 + size).map((line) => line.sentence),
+    };
+  });
+
+  return contexts;
+}
+
+function canMerge(previous: CardRecord, next: CardRecord, maxGapMs: number): boolean {
+  if (previous.nonSpeech || next.nonSpeech) return false;
+  const previousSentence = (previous.sentence || '').trim();
+  if (!previousSentence.length || !(next.sentence || '').trim().length) return false;
+  if (endsSentence(previousSentence)) return false;
+  if (previous.endMs == null || next.startMs == null) return false;
+  if (next.startMs - previous.endMs >= maxGapMs) return false;
+  return !previous.speaker || !next.speaker || previous.speaker === next.speaker;
+}
+
+function joinCards(first: CardRecord, next: CardRecord): CardRecord {
+  const sourceIds = first.mergedSubtitleIds ?? [first.subtitleId ?? first.id];
+  const translations = [first.translation, next.translation]
+    .map((value) => (value || '').trim())
+    .filter(Boolean);
+
+  return {
+    ...first,
+    // Same separator parseSubtitles uses for the lines inside one cue.
+    sentence: `${(first.sentence || '').trim()} ${(next.sentence || '').trim()}`,
+    speaker: first.speaker ?? next.speaker ?? null,
+    translation: translations.join(' '),
+    endTime: next.endTime ?? first.endTime,
+    endMs: next.endMs ?? first.endMs,
+    mergedSubtitleIds: [...sourceIds, ...(next.mergedSubtitleIds ?? [next.subtitleId ?? next.id])],
+    // The enrichment spread from `first` only covers its own fragment.
+    needsEnrichment: true,
+  };
+}
@@ -0,0 +1,290 @@
+/**
+ * Dictionary lookups for token glosses.
+ *
+ * Two backends share one interface:
+ *  - a JMdict SQLite store built by importJmdict.ts (`.sqlite`/`.db`)
+ *  - the small hand-written JSON list in data/japanese-mini-dict.json, a
+ *    versioned "dictionary" file (see schema.ts)
+ *
+ * Lookups try the token's dictionary form, then its reading (hiragana and
+ * katakana), then the surface form. Among JMdict candidates, entries with a
+ * sense whose part of speech fits the kuromoji tag win, then entries whose
+ * reading matches the token, then common words. `lookupExpression` only
+ * answers for set phrases (JMdict "exp" senses) so token grouping can merge
+ * multi-token expressions without swallowing ordinary compounds.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import initSqlJs from 'sql.js';
+import {
+  FORM_KIND_KANJI,
+  readStoreVersion,
+  STORE_VERSION,
+  type JmdictForm,
+  type JmdictSense,
+} from './jmdict.js';
+import { loadDataFile } from './schema.js';
+
+export interface DictionaryQuery {
+  lemma: string;
+  surface: string;
+  /** Hiragana reading of the surface form, when kuromoji knows it. */
+  reading: string | null;
+  /** kuromoji part of speech and first detail (名詞 / サ変接続, 動詞 / 自立, ...). */
+  pos: string;
+  posDetail: string | null;
+}
+
+export interface DictionaryMatch {
+  /** JMdict entry id (ent_seq); null for the JSON mini dictionary. */
+  entryId: number | null;
+  meanings: string[];
+}
+
+export interface Dictionary {
+  lookup(query: DictionaryQuery): DictionaryMatch | null;
+  /** Match a whole phrase (e.g. "かもしれない") that the dictionary lists as an expression. */
+  lookupExpression(form: string): DictionaryMatch | null;
+  /** Kana reading of a dictionary form, preferring the given entry when known. */
+  lookupReading(lemma: string, entryId: number | null): string | null;
+  close(): void;
+}
+
+interface MiniDictionaryEntry {
+  lemma: string;
+  reading?: string;
+  pos?: string;
+  meanings?: string[];
+}
+
+interface CandidateRow {
+  id: number;
+  kanji: JmdictForm[];
+  kana: JmdictForm[];
+  senses: JmdictSense[];
+  kind: number;
+  common: boolean;
+  position: number;
+}
+
+const MAX_MEANINGS = 6;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/** data/jmdict.sqlite once it has been imported, else the bundled mini dictionary. */
+export function defaultDictionaryPath(): string {
+  const jmdict = resolve(__dirname, '../../data/jmdict.sqlite');
+  return existsSync(jmdict) ? jmdict : resolve(__dirname, '../../data/japanese-mini-dict.json');
+}
+
+export async function openDictionary(path: string): Promise<Dictionary> {
+  if (!existsSync(path)) {
+    console.warn(`Dictionary file not found at ${path}. Meanings will be omitted.`);
+    return {
+      lookup: () => null,
+      lookupExpression: () => null,
+      lookupReading: () => null,
+      close: () => undefined,
+    };
+  }
+  const ext = extname(path).toLowerCase();
+  return ext === '.sqlite' || ext === '.db' ? openJmdictStore(path) : openMiniDictionary(path);
+}
+
+function openMiniDictionary(path: string): Dictionary {
+  const entries = loadDataFile<MiniDictionaryEntry>(path, 'dictionary');
+  const byLemma = new Map(entries.map((entry) => [entry.lemma, entry]));
+
+  return {
+    lookup(query) {
+      const entry = lookupKeys(query)
+        .map((key) => byLemma.get(key))
+        .find((candidate) => candidate?.meanings?.length);
+      return entry ? { entryId: null, meanings: entry.meanings ?? [] } : null;
+    },
+    lookupExpression(form) {
+      const entry = byLemma.get(form);
+      return entry?.pos === 'expression' && entry.meanings?.length
+        ? { entryId: null, meanings: entry.meanings }
+        : null;
+    },
+    lookupReading: (lemma) => byLemma.get(lemma)?.reading ?? null,
+    close: () => undefined,
+  };
+}
+
+async function openJmdictStore(path: string): Promise<Dictionary> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(readFileSync(path));
+  const version = readStoreVersion(db);
+  if (version > STORE_VERSION) {
+    db.close();
+    throw new Error(
+      `${path} was built with JMdict store version ${version}; this version of the scripts reads up to ${STORE_VERSION}. Re-run importJmdict.ts.`,
+    );
+  }
+  const statement = db.prepare(
+    `SELECT e.id, e.kanji, e.kana, e.senses, f.kind, f.common, f.position
+       FROM forms f JOIN entries e ON e.id = f.entry_id
+      WHERE f.form = ?`,
+  );
+  const cache = new Map<string, CandidateRow[]>();
+
+  const candidatesFor = (form: string): CandidateRow[] => {
+    const cached = cache.get(form);
+    if (cached) return cached;
+    const rows: CandidateRow[] = [];
+    statement.bind([form]);
+    while (statement.step()) {
+      const row = statement.getAsObject();
+      rows.push({
+        id: Number(row.id),
+        kanji: JSON.parse(String(row.kanji)),
+        kana: JSON.parse(String(row.kana)),
+        senses: JSON.parse(String(row.senses)),
+        kind: Number(row.kind),
+        common: Number(row.common) === 1,
+        position: Number(row.position),
+      });
+    }
+    statement.reset();
+    cache.set(form, rows);
+    return rows;
+  };
+
+  return {
+    lookup(query) {
+      for (const key of lookupKeys(query)) {
+        const candidates = candidatesFor(key);
+        if (!candidates.length) continue;
+        const best = candidates
+          .map((candidate) => ({ candidate, score: scoreCandidate(candidate, query) }))
+          .sort((a, b) => b.score - a.score || a.candidate.id - b.candidate.id)[0].candidate;
+        return { entryId: best.id, meanings: pickMeanings(best.senses, query) };
+      }
+      return null;
+    },
+    lookupExpression(form) {
+      const expressions = candidatesFor(form)
+        .map((candidate) => ({
+          candidate,
+          senses: candidate.senses.filter((sense) => sense.pos.includes('exp')),
+        }))
+        .filter(({ senses }) => senses.length)
+        .sort(
+          (a, b) =>
+            Number(b.candidate.common) - Number(a.candidate.common) ||
+            a.candidate.id - b.candidate.id,
+        );
+      if (!expressions.length) return null;
+      const { candidate, senses } = expressions[0];
+      const glosses = Array.from(new Set(senses.flatMap((sense) => sense.glosses)));
+      return { entryId: candidate.id, meanings: glosses.slice(0, MAX_MEANINGS) };
+    },
+    lookupReading(lemma, entryId) {
+      const candidates = candidatesFor(lemma);
+      const entry = candidates.find((candidate) => candidate.id === entryId) ?? candidates[0];
+      if (!entry) return null;
+      if (entry.kana.some((form) => form.text === lemma)) return lemma;
+      return (entry.kana.find((form) => form.common) ?? entry.kana[0])?.text ?? null;
+    },
+    close() {
+      statement.free();
+      db.close();
+    },
+  };
+}
+
+/** Lemma first, then the reading in both kana scripts, then the surface form. */
+function lookupKeys(query: DictionaryQuery): string[] {
+  const keys = [query.lemma];
+  if (query.reading) keys.push(query.reading, hiraganaToKatakana(query.reading));
+  keys.push(query.surface);
+  return Array.from(new Set(keys.filter((key) => key && key !== '*')));
+}
+
+function scoreCandidate(candidate: CandidateRow, query: DictionaryQuery): number {
+  let score = 0;
+  if (candidate.senses.some((sense) => senseMatchesPos(sense, query))) score += 100;
+  if (query.reading && readingMatches(candidate.kana, query)) score += 40;
+  if (candidate.common) score += 20;
+  // A kanji hit on an entry's main spelling beats a hit on a rare variant.
+  if (candidate.kind === FORM_KIND_KANJI && candidate.position === 0) score += 5;
+  return score - candidate.position;
+}
+
+/**
+ * kuromoji only reads the surface form, so inflected words are matched on
+ * their stem: 行っ (いっ) fits いく because the stems い/いっ line up.
+ */
+function readingMatches(kana: JmdictForm[], query: DictionaryQuery): boolean {
+  const reading = query.reading ?? '';
+  return kana.some(({ text }) => {
+    if (text === reading) return true;
+    if (query.pos !== '動詞' && query.pos !== '形容詞') return false;
+    const stem = text.slice(0, -1);
+    return stem.length > 0 && reading.startsWith(stem);
+  });
+}
+
+function pickMeanings(senses: JmdictSense[], query: DictionaryQuery): string[] {
+  const matching = senses.filter((sense) => senseMatchesPos(sense, query));
+  const chosen = matching.length ? matching : senses;
+  const glosses = chosen.flatMap((sense) => sense.glosses);
+  return Array.from(new Set(glosses)).slice(0, MAX_MEANINGS);
+}
+
+function senseMatchesPos(sense: JmdictSense, query: DictionaryQuery): boolean {
+  return sense.pos.some((tag) => posTagMatches(tag, query.pos, query.posDetail));
+}
+
+/** Map a kuromoji (IPADIC) part of speech onto JMdict POS codes. */
+function posTagMatches(tag: string, pos: string, detail: string | null): boolean {
+  switch (pos) {
+    case '名詞':
+      switch (detail) {
+        case '形容動詞語幹':
+          return tag === 'adj-na';
+        case 'サ変接続':
+          return tag === 'vs' || tag === 'n';
+        case '代名詞':
+          return tag === 'pn';
+        case '数':
+          return tag === 'num';
+        case '接尾':
+          return tag === 'suf' || tag === 'n-suf' || tag === 'ctr';
+        case '副詞可能':
+          return tag === 'n-adv' || tag === 'adv' || tag === 'n';
+        default:
+          return tag.startsWith('n') || tag === 'pn' || tag === 'adj-no';
+      }
+    case '動詞':
+      return /^v(?!s$)/.test(tag);
+    case '形容詞':
+      return tag.startsWith('adj-i');
+    case '副詞':
+      return tag === 'adv' || tag === 'adv-to';
+    case '助詞':
+      return tag === 'prt';
+    case '助動詞':
+      return tag.startsWith('aux') || tag === 'cop';
+    case '連体詞':
+      return tag === 'adj-pn' || tag === 'adj-f';
+    case '接続詞':
+      return tag === 'conj';
+    case '感動詞':
+    case 'フィラー':
+      return tag === 'int';
+    case '接頭詞':
+      return tag === 'pref';
+    default:
+      return false;
+  }
+}
+
+function hiraganaToKatakana(value: string): string {
+  return value.replace(/[ぁ-ゖ]/g, (char) => String.fromCharCode(char.charCodeAt(0) + 0x60));
+}
@@ -0,0 +1,153 @@
+/**
+ * Card difficulty: JLPT level and corpus frequency rank for every token
+ * (from a local word list), kanji notes for the sentence (kanji.ts), and a
+ * 0–100 score built from both.
+ *
+ * The word list (wordList.ts) has the JLPT level (N5–N1, or empty) and the
+ * frequency rank (1 = most common, or empty) after the reading:
+ *
+ *   借金<TAB>しゃっきん<TAB>N2<TAB>3500
+ *
+ * Each content word scores 10 (N5) to 90 (N1) by level and 0 (top 10) to
+ * 100 (rank 100,000) by frequency, the mean of the two when both are known;
+ * words in neither list count as UNRATED_WORD_SCORE. Kanji score the same way
+ * by level, else by their rank among the common kanji. A card's difficulty
+ * weighs its hardest word, its average word and its average kanji 2:2:1, so
+ * one rare word makes a card hard but a long line of easy words does not.
+ */
+
+import { existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { CardRecord, TokenBreakdown } from './cards.js';
+import { jlptLevel, kanjiBreakdown, type KanjiDictionary, type KanjiInfo } from './kanji.js';
+import { isContentPos } from './pos.js';
+import { parseWordListTsv, readWordListFile } from './wordList.js';
+
+export interface WordLevel {
+  jlpt: number | null;
+  frequencyRank: number | null;
+}
+
+export interface WordLevels {
+  size: number;
+  /** Level of a word, looked up like any word list entry (see wordList.ts). */
+  lookup(lemma: string, reading: string | null): WordLevel | null;
+}
+
+/** Orders enrichCards.ts --sort can write cards.json in. */
+export const CARD_ORDERS = ['cue', 'difficulty'] as const;
+export type CardOrder = (typeof CARD_ORDERS)[number];
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const JLPT_SCORES: Record<number, number> = { 5: 10, 4: 30, 3: 50, 2: 70, 1: 90 };
+const UNRATED_WORD_SCORE = 80;
+/** Rank of the least common kanji in kanji-data's frequency list. */
+const KANJI_RANKS = 2500;
+
+/** data/word-levels.tsv (your own full list) when present, else the bundled sample. */
+export function defaultWordLevelsPath(): string {
+  const full = resolve(__dirname, '../../data/word-levels.tsv');
+  return existsSync(full) ? full : resolve(__dirname, '../../data/word-levels-mini.tsv');
+}
+
+export function loadWordLevels(path: string): WordLevels {
+  return parseWordLevelsTsv(readWordListFile(path, 'Word level list', 'JLPT levels and frequency ranks'));
+}
+
+/** Word levels from tab-separated text; lines with neither a level nor a rank are skipped. */
+export function parseWordLevelsTsv(text: string): WordLevels {
+  const list = parseWordListTsv<WordLevel>(text, ([jlptColumn, rankColumn]) => {
+    const rank = Number(rankColumn);
+    const level = {
+      jlpt: jlptLevel(jlptColumn),
+      frequencyRank: rankColumn && Number.isInteger(rank) && rank > 0 ? rank : null,
+    };
+    return level.jlpt === null && level.frequencyRank === null ? null : level;
+  });
+
+  return {
+    size: list.size,
+    lookup(lemma, reading) {
+      const entry = list.lookup(lemma, reading);
+      return entry ? { jlpt: entry.jlpt, frequencyRank: entry.frequencyRank } : null;
+    },
+  };
+}
+
+/** Set `jlpt` and `frequencyRank` on every token the list knows, grouped parts included. */
+export function annotateLevels(tokens: TokenBreakdown[], levels: WordLevels): TokenBreakdown[] {
+  return tokens.map((token) => {
+    const parts = token.parts ? annotateLevels(token.parts, levels) : undefined;
+    const level = levels.lookup(token.lemma, token.reading);
+    return {
+      ...token,
+      ...(level ? { jlpt: level.jlpt, frequencyRank: level.frequencyRank } : {}),
+      ...(parts ? { parts } : {}),
+    };
+  });
+}
+
+export function wordScore(token: Pick<TokenBreakdown, 'jlpt' | 'frequencyRank'>): number {
+  const scores = [
+    token.jlpt ? JLPT_SCORES[token.jlpt] : null,
+    token.frequencyRank ? clamp(25 * Math.log10(token.frequencyRank) - 25) : null,
+  ].filter((score): score is number => score !== null);
+  return scores.length ? mean(scores) : UNRATED_WORD_SCORE;
+}
+
+export function kanjiScore(kanji: KanjiInfo): number {
+  if (kanji.jlpt) return JLPT_SCORES[kanji.jlpt];
+  if (kanji.frequencyRank) return clamp((100 * kanji.frequencyRank) / KANJI_RANKS);
+  return 100;
+}
+
+/** 0 (trivial) to 100; content words only, so particles and names do not count. */
+export function cardDifficulty(tokens: TokenBreakdown[], kanji: KanjiInfo[]): number {
+  const words = tokens.filter((token) => isContentPos(token.pos)).map(wordScore);
+  const wordPart = words.length ? 2 * Math.max(...words) + 2 * mean(words) : 0;
+  const kanjiPart = kanji.length ? mean(kanji.map(kanjiScore)) : 0;
+  return Math.round((wordPart + kanjiPart) / 5);
+}
+
+/**
+ * Level the card's tokens, list its kanji and score it. Either source may be
+ * null: without levels every word counts as unrated, without kanji data the
+ * score leaves kanji out. Non-speech cards are left as-is.
+ */
+export function rateCard(
+  card: CardRecord,
+  levels: WordLevels | null,
+  kanji: KanjiDictionary | null,
+): CardRecord {
+  if (card.nonSpeech || (!levels && !kanji)) return card;
+  const tokens = levels ? annotateLevels(card.tokens ?? [], levels) : (card.tokens ?? []);
+  const notes = kanji ? kanjiBreakdown(card.sentence ?? '', kanji) : [];
+  return {
+    ...card,
+    tokens,
+    ...(kanji ? { kanji: notes } : {}),
+    difficulty: cardDifficulty(tokens, notes),
+  };
+}
+
+/**
+ * Cards in cue order (by id) or easiest first; unscored cards go last and
+ * ties keep cue order.
+ */
+export function sortCards(cards: CardRecord[], order: CardOrder): CardRecord[] {
+  const byCue = [...cards].sort((a, b) => a.id - b.id);
+  if (order === 'cue') return byCue;
+  const score = (card: CardRecord): number => card.difficulty ?? Number.MAX_SAFE_INTEGER;
+  return byCue.sort((a, b) => score(a) - score(b));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function clamp(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
@@ -0,0 +1,339 @@
+/**
+ * Card enrichment shared by enrichCards.ts and the series build:
+ * word breakdowns, romaji/furigana and translations for a list of cards.
+ *
+ * The tokenizer, dictionary and translator are passed in so one instance
+ * can serve every episode of a batch run. A show glossary, when given,
+ * glosses names and terms in the breakdown and is enforced on provider
+ * translations (see glossary.ts). An accent dictionary adds the pitch
+ * accent of each content word (see pitch.ts), and word levels and kanji
+ * data add JLPT levels, kanji notes and a difficulty score (see difficulty.ts).
+ */
+
+import type { IpadicFeatures } from 'kuromoji';
+import { translateInBatches } from './batchTranslate.js';
+import type { CardRecord, TokenBreakdown } from './cards.js';
+import { mergeSplitCards, neighbourContext } from './context.js';
+import type { Dictionary } from './dictionary.js';
+import { rateCard, type WordLevels } from './difficulty.js';
+import { applyGlossaryToTokens, withGlossary, type Glossary } from './glossary.js';
+import { groupTokens, type WordUnit } from './grouping.js';
+import type { KanjiDictionary } from './kanji.js';
+import { annotatePitch, type AccentDictionary } from './pitch.js';
+import { buildPosLabel } from './pos.js';
+import { buildFurigana, buildRomaji, katakanaToHiragana } from './reading.js';
+import type { KuromojiTokenizer } from './tokenizer.js';
+import {
+  MANUAL_SOURCE,
+  pickTranslationEntry,
+  recordCardTranslation,
+  registerGeneratedTranslation,
+  sanitizeOrigin,
+  writeTranslationCache,
+  type TranslationOrigin,
+  type TranslationState,
+} from './translations.js';
+import type { TranslationRequest, Translator } from './translators.js';
+
+export interface EnrichOptions {
+  tokenizer: KuromojiTokenizer;
+  dictionary: Dictionary;
+  translations: TranslationState;
+  /** Fills missing translations when set; null keeps hints, card text and literals only. */
+  translator: Translator | null;
+  /** Show glossary (glossary.ts); null leaves tokens and provider output untouched. */
+  glossary: Glossary | null;
+  /** Pitch accent source (pitch.ts); null leaves `pitchAccent` off the tokens. */
+  accents: AccentDictionary | null;
+  /** JLPT/frequency list and kanji data (difficulty.ts, kanji.ts); with both null no difficulty is set. */
+  wordLevels: WordLevels | null;
+  kanji: KanjiDictionary | null;
+  autoTranslateReplace: boolean;
+  groupWords: boolean;
+  batchSize: number;
+  concurrency: number;
+  maxRetries: number;
+  contextSize: number;
+  mergeGapMs: number | null;
+  /** Leave cards alone unless a re-parse flagged them (or they were never enriched). */
+  onlyChanged: boolean;
+  /** Translation cache rewritten after every batch, if any. */
+  checkpointPath: string | null;
+}
+
+export async function enrichCards(loadedCards: CardRecord[], options: EnrichOptions): Promise<CardRecord[]> {
+  const { tokenizer, dictionary, translations, glossary, accents } = options;
+  const translator =
+    options.translator && glossary ? withGlossary(options.translator, glossary) : options.translator;
+  // A cards file sorted by difficulty goes back to cue order so neighbours are real neighbours.
+  const rawCards =
+    options.mergeGapMs != null ? mergeSplitCards(loadedCards, options.mergeGapMs) : loadedCards;
+  if (rawCards.length < loadedCards.length) {
+    console.log(`Merged ${loadedCards.length - rawCards.length} split cue(s) into neighbouring cards.`);
+  }
+
+  const selected = new Set(
+    rawCards.filter((card) => !options.onlyChanged || card.needsEnrichment || !card.tokens),
+  );
+  if (options.onlyChanged) {
+    console.log(
+      `Enriching ${selected.size} new or changed card(s); ${rawCards.length - selected.size} kept as-is.`,
+    );
+  }
+
+  // Cards kept as-is still pick up hints added since the last run (a new English track, cache edits).
+  const enrichedCards = rawCards.map((card) =>
+    selected.has(card)
+      ? rateCard(
+          enrichCard(card, tokenizer, dictionary, translations, glossary, accents, {
+            autoTranslateReplace: options.autoTranslateReplace,
+            translatorEnabled: Boolean(translator),
+            groupWords: options.groupWords,
+          }),
+          options.wordLevels,
+          options.kanji,
+        )
+      : refreshTranslation(card, translations),
+  );
+
+  if (translator) {
+    const contexts = neighbourContext(enrichedCards, options.contextSize);
+    const pending: TranslationRequest[] = enrichedCards
+      .map((card, idx) => ({ card, context: contexts[idx] }))
+      .filter(
+        ({ card }, idx) =>
+          selected.has(rawCards[idx]) && needsAutoTranslation(card, options.autoTranslateReplace),
+      );
+    await autoTranslate(translator, pending, translations, options);
+  }
+
+  return enrichedCards;
+}
+
+async function autoTranslate(
+  translator: Translator,
+  pending: TranslationRequest[],
+  translations: TranslationState,
+  options: EnrichOptions,
+): Promise<void> {
+  const reused = translations.initialEntries.length;
+  console.log(
+    `${translator.name}: ${pending.length} line(s) to translate${reused ? ` (${reused} cached entries reused)` : ''}${options.contextSize ? `, with ${options.contextSize} line(s) of context each side` : ''}.`,
+  );
+  if (!pending.length) return;
+
+  const pendingCharacters = pending.reduce(
+    (sum, { card }) => sum + (card.sentence || '').trim().length,
+    0,
+  );
+  await reportUsage(translator, pendingCharacters);
+
+  const { checkpointPath } = options;
+  if (!checkpointPath) {
+    console.warn('No --translations cache given; an interrupted run will start over.');
+  }
+
+  let done = 0;
+  const summary = await translateInBatches(translator, pending, {
+    batchSize: options.batchSize,
+    concurrency: options.concurrency,
+    maxRetries: options.maxRetries,
+    onBatch: (batch, results) => {
+      batch.forEach(({ card }, idx) => {
+        const generated = results[idx];
+        if (!generated) return;
+        const origin: TranslationOrigin = {
+          provider: translator.name,
+          ...translator.settings,
+          at: new Date().toISOString(),
+        };
+        recordCardTranslation(card, generated, translator.name, origin);
+        registerGeneratedTranslation(translations, card, generated, { source: translator.name, ...origin });
+      });
+      done += batch.length;
+      if (checkpointPath) writeTranslationCache(translations, checkpointPath);
+      console.log(`${translator.name}: ${done}/${pending.length} line(s) processed.`);
+    },
+  });
+
+  console.log(
+    `${translator.name}: ${summary.translated} translated, ${summary.characters} characters sent${summary.failed ? `, ${summary.failed} failed` : ''}.`,
+  );
+  if (summary.quotaExceeded) {
+    console.warn(
+      `${translator.name} quota exhausted; ${summary.skipped} line(s) were not sent and keep their fallback translation.`,
+    );
+  }
+  if (summary.failed || summary.skipped) {
+    console.warn('Rerun the same command to retry the remaining lines.');
+  }
+  await reportUsage(translator, 0);
+}
+
+async function reportUsage(translator: Translator, pendingCharacters: number): Promise<void> {
+  if (!translator.usage) return;
+  try {
+    const usage = await translator.usage();
+    if (!usage) return;
+    const remaining = Math.max(0, usage.limit - usage.count);
+    console.log(
+      `${translator.name} quota: ${usage.count.toLocaleString('en-US')} / ${usage.limit.toLocaleString('en-US')} characters used (${remaining.toLocaleString('en-US')} left).`,
+    );
+    if (pendingCharacters > remaining) {
+      console.warn(
+        `This run needs about ${pendingCharacters.toLocaleString('en-US')} characters; the quota will run out part-way.`,
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`Could not read ${translator.name} usage: ${message}`);
+  }
+}
+
+function enrichCard(
+  card: CardRecord,
+  tokenizer: KuromojiTokenizer,
+  dictionary: Dictionary,
+  translations: TranslationState,
+  glossary: Glossary | null,
+  accents: AccentDictionary | null,
+  options: { autoTranslateReplace: boolean; translatorEnabled: boolean; groupWords: boolean },
+): CardRecord {
+  const tokens = tokenizer.tokenize(card.sentence || '');
+  const words = (
+    options.groupWords
+      ? groupTokens(tokens, dictionary).map((unit) => buildWordUnit(unit, dictionary))
+      : tokens.map((token) => normalizeToken(token, dictionary))
+  ).filter((token) => token.surface.trim().length);
+  const glossed = glossary ? applyGlossaryToTokens(words, glossary) : words;
+  const annotated = accents ? annotatePitch(glossed, accents) : glossed;
+  const breakdown = card.tokens ? keepEditedMeanings(annotated, card.tokens) : annotated;
+
+  const { translatorEnabled } = options;
+  const cardTranslation = (card.translation || '').trim();
+  // Hand-typed translations stay put even when a provider run replaces everything else;
+  // an earlier literal fallback is rebuilt from the new breakdown instead.
+  const keepCard =
+    card.translationSource === MANUAL_SOURCE || !translatorEnabled || !options.autoTranslateReplace;
+
+  // 'hint' | 'card' | 'manual' | 'literal'; the provider's name is set later by autoTranslate.
+  let translationSource: string;
+  let translation: string;
+  let origin: TranslationOrigin;
+  const cached = cachedTranslation(card, translations);
+  if (cached) {
+    ({ translation, source: translationSource, origin } = cached);
+  } else if (cardTranslation.length && keepCard && card.translationSource !== 'literal') {
+    translation = cardTranslation;
+    translationSource = card.translationSource === MANUAL_SOURCE ? MANUAL_SOURCE : 'card';
+    origin = card.translationProvenance ?? {};
+  } else {
+    translation = buildLiteralTranslation(breakdown);
+    translationSource = 'literal';
+    origin = { at: new Date().toISOString() };
+  }
+
+  const enriched: CardRecord = {
+    ...card,
+    translationSource: card.translationSource ?? null,
+    romaji: buildRomaji(tokens),
+    furigana: buildFurigana(tokens),
+    tokens: breakdown,
+  };
+  recordCardTranslation(enriched, translation, translationSource, origin);
+  delete enriched.needsEnrichment;
+  delete enriched.qaFlags;
+  return enriched;
+}
+
+/**
+ * Meanings edited in the review UI, carried over to the same word at the
+ * same position of the new breakdown (parts included). Edits on words the
+ * new breakdown no longer has are dropped.
+ */
+function keepEditedMeanings(tokens: TokenBreakdown[], previous: TokenBreakdown[]): TokenBreakdown[] {
+  return tokens.map((token, idx) => {
+    const old = previous[idx];
+    if (!old || old.surface !== token.surface || old.lemma !== token.lemma) return token;
+    const parts = token.parts && old.parts ? keepEditedMeanings(token.parts, old.parts) : token.parts;
+    const kept = old.meaningsEdited ? { ...token, meanings: old.meanings, meaningsEdited: true } : token;
+    return parts === token.parts ? kept : { ...kept, parts };
+  });
+}
+
+/** A card left un-enriched, with the translation the hints now give it (unchanged when they give none). */
+function refreshTranslation(card: CardRecord, translations: TranslationState): CardRecord {
+  const cached = cachedTranslation(card, translations);
+  if (!cached) return card;
+  const refreshed = { ...card };
+  recordCardTranslation(refreshed, cached.translation, cached.source, cached.origin);
+  return refreshed;
+}
+
+function cachedTranslation(
+  card: CardRecord,
+  translations: TranslationState,
+): { translation: string; source: string; origin: TranslationOrigin } | null {
+  const cached = pickTranslationEntry(card, translations);
+  if (!cached) return null;
+  return {
+    translation: cached.translation,
+    source: cached.source === MANUAL_SOURCE ? MANUAL_SOURCE : 'hint',
+    origin: sanitizeOrigin({ ...cached }),
+  };
+}
+
+/** Lines the translation provider should (re)translate; cached hints and hand edits are never resent. */
+function needsAutoTranslation(card: CardRecord, autoTranslateReplace: boolean): boolean {
+  if (card.nonSpeech || !(card.sentence || '').trim().length) return false;
+  if (card.translationSource === 'hint' || card.translationSource === MANUAL_SOURCE) return false;
+  return !card.translation || autoTranslateReplace;
+}
+
+/** Breakdown entry for a grouped word; multi-token units keep the raw tokens in `parts`. */
+function buildWordUnit(unit: WordUnit, dictionary: Dictionary): TokenBreakdown {
+  const parts = unit.tokens.map((token) => normalizeToken(token, dictionary));
+  if (parts.length === 1 && !unit.expression) {
+    return { ...parts[0], conjugation: unit.conjugation };
+  }
+
+  const head = parts[0];
+  return {
+    surface: parts.map((part) => part.surface).join(''),
+    lemma: unit.lemma,
+    reading: parts.map((part) => part.reading ?? part.surface).join(''),
+    pos: unit.expression ? 'expression' : head.pos,
+    meanings: unit.expression ? unit.expression.meanings : head.meanings,
+    entryId: unit.expression ? unit.expression.entryId : head.entryId,
+    conjugation: unit.conjugation,
+    parts,
+  };
+}
+
+function normalizeToken(token: IpadicFeatures, dictionary: Dictionary): TokenBreakdown {
+  const lemma = token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form;
+  const reading = token.reading && token.reading !== '*' ? katakanaToHiragana(token.reading) : null;
+  const match = dictionary.lookup({
+    lemma,
+    surface: token.surface_form,
+    reading,
+    pos: token.pos,
+    posDetail: token.pos_detail_1 && token.pos_detail_1 !== '*' ? token.pos_detail_1 : null,
+  });
+
+  return {
+    surface: token.surface_form,
+    lemma,
+    reading,
+    pos: buildPosLabel(token),
+    meanings: match?.meanings.length ? match.meanings : null,
+    entryId: match?.entryId ?? null,
+  };
+}
+
+function buildLiteralTranslation(tokens: TokenBreakdown[]): string {
+  if (!tokens.length) return '';
+  return tokens
+    .map((token) => (token.meanings?.[0] ? token.meanings[0] : token.surface))
+    .join(' ');
+}
@@ -0,0 +1,71 @@
+/**
+ * Helpers for the subtitles/<Show>/episodeXX/{raw,cards} folder layout.
+ */
+
+import { existsSync, mkdirSync, readdirSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { SUBTITLE_EXTENSIONS } from './subtitles.js';
+
+export const VIDEO_EXTENSIONS = ['.mkv', '.mp4', '.webm', '.m4v', '.mov', '.avi'];
+
+/** Show slug and episode folder name for a file inside "<Show>/<episode>/cards/". */
+export function inferShowAndEpisode(cardsPath: string): { show: string | null; episode: string | null } {
+  const cardsDir = dirname(cardsPath);
+  if (basename(cardsDir).toLowerCase() !== 'cards') {
+    return { show: null, episode: null };
+  }
+  const episodeDir = dirname(cardsDir);
+  return { show: basename(dirname(episodeDir)), episode: basename(episodeDir) };
+}
+
+/** First video file sitting next to raw/ in an episode folder, if any. */
+export function findEpisodeVideo(episodeDir: string): string | null {
+  if (!existsSync(episodeDir)) return null;
+  const match = readdirSync(episodeDir)
+    .filter((name) => VIDEO_EXTENSIONS.includes(extname(name).toLowerCase()))
+    .sort()[0];
+  return match ? resolve(episodeDir, match) : null;
+}
+
+/**
+ * Output path for a file derived from a subtitle track: "<name>.ja.srt" under
+ * raw/ becomes "cards/<name><suffix>" (creating cards/), anything else stays
+ * next to the input.
+ */
+export function cardsOutputPath(input: string, suffix: string): string {
+  const dir = dirname(input);
+  const baseName = basename(input, extname(input));
+  const normalizedBase = baseName.replace(/\.(ja|jp)$/i, '');
+
+  let targetDir = dir;
+  if (basename(dir).toLowerCase() === 'raw') {
+    const parentDir = dirname(dir);
+    targetDir = resolve(parentDir, 'cards');
+    if (!existsSync(targetDir)) {
+      mkdirSync(targetDir, { recursive: true });
+    }
+  }
+
+  return resolve(targetDir, `${normalizedBase}${suffix}`);
+}
+
+/** Sibling "<name>.en.<ext>" of a Japanese track, preferring the same format. */
+export function findEnglishTrack(japanesePath: string): string {
+  const dir = dirname(japanesePath);
+  const extension = extname(japanesePath);
+  const baseName = basename(japanesePath, extension).replace(/\.(ja|jp)$/i, '');
+  const candidates = [extension, ...SUBTITLE_EXTENSIONS.filter((ext) => ext !== extension)].map(
+    (ext) => resolve(dir, `${baseName}.en${ext}`),
+  );
+  return candidates.find((candidate) => existsSync(candidate)) ?? candidates[0];
+}
+
+/** raw/"<name>.ja.<ext>" track a cards/ file such as "<name>.translations.json" was built from. */
+export function findJapaneseTrack(cardsFilePath: string): string | null {
+  const rawDir = resolve(dirname(dirname(cardsFilePath)), 'raw');
+  const baseName = basename(cardsFilePath).replace(/\.[^.]+\.json$/i, '');
+  const candidates = SUBTITLE_EXTENSIONS.flatMap((ext) =>
+    ['ja', 'jp'].map((lang) => resolve(rawDir, `${baseName}.${lang}${ext}`)),
+  );
+  return candidates.find((candidate) => existsSync(candidate)) ?? null;
+}
@@ -0,0 +1,323 @@
+/**
+ * Per-show glossary of character names and series terms
+ * (`subtitles/<Show>/glossary.json`, a versioned "glossary" file, see schema.ts).
+ *
+ * Enrichment uses it three ways:
+ *  - before a line goes to a translation provider, glossary terms are
+ *    replaced by their English rendering, so every provider (offline ones
+ *    included) sees "Pochita" instead of guessing;
+ *  - after the provider answers, known mistranslations (`variants`) and any
+ *    term left in Japanese are corrected;
+ *  - breakdown tokens that spell a term get its translation as their gloss,
+ *    joining kuromoji's pieces (デビル + ハンター) into one word.
+ *
+ * The glossary can also be uploaded to DeepL (syncGlossary.ts). The id of the
+ * uploaded copy is kept next to the file in `glossary.deepl.json`, together
+ * with a hash of the entries so a stale upload is never used.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { Translator as DeepLTranslator, GlossaryEntries, GlossaryNotFoundError } from 'deepl-node';
+import type { TokenBreakdown } from './cards.js';
+import { loadDataFile } from './schema.js';
+import type { TranslationRequest, Translator } from './translators.js';
+
+/** 'name' entries are proper nouns: tagged as such in tokens and capitalised as written. */
+export type GlossaryKind = 'name' | 'term';
+
+export interface GlossaryEntry {
+  /** Japanese spelling as it appears in the subtitles. */
+  term: string;
+  translation: string;
+  /** Hiragana reading, for terms kuromoji reads wrongly or not at all. */
+  reading?: string | null;
+  kind?: GlossaryKind;
+  /** English renderings providers come up with that should become `translation`. */
+  variants?: string[];
+}
+
+export interface DeepLGlossaryState {
+  glossaryId: string;
+  name: string;
+  /** Hash of the entries that were uploaded (see glossaryHash). */
+  entriesHash: string;
+  entryCount: number;
+  syncedAt: string;
+}
+
+export interface Glossary {
+  path: string | null;
+  entries: GlossaryEntry[];
+  byTerm: Map<string, GlossaryEntry>;
+  /** Every term, longest first, so ポチタ wins over ポチ. Null for an empty glossary. */
+  termPattern: RegExp | null;
+  longestTerm: number;
+  /** Last DeepL upload, from glossary.deepl.json. */
+  deepl: DeepLGlossaryState | null;
+}
+
+export const GLOSSARY_FILE = 'glossary.json';
+
+const DEEPL_STATE_FILE = 'glossary.deepl.json';
+const DEEPL_GLOSSARY_FLAG = '--deepl-glossary';
+const NAME_POS = 'noun-proper-noun';
+/** Characters that already separate a substituted term from its neighbours. */
+const SEPARATOR = /[\s\p{P}]/u;
+
+/** `<Show>/glossary.json` for a cards file in the subtitles/<Show>/<episode>/cards/ layout. */
+export function showGlossaryPath(cardsPath: string): string | null {
+  const cardsDir = dirname(resolve(cardsPath));
+  if (basename(cardsDir).toLowerCase() !== 'cards') return null;
+  return resolve(cardsDir, '..', '..', GLOSSARY_FILE);
+}
+
+export function loadGlossary(path: string): Glossary {
+  const entries = loadDataFile<GlossaryEntry>(path, 'glossary');
+  const statePath = deeplStatePath(path);
+  const deepl = existsSync(statePath)
+    ? (JSON.parse(readFileSync(statePath, 'utf8')) as DeepLGlossaryState)
+    : null;
+  return buildGlossary(entries, path, deepl);
+}
+
+/** Later entries replace earlier ones with the same term. */
+export function buildGlossary(
+  entries: GlossaryEntry[],
+  path: string | null = null,
+  deepl: DeepLGlossaryState | null = null,
+): Glossary {
+  const byTerm = new Map<string, GlossaryEntry>();
+  entries.forEach((entry) => {
+    const term = entry.term.trim();
+    const translation = entry.translation.trim();
+    if (!term || !translation) return;
+    byTerm.set(term, {
+      term,
+      translation,
+      reading: entry.reading?.trim() || null,
+      kind: entry.kind ?? 'term',
+      variants: (entry.variants ?? []).map((variant) => variant.trim()).filter(Boolean),
+    });
+  });
+
+  const terms = Array.from(byTerm.keys()).sort((a, b) => b.length - a.length);
+  return {
+    path,
+    entries: Array.from(byTerm.values()),
+    byTerm,
+    termPattern: terms.length ? new RegExp(terms.map(escapeRegExp).join('|'), 'g') : null,
+    longestTerm: terms.length ? terms[0].length : 0,
+    deepl,
+  };
+}
+
+export function deeplStatePath(glossaryPath: string): string {
+  return resolve(dirname(glossaryPath), DEEPL_STATE_FILE);
+}
+
+/** Stable hash of the term → translation pairs DeepL gets. */
+export function glossaryHash(glossary: Glossary): string {
+  const tsv = glossary.entries
+    .map((entry) => `${entry.term}\t${entry.translation}`)
+    .sort()
+    .join('\n');
+  return createHash('sha1').update(tsv).digest('hex');
+}
+
+/** Id of the DeepL copy, unless the file changed after it was uploaded. */
+export function syncedGlossaryId(glossary: Glossary): string | null {
+  if (!glossary.deepl || glossary.deepl.entriesHash !== glossaryHash(glossary)) return null;
+  return glossary.deepl.glossaryId;
+}
+
+/**
+ * Provider flags with `--deepl-glossary` set to the show's DeepL upload,
+ * unless the flag was given or the upload is out of date.
+ */
+export function withSyncedGlossaryFlag(flags: Map<string, string>, glossary: Glossary | null): Map<string, string> {
+  if (!glossary?.deepl || flags.has(DEEPL_GLOSSARY_FLAG)) return flags;
+  const glossaryId = syncedGlossaryId(glossary);
+  if (!glossaryId) {
+    console.warn(
+      `${glossary.path ?? 'The glossary'} changed since it was uploaded to DeepL; run syncGlossary.ts to use it there.`,
+    );
+    return flags;
+  }
+  return new Map([...flags, [DEEPL_GLOSSARY_FLAG, glossaryId]]);
+}
+
+/** Replace glossary terms in Japanese text with their translation ("ポチタ 行くぞ" → "Pochita 行くぞ"). */
+export function substituteTerms(text: string, glossary: Glossary): string {
+  if (!glossary.termPattern) return text;
+  return text.replace(glossary.termPattern, (term: string, offset: number) => {
+    const entry = glossary.byTerm.get(term) as GlossaryEntry;
+    const before = offset > 0 && !SEPARATOR.test(text[offset - 1]) ? ' ' : '';
+    const next = text[offset + term.length];
+    const after = next !== undefined && !SEPARATOR.test(next) ? ' ' : '';
+    return `${before}${entry.translation}${after}`;
+  });
+}
+
+/**
+ * Correct a provider's translation of `sentence`: for every term the
+ * Japanese contains, its variants (and, for names, any other capitalisation)
+ * and the untranslated Japanese become the glossary translation.
+ */
+export function enforceGlossary(sentence: string, translation: string, glossary: Glossary): string {
+  let result = translation;
+  glossary.entries
+    .filter((entry) => sentence.includes(entry.term))
+    .forEach((entry) => {
+      result = result.split(entry.term).join(entry.translation);
+      const wrong = [...(entry.variants ?? [])];
+      if (entry.kind === 'name') wrong.push(entry.translation);
+      wrong.forEach((variant) => {
+        result = result.replace(
+          new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(variant)}(?![\\p{L}\\p{N}])`, 'giu'),
+          entry.translation,
+        );
+      });
+    });
+  return result;
+}
+
+/**
+ * Translator that substitutes glossary terms before `translator` sees a line
+ * (and its context) and enforces the glossary on what comes back. Name and
+ * settings stay those of the wrapped translator.
+ */
+export function withGlossary(translator: Translator, glossary: Glossary): Translator {
+  if (!glossary.entries.length) return translator;
+  // A DeepL glossary matches the Japanese terms itself; substituting first would leave it nothing to match.
+  const substitute = !translator.settings?.glossaryId;
+  const prepare = ({ card, context }: TranslationRequest): TranslationRequest => ({
+    card: { ...card, sentence: substituteTerms(card.sentence || '', glossary) },
+    context: context && {
+      before: context.before.map((line) => substituteTerms(line, glossary)),
+      after: context.after.map((line) => substituteTerms(line, glossary)),
+    },
+  });
+
+  return {
+    ...translator,
+    async translate(requests) {
+      const results = await translator.translate(substitute ? requests.map(prepare) : requests);
+      return results.map((result, idx) =>
+        result ? enforceGlossary(requests[idx].card.sentence || '', result, glossary) : result,
+      );
+    },
+  };
+}
+
+/**
+ * Give tokens that spell a glossary term its translation as their only
+ * meaning. A term split over several tokens becomes one word whose `parts`
+ * keep the pieces; terms that start or end inside a token are left alone.
+ */
+export function applyGlossaryToTokens(tokens: TokenBreakdown[], glossary: Glossary): TokenBreakdown[] {
+  if (!glossary.entries.length) return tokens;
+  const result: TokenBreakdown[] = [];
+  let idx = 0;
+  while (idx < tokens.length) {
+    let match: { entry: GlossaryEntry; end: number } | null = null;
+    let surface = '';
+    for (let end = idx; end < tokens.length; end += 1) {
+      surface += tokens[end].surface;
+      if (surface.length > glossary.longestTerm) break;
+      const entry = glossary.byTerm.get(surface);
+      if (entry) match = { entry, end };
+    }
+    if (!match) {
+      result.push(tokens[idx]);
+      idx += 1;
+      continue;
+    }
+    result.push(glossToken(tokens.slice(idx, match.end + 1), match.entry));
+    idx = match.end + 1;
+  }
+  return result;
+}
+
+function glossToken(span: TokenBreakdown[], entry: GlossaryEntry): TokenBreakdown {
+  const head = span[0];
+  const joinedReading = span.every((token) => token.reading)
+    ? span.map((token) => token.reading).join('')
+    : null;
+  const glossed: TokenBreakdown = {
+    ...(span.length === 1 ? head : {}),
+    surface: entry.term,
+    lemma: span.length === 1 ? head.lemma : entry.term,
+    reading: entry.reading ?? joinedReading ?? head.reading,
+    pos: entry.kind === 'name' ? NAME_POS : span.length === 1 ? head.pos : 'noun',
+    meanings: [entry.translation],
+    entryId: null,
+  };
+  if (span.length > 1) glossed.parts = span.flatMap((token) => token.parts ?? [token]);
+  return glossed;
+}
+
+/**
+ * Upload the glossary to DeepL (Japanese → English) unless the last upload
+ * still matches it. DeepL glossaries cannot be edited, so a changed glossary
+ * is uploaded as a new one and the old copy deleted.
+ */
+export async function syncDeepLGlossary(
+  glossary: Glossary,
+  options: { authKey: string; serverUrl: string | null; name: string; force: boolean },
+): Promise<{ state: DeepLGlossaryState; created: boolean; deletedId: string | null }> {
+  if (!glossary.entries.length) {
+    throw new Error(`${glossary.path ?? 'Glossary'} has no entries to upload.`);
+  }
+  const client = new DeepLTranslator(options.authKey, {
+    maxRetries: 2,
+    serverUrl: options.serverUrl ?? undefined,
+  });
+  const entriesHash = glossaryHash(glossary);
+  const previous = glossary.deepl;
+
+  if (previous && previous.entriesHash === entriesHash && !options.force) {
+    try {
+      await client.getGlossary(previous.glossaryId);
+      return { state: previous, created: false, deletedId: null };
+    } catch (error) {
+      if (!(error instanceof GlossaryNotFoundError)) throw error;
+    }
+  }
+
+  const entries = new GlossaryEntries({
+    entries: Object.fromEntries(glossary.entries.map((entry) => [entry.term, entry.translation])),
+  });
+  const info = await client.createGlossary(options.name, 'ja', 'en', entries);
+
+  let deletedId: string | null = null;
+  if (previous && previous.glossaryId !== info.glossaryId) {
+    try {
+      await client.deleteGlossary(previous.glossaryId);
+      deletedId = previous.glossaryId;
+    } catch (error) {
+      if (!(error instanceof GlossaryNotFoundError)) throw error;
+    }
+  }
+
+  return {
+    state: {
+      glossaryId: info.glossaryId,
+      name: options.name,
+      entriesHash,
+      entryCount: info.entryCount,
+      syncedAt: new Date().toISOString(),
+    },
+    created: true,
+    deletedId,
+  };
+}
+
+export function writeDeepLState(glossaryPath: string, state: DeepLGlossaryState): void {
+  writeFileSync(deeplStatePath(glossaryPath), `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,225 @@
+/**
+ * Groups kuromoji tokens into the word units a learner would look up.
+ *
+ * kuromoji splits inflected words into a stem plus auxiliaries:
+ *   売っ た              → 売った    (売る, past)
+ *   食べ て いる         → 食べている (食べる, te-iru progressive)
+ *   食べ られ なかっ た  → 食べられなかった (食べる, past negative potential)
+ * Set phrases found in the dictionary as expressions (じゃない, かもしれない)
+ * become one unit as well, and keep inflecting like a verb afterwards.
+ */
+
+import type { IpadicFeatures } from 'kuromoji';
+import type { Dictionary, DictionaryMatch } from './dictionary.js';
+
+export interface WordUnit {
+  /** kuromoji tokens in the unit, in sentence order. */
+  tokens: IpadicFeatures[];
+  /** Dictionary form of the whole unit (verb/adjective lemma or expression). */
+  lemma: string;
+  /** Human-readable inflection, e.g. "past", "te-iru progressive"; null when uninflected. */
+  conjugation: string | null;
+  /** Set when the unit is a dictionary expression rather than an inflected word. */
+  expression: DictionaryMatch | null;
+}
+
+type Flag =
+  | 'past'
+  | 'polite'
+  | 'negative'
+  | 'conditional'
+  | 'volitional'
+  | 'imperative'
+  | 'desiderative'
+  | 'te-form';
+
+/** Order in which flags are spelled out in the label. */
+const FLAG_ORDER: Flag[] = ['past', 'polite', 'negative', 'conditional', 'volitional', 'imperative', 'desiderative'];
+
+/** Helper verbs that follow て (or attach directly in contracted speech: てる, ちゃう). */
+const ASPECTS: Record<string, string> = {
+  いる: 'te-iru progressive',
+  てる: 'te-iru progressive',
+  しまう: 'te-shimau completive',
+  ちゃう: 'te-shimau completive',
+  じゃう: 'te-shimau completive',
+  ちまう: 'te-shimau completive',
+  おく: 'te-oku preparatory',
+  とく: 'te-oku preparatory',
+  どく: 'te-oku preparatory',
+  みる: 'te-miru attempt',
+  ある: 'te-aru resultative',
+  いく: 'te-iku',
+  くる: 'te-kuru',
+  もらう: 'te-morau benefactive',
+  くれる: 'te-kureru benefactive',
+  あげる: 'te-ageru benefactive',
+};
+
+/** Auxiliaries that may follow a verb or adjective stem. */
+const AUXILIARIES = new Set(['ない', 'ぬ', 'ん', 'た', 'ます', 'たい', 'う', 'よう', 'まい', 'です']);
+
+const MAX_EXPRESSION_TOKENS = 6;
+
+export function groupTokens(tokens: IpadicFeatures[], dictionary: Dictionary): WordUnit[] {
+  const units: WordUnit[] = [];
+  let idx = 0;
+
+  while (idx < tokens.length) {
+    const expression = matchExpression(tokens, idx, dictionary);
+    if (expression) {
+      const end = extendInflection(tokens, expression.end, tokens[expression.end - 1]);
+      units.push({
+        tokens: tokens.slice(idx, end),
+        lemma: expression.form,
+        conjugation: describeConjugation(tokens.slice(expression.end, end), null),
+        expression: expression.match,
+      });
+      idx = end;
+      continue;
+    }
+
+    const head = tokens[idx];
+    if (isInflectingHead(head)) {
+      const end = extendInflection(tokens, idx + 1, head);
+      units.push({
+        tokens: tokens.slice(idx, end),
+        lemma: basicForm(head),
+        conjugation: describeConjugation(tokens.slice(idx + 1, end), head),
+        expression: null,
+      });
+      idx = end;
+      continue;
+    }
+
+    units.push({ tokens: [head], lemma: basicForm(head), conjugation: null, expression: null });
+    idx += 1;
+  }
+
+  return units;
+}
+
+/** Longest run starting at `start` whose dictionary form is a known expression. */
+function matchExpression(
+  tokens: IpadicFeatures[],
+  start: number,
+  dictionary: Dictionary,
+): { end: number; form: string; match: DictionaryMatch } | null {
+  if (tokens[start].pos === '記号') return null;
+  const limit = Math.min(tokens.length, start + MAX_EXPRESSION_TOKENS);
+
+  for (let end = limit; end >= start + 2; end -= 1) {
+    const run = tokens.slice(start, end);
+    if (run.some((token) => token.pos === '記号')) continue;
+    const last = run[run.length - 1];
+    const stem = run.slice(0, -1).map((token) => token.surface_form).join('');
+    const candidates = new Set([stem + basicForm(last), stem + last.surface_form]);
+    for (const form of candidates) {
+      const match = dictionary.lookupExpression(form);
+      if (match) return { end, form, match };
+    }
+  }
+  return null;
+}
+
+function isInflectingHead(token: IpadicFeatures): boolean {
+  return (token.pos === '動詞' && token.pos_detail_1 !== '非自立') || (token.pos === '形容詞' && token.pos_detail_1 === '自立');
+}
+
+/** Index just past the auxiliaries, suffixes and て-helpers that follow `previous`. */
+function extendInflection(tokens: IpadicFeatures[], start: number, previous: IpadicFeatures): number {
+  let end = start;
+  let prev = previous;
+  while (end < tokens.length && attaches(tokens[end], prev)) {
+    prev = tokens[end];
+    end += 1;
+  }
+  return end;
+}
+
+function attaches(token: IpadicFeatures, previous: IpadicFeatures): boolean {
+  const base = basicForm(token);
+  const afterTe = previous.pos === '助詞' && (previous.basic_form === 'て' || previous.basic_form === 'で');
+  const inflecting = previous.pos === '動詞' || previous.pos === '形容詞' || previous.pos === '助動詞';
+
+  if (afterTe) {
+    return token.pos === '動詞' && token.pos_detail_1 === '非自立' && base in ASPECTS;
+  }
+  if (!inflecting) return false;
+
+  switch (token.pos) {
+    case '助動詞':
+      if (base === 'だ') return token.conjugated_type === '特殊・タ'; // voiced た: 読んだ
+      if (base === 'です') return previous.pos === '形容詞' || basicForm(previous) === 'た';
+      return AUXILIARIES.has(base);
+    case '動詞':
+      if (token.pos_detail_1 === '接尾') return true; // れる/られる/せる/させる
+      return token.pos_detail_1 === '非自立' && base in ASPECTS && isContracted(base);
+    case '助詞':
+      return token.pos_detail_1 === '接続助詞' && (base === 'て' || base === 'で' || base === 'ば');
+    default:
+      return false;
+  }
+}
+
+/** Contracted helpers attach straight to the stem without a separate て. */
+function isContracted(base: string): boolean {
+  return ['てる', 'ちゃう', 'じゃう', 'ちまう', 'とく', 'どく'].includes(base);
+}
+
+function describeConjugation(followers: IpadicFeatures[], head: IpadicFeatures | null): string | null {
+  const flags = new Set<Flag>();
+  let voice: string | null = null;
+  let aspect: string | null = null;
+
+  if (head && head.conjugated_form.startsWith('命令') && !followers.length) {
+    flags.add('imperative');
+  }
+
+  followers.forEach((token, idx) => {
+    const base = basicForm(token);
+    const previous = idx === 0 ? head : followers[idx - 1];
+    const isLast = idx === followers.length - 1;
+    const conditionalForm = token.conjugated_form.startsWith('仮定');
+
+    if (token.pos === '動詞' && token.pos_detail_1 === '接尾') {
+      voice = describeVoice(base, voice, previous);
+    } else if (token.pos === '動詞' && token.pos_detail_1 === '非自立') {
+      aspect = ASPECTS[base] ?? aspect;
+    } else if (token.pos === '助詞') {
+      if (base === 'ば') flags.add('conditional');
+      else if (isLast) flags.add('te-form');
+    } else if (base === 'た' || base === 'だ') {
+      flags.add(conditionalForm ? 'conditional' : 'past');
+    } else if (base === 'ない' || base === 'ぬ' || base === 'ん') {
+      flags.add('negative');
+      if (conditionalForm) flags.add('conditional');
+    } else if (base === 'ます' || base === 'です') {
+      flags.add('polite');
+    } else if (base === 'たい') {
+      flags.add('desiderative');
+    } else if (base === 'う' || base === 'よう') {
+      flags.add('volitional');
+    } else if (base === 'まい') {
+      flags.add('negative');
+      flags.add('volitional');
+    }
+  });
+
+  const parts: string[] = FLAG_ORDER.filter((flag) => flags.has(flag));
+  if (voice) parts.push(voice);
+  if (aspect) parts.push(aspect);
+  if (flags.has('te-form')) parts.push('te-form');
+  return parts.length ? parts.join(' ') : null;
+}
+
+function describeVoice(base: string, current: string | null, previous: IpadicFeatures | null): string {
+  if (base === 'せる' || base === 'させる') return 'causative';
+  const passiveOrPotential =
+    base === 'られる' || previous?.conjugated_type.startsWith('一段') ? 'potential' : 'passive';
+  return current === 'causative' ? 'causative-passive' : passiveOrPotential;
+}
+
+function basicForm(token: IpadicFeatures): string {
+  return token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form;
+}
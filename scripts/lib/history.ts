@@ -0,0 +1,151 @@
+/**
+ * Translation history of cards: comparing two versions of a cards file and
+ * restoring earlier translations (translationHistory.ts).
+ *
+ * A restored translation counts as a hand edit (`translationSource:
+ * "manual"`) so that later provider runs leave it alone; its provenance
+ * still names whoever originally produced it.
+ */
+
+import type { CardRecord } from './cards.js';
+import {
+  MANUAL_SOURCE,
+  recordCardTranslation,
+  sanitizeOrigin,
+  type TranslationRevision,
+} from './translations.js';
+
+export interface TranslationChange {
+  id: number;
+  sentence: string;
+  startTime: string | null;
+  /** Null when the card did not exist (or had no translation) on that side. */
+  before: TranslationRevision | null;
+  after: TranslationRevision | null;
+}
+
+export interface RevertResult {
+  card: CardRecord;
+  restored: TranslationRevision;
+  replaced: TranslationRevision | null;
+}
+
+/** The card's current translation as a revision, or null when it has none. */
+export function currentRevision(card: CardRecord): TranslationRevision | null {
+  const translation = (card.translation || '').trim();
+  if (!translation) return null;
+  return {
+    translation,
+    source: card.translationSource || 'card',
+    ...sanitizeOrigin({ ...(card.translationProvenance ?? {}) }),
+  };
+}
+
+/** Cards (matched by id) whose translation differs between two versions of a cards file. */
+export function diffCardTranslations(before: CardRecord[], after: CardRecord[]): TranslationChange[] {
+  const previous = new Map(before.map((card) => [card.id, card]));
+  const seen = new Set<number>();
+  const changes: TranslationChange[] = [];
+
+  after.forEach((card) => {
+    seen.add(card.id);
+    const old = previous.get(card.id);
+    const oldRevision = old ? currentRevision(old) : null;
+    const newRevision = currentRevision(card);
+    if (oldRevision?.translation === newRevision?.translation) return;
+    changes.push(changeOf(card, oldRevision, newRevision));
+  });
+  before.forEach((card) => {
+    if (seen.has(card.id)) return;
+    const oldRevision = currentRevision(card);
+    if (oldRevision) changes.push(changeOf(card, oldRevision, null));
+  });
+
+  return changes.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Put back `translationHistory[index]` (default: the most recent one). The
+ * restored value leaves the history and the current one takes its place.
+ */
+export function revertCard(card: CardRecord, index?: number): RevertResult {
+  const history = card.translationHistory ?? [];
+  if (!history.length) {
+    throw new Error(`Card ${card.id} has no earlier translations.`);
+  }
+  const position = index ?? history.length - 1;
+  const restored = history[position];
+  if (!restored) {
+    throw new Error(`Card ${card.id} has no revision ${position} (0-${history.length - 1}).`);
+  }
+
+  const replaced = currentRevision(card);
+  const updated: CardRecord = {
+    ...card,
+    translationHistory: history.filter((_, idx) => idx !== position),
+  };
+  recordCardTranslation(updated, restored.translation, MANUAL_SOURCE, sanitizeOrigin({ ...restored }));
+  if (!updated.translationHistory?.length) delete updated.translationHistory;
+  delete updated.qaFlags;
+  return { card: updated, restored, replaced };
+}
+
+/**
+ * Undo a provider run: every card whose translation came from `source`
+ * (as translationSource or provenance provider), optionally only those
+ * produced at or after `since`, gets its latest translation from elsewhere back.
+ */
+export function revertSource(
+  cards: CardRecord[],
+  source: string,
+  since: string | null,
+): { cards: CardRecord[]; reverted: RevertResult[]; skipped: CardRecord[] } {
+  const fromSource = (revision: TranslationRevision): boolean =>
+    revision.source === source || revision.provider === source;
+  const reverted: RevertResult[] = [];
+  const skipped: CardRecord[] = [];
+
+  const updated = cards.map((card) => {
+    const current = currentRevision(card);
+    if (!current || !fromSource(current)) return card;
+    if (since && (!current.at || current.at < since)) return card;
+
+    const history = card.translationHistory ?? [];
+    let index = history.length - 1;
+    while (index >= 0 && fromSource(history[index])) index -= 1;
+    if (index < 0) {
+      skipped.push(card);
+      return card;
+    }
+    const result = revertCard(card, index);
+    reverted.push(result);
+    return result.card;
+  });
+
+  return { cards: updated, reverted, skipped };
+}
+
+/** "deepl, formality more, 2026-10-19T08:00:00.000Z" */
+export function describeRevision(revision: TranslationRevision): string {
+  const parts = [revision.source];
+  if (revision.provider && revision.provider !== revision.source) parts.push(`via ${revision.provider}`);
+  if (revision.formality && revision.formality !== 'default') parts.push(`formality ${revision.formality}`);
+  if (revision.glossaryId) parts.push(`glossary ${revision.glossaryId}`);
+  if (revision.model) parts.push(`model ${revision.model}`);
+  if (revision.at) parts.push(revision.at);
+  return parts.join(', ');
+}
+
+function changeOf(
+  card: CardRecord,
+  before: TranslationRevision | null,
+  after: TranslationRevision | null,
+): TranslationChange {
+  return {
+    id: card.id,
+    sentence: (card.sentence || '').trim(),
+    startTime: card.startTime ?? null,
+    before,
+    after,
+  };
+}
@@ -0,0 +1,10 @@
+/** HTML helpers for the card fields written to Anki decks and TSV exports. */
+
+/** Escape text for use in element content and double-quoted attributes. */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,249 @@
+/**
+ * JMdict import: reads the EDRDG XML release (JMdict_e / JMdict) or the
+ * jmdict-simplified JSON export and writes an indexed SQLite store that
+ * lib/dictionary.ts queries at enrichment time.
+ *
+ * Store layout:
+ *   entries(id, kanji, kana, senses)   one row per JMdict entry (ent_seq); JSON columns
+ *   forms(form, entry_id, kind, common, position)
+ *                                      every kanji and kana spelling, indexed on `form`
+ *   meta(key, value)                   source, importedAt and schemaVersion
+ *
+ * Stores imported before `schemaVersion` existed have the same layout and
+ * count as version 0.
+ */
+
+import { createReadStream, readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import initSqlJs, { type Database } from 'sql.js';
+
+export interface JmdictForm {
+  text: string;
+  /** Marked with a news1/ichi1/spec1/gai1 priority tag (or "common" in JSON exports). */
+  common: boolean;
+}
+
+export interface JmdictSense {
+  /** JMdict part-of-speech codes (n, v5k, adj-i, prt, ...). */
+  pos: string[];
+  glosses: string[];
+  misc: string[];
+}
+
+export interface JmdictEntry {
+  id: number;
+  kanji: JmdictForm[];
+  kana: JmdictForm[];
+  senses: JmdictSense[];
+}
+
+export const FORM_KIND_KANJI = 0;
+export const FORM_KIND_KANA = 1;
+
+export const STORE_VERSION = 1;
+
+const STORE_SCHEMA = `
+CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+CREATE TABLE entries (id INTEGER PRIMARY KEY, kanji TEXT NOT NULL, kana TEXT NOT NULL, senses TEXT NOT NULL);
+CREATE TABLE forms (form TEXT NOT NULL, entry_id INTEGER NOT NULL, kind INTEGER NOT NULL, common INTEGER NOT NULL, position INTEGER NOT NULL);
+`;
+const STORE_INDEXES = 'CREATE INDEX forms_form ON forms (form);';
+
+const COMMON_PRIORITIES = new Set(['news1', 'ichi1', 'spec1', 'spec2', 'gai1']);
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** Stream entries from a JMdict XML file; only English glosses are kept. */
+export async function* readJmdictXml(path: string): AsyncGenerator<JmdictEntry> {
+  const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+  let entry: JmdictEntry | null = null;
+  let form: JmdictForm | null = null;
+  let sense: JmdictSense | null = null;
+  let previousPos: string[] = [];
+
+  for await (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed === '<entry>') {
+      entry = { id: 0, kanji: [], kana: [], senses: [] };
+      previousPos = [];
+      continue;
+    }
+    if (!entry) continue;
+
+    switch (trimmed) {
+      case '</entry>':
+        yield entry;
+        entry = null;
+        continue;
+      case '<k_ele>':
+      case '<r_ele>':
+        form = { text: '', common: false };
+        continue;
+      case '</k_ele>':
+        if (form?.text) entry.kanji.push(form);
+        form = null;
+        continue;
+      case '</r_ele>':
+        if (form?.text) entry.kana.push(form);
+        form = null;
+        continue;
+      case '<sense>':
+        sense = { pos: [], glosses: [], misc: [] };
+        continue;
+      case '</sense>':
+        if (sense) {
+          // JMdict only repeats POS when it changes; later senses inherit it.
+          if (!sense.pos.length) sense.pos = previousPos;
+          previousPos = sense.pos;
+          if (sense.glosses.length) entry.senses.push(sense);
+        }
+        sense = null;
+        continue;
+      default:
+        break;
+    }
+
+    const element = /^<(\w+)((?:\s[^>]*)?)>([^<]*)<\/\1>$/.exec(trimmed);
+    if (!element) continue;
+    const [, tag, attributes, rawValue] = element;
+    const value = decodeXml(rawValue);
+
+    switch (tag) {
+      case 'ent_seq':
+        entry.id = Number.parseInt(value, 10);
+        break;
+      case 'keb':
+      case 'reb':
+        if (form) form.text = value;
+        break;
+      case 'ke_pri':
+      case 're_pri':
+        if (form && COMMON_PRIORITIES.has(value)) form.common = true;
+        break;
+      case 'pos':
+        sense?.pos.push(entityName(rawValue));
+        break;
+      case 'misc':
+        sense?.misc.push(entityName(rawValue));
+        break;
+      case 'gloss': {
+        const lang = /xml:lang="([^"]+)"/.exec(attributes)?.[1];
+        if (sense && (!lang || lang === 'eng') && value.length) sense.glosses.push(value);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+/** Entries from a jmdict-simplified JSON export ({ words: [...] }). */
+export function* readJmdictJson(path: string): Generator<JmdictEntry> {
+  const payload = JSON.parse(readFileSync(path, 'utf8')) as { words?: unknown[] };
+  if (!Array.isArray(payload.words)) {
+    throw new Error(`${path} is not a jmdict-simplified export (missing "words").`);
+  }
+
+  for (const raw of payload.words) {
+    const word = raw as {
+      id: string | number;
+      kanji?: Array<{ text: string; common?: boolean }>;
+      kana?: Array<{ text: string; common?: boolean }>;
+      sense?: Array<{
+        partOfSpeech?: string[];
+        misc?: string[];
+        gloss?: Array<{ lang?: string; text: string }>;
+      }>;
+    };
+    let previousPos: string[] = [];
+    const senses: JmdictSense[] = [];
+    (word.sense ?? []).forEach((sense) => {
+      const pos = sense.partOfSpeech?.length ? sense.partOfSpeech : previousPos;
+      previousPos = pos;
+      const glosses = (sense.gloss ?? [])
+        .filter((gloss) => !gloss.lang || gloss.lang === 'eng')
+        .map((gloss) => gloss.text);
+      if (glosses.length) senses.push({ pos, glosses, misc: sense.misc ?? [] });
+    });
+
+    yield {
+      id: Number(word.id),
+      kanji: (word.kanji ?? []).map((form) => ({ text: form.text, common: Boolean(form.common) })),
+      kana: (word.kana ?? []).map((form) => ({ text: form.text, common: Boolean(form.common) })),
+      senses,
+    };
+  }
+}
+
+/** schemaVersion recorded in a store's meta table; 0 for stores imported before it existed. */
+export function readStoreVersion(db: Database): number {
+  const result = db.exec("SELECT value FROM meta WHERE key = 'schemaVersion'");
+  const value = result[0]?.values[0]?.[0];
+  return value == null ? 0 : Number(value);
+}
+
+/** Write entries into a fresh SQLite store and return the database bytes. */
+export async function buildJmdictStore(
+  entries: AsyncIterable<JmdictEntry> | Iterable<JmdictEntry>,
+  source: string,
+): Promise<{ data: Uint8Array; entryCount: number; formCount: number }> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  let entryCount = 0;
+  let formCount = 0;
+
+  try {
+    db.run(STORE_SCHEMA);
+    db.run('BEGIN');
+    const insertEntry = db.prepare('INSERT OR REPLACE INTO entries VALUES (?, ?, ?, ?)');
+    const insertForm = db.prepare('INSERT INTO forms VALUES (?, ?, ?, ?, ?)');
+
+    for await (const entry of entries) {
+      if (!entry.id || !entry.senses.length) continue;
+      insertEntry.run([
+        entry.id,
+        JSON.stringify(entry.kanji),
+        JSON.stringify(entry.kana),
+        JSON.stringify(entry.senses),
+      ]);
+      entry.kanji.forEach((form, position) => {
+        insertForm.run([form.text, entry.id, FORM_KIND_KANJI, form.common ? 1 : 0, position]);
+      });
+      entry.kana.forEach((form, position) => {
+        insertForm.run([form.text, entry.id, FORM_KIND_KANA, form.common ? 1 : 0, position]);
+      });
+      entryCount += 1;
+      formCount += entry.kanji.length + entry.kana.length;
+    }
+
+    insertEntry.free();
+    insertForm.free();
+    db.run(STORE_INDEXES);
+    db.run('INSERT INTO meta VALUES (?, ?), (?, ?), (?, ?)', [
+      'source',
+      source,
+      'importedAt',
+      new Date().toISOString(),
+      'schemaVersion',
+      String(STORE_VERSION),
+    ]);
+    db.run('COMMIT');
+    return { data: db.export(), entryCount, formCount };
+  } finally {
+    db.close();
+  }
+}
+
+function entityName(raw: string): string {
+  const match = /^&([\w-]+);$/.exec(raw.trim());
+  return match ? match[1] : decodeXml(raw);
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+    return XML_ENTITIES[name] ?? whole;
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Per-kanji notes for cards (meanings, on/kun readings, stroke count, JLPT
+ * level and frequency rank), from a local KANJIDIC2-derived file in the
+ * kanji.json format of the kanji-data project:
+ *
+ *   { "借": { "strokes": 10, "meanings": ["Borrow", "Rent"], "readings_on": ["しゃく"],
+ *             "readings_kun": ["か.りる"], "jlpt_new": 4, "freq": 1165, ... }, ... }
+ *
+ * Fields other than these are ignored, and any of them may be null.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { escapeHtml } from './html.js';
+
+export interface KanjiInfo {
+  character: string;
+  meanings: string[];
+  onyomi: string[];
+  kunyomi: string[];
+  strokes: number | null;
+  /** 5 (N5) to 1 (N1); null when the kanji is not on a JLPT list. */
+  jlpt: number | null;
+  /** Newspaper frequency rank among the ~2,500 most used kanji. */
+  frequencyRank: number | null;
+}
+
+export interface KanjiDictionary {
+  size: number;
+  lookup(character: string): KanjiInfo | null;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const KANJI_CHARACTER = /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/g;
+
+/** data/kanji.json (the full list) when present, else the bundled sample. */
+export function defaultKanjiPath(): string {
+  const full = resolve(__dirname, '../../data/kanji.json');
+  return existsSync(full) ? full : resolve(__dirname, '../../data/kanji-mini.json');
+}
+
+export function loadKanjiDictionary(path: string): KanjiDictionary {
+  if (!existsSync(path)) {
+    console.warn(`Kanji data not found at ${path}. Kanji notes will be omitted.`);
+    return parseKanjiData({});
+  }
+  return parseKanjiData(JSON.parse(readFileSync(path, 'utf8').replace(/^\uFEFF/, '')));
+}
+
+/** Kanji dictionary from parsed kanji.json content; entries that are not objects are skipped. */
+export function parseKanjiData(raw: unknown): KanjiDictionary {
+  const byCharacter = new Map<string, KanjiInfo>();
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    Object.entries(raw as Record<string, unknown>).forEach(([character, value]) => {
+      if (!value || typeof value !== 'object') return;
+      const fields = value as Record<string, unknown>;
+      byCharacter.set(character, {
+        character,
+        meanings: strings(fields.meanings),
+        onyomi: strings(fields.readings_on),
+        kunyomi: strings(fields.readings_kun),
+        strokes: positiveInteger(fields.strokes),
+        jlpt: jlptLevel(fields.jlpt_new),
+        frequencyRank: positiveInteger(fields.freq),
+      });
+    });
+  }
+  return {
+    size: byCharacter.size,
+    lookup: (character) => byCharacter.get(character) ?? null,
+  };
+}
+
+/** Every distinct kanji of the sentence in order of appearance; ones the data lacks get empty notes. */
+export function kanjiBreakdown(sentence: string, kanji: KanjiDictionary): KanjiInfo[] {
+  const characters = Array.from(new Set(sentence.match(KANJI_CHARACTER) ?? []));
+  return characters.map(
+    (character) =>
+      kanji.lookup(character) ?? {
+        character,
+        meanings: [],
+        onyomi: [],
+        kunyomi: [],
+        strokes: null,
+        jlpt: null,
+        frequencyRank: null,
+      },
+  );
+}
+
+/** Card field listing each kanji with its notes; empty when the card has none. */
+export function renderKanjiNotes(kanji: KanjiInfo[]): string {
+  if (!kanji.length) return '';
+  const items = kanji.map((info) => {
+    const details = [
+      info.meanings.length ? escapeHtml(info.meanings.join(', ')) : '',
+      info.onyomi.length ? `on: ${escapeHtml(info.onyomi.join('、'))}` : '',
+      info.kunyomi.length ? `kun: ${escapeHtml(info.kunyomi.join('、'))}` : '',
+      info.strokes ? `${info.strokes} strokes` : '',
+      info.jlpt ? `N${info.jlpt}` : '',
+    ].filter(Boolean);
+    return `<li><span class="kanji-char">${escapeHtml(info.character)}</span> ${details.join(' · ')}</li>`;
+  });
+  return `<ul>${items.join('')}</ul>`;
+}
+
+/** "N3", "n3" and 3 all mean N3; anything outside N5–N1 is null. */
+export function jlptLevel(value: unknown): number | null {
+  const level = Number(String(value ?? '').replace(/^n/i, '').trim());
+  return Number.isInteger(level) && level >= 1 && level <= 5 ? level : null;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.length > 0)
+    : [];
+}
+
+function positiveInteger(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+}
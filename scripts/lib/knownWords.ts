@@ -0,0 +1,116 @@
+/**
+ * Persistent known-words store and i+1 scoring.
+ *
+ * The store is a JSON file keyed by lemma (dictionary form), so 売った and
+ * 売って both count as the known word 売る. Scoring looks at the content
+ * words of an enriched card (particles, auxiliaries, symbols, numbers and
+ * names are ignored) and tags a card "i+1" when exactly one is unknown.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { CardRecord, TokenBreakdown } from './cards.js';
+import { isContentPos } from './pos.js';
+
+export interface KnownWord {
+  /** When the word was first marked known (ISO timestamp). */
+  added: string;
+  /** Where it came from, e.g. "list:core2k.txt" or "anki:Mining.apkg". */
+  source: string;
+}
+
+export interface KnownWordsStore {
+  words: Record<string, KnownWord>;
+}
+
+export interface CardScore {
+  unknownLemmas: string[];
+  unknownCount: number;
+  contentCount: number;
+}
+
+export const I_PLUS_ONE_TAG = 'i+1';
+
+export function loadKnownWords(path: string): KnownWordsStore {
+  if (!existsSync(path)) return { words: {} };
+  const payload = JSON.parse(readFileSync(path, 'utf8')) as Partial<KnownWordsStore>;
+  return { words: payload.words ?? {} };
+}
+
+export function saveKnownWords(store: KnownWordsStore, path: string): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const sorted = Object.fromEntries(
+    Object.entries(store.words).sort(([a], [b]) => a.localeCompare(b, 'ja')),
+  );
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, JSON.stringify({ words: sorted }, null, 2), 'utf8');
+  renameSync(tempPath, path);
+}
+
+/** Add words that are not known yet; returns how many were new. */
+export function addKnownWords(store: KnownWordsStore, words: Iterable<string>, source: string): number {
+  const added = new Date().toISOString();
+  let count = 0;
+  for (const raw of words) {
+    const word = cleanWord(raw);
+    if (!word || store.words[word]) continue;
+    store.words[word] = { added, source };
+    count += 1;
+  }
+  return count;
+}
+
+export function removeKnownWords(store: KnownWordsStore, words: Iterable<string>): number {
+  let count = 0;
+  for (const raw of words) {
+    const word = cleanWord(raw);
+    if (word && store.words[word]) {
+      delete store.words[word];
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Normalize a word-list line or Anki field to a bare word: strips HTML,
+ * [sound:...] tags, Anki furigana brackets (食[た]べる → 食べる) and spaces.
+ */
+export function cleanWord(value: string): string {
+  return value
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\s+/g, '')
+    .trim();
+}
+
+export function isKnown(store: KnownWordsStore, token: TokenBreakdown): boolean {
+  return Boolean(store.words[token.lemma] || store.words[token.surface]);
+}
+
+export function scoreCard(card: CardRecord, store: KnownWordsStore): CardScore {
+  const content = (card.tokens ?? []).filter((token) => isContentPos(token.pos));
+  const unknown = Array.from(
+    new Set(content.filter((token) => !isKnown(store, token)).map((token) => token.lemma)),
+  );
+  return { unknownLemmas: unknown, unknownCount: unknown.length, contentCount: content.length };
+}
+
+/** Record the score on the card and keep its "i+1" tag in sync. */
+export function applyScore(card: CardRecord, score: CardScore): CardRecord {
+  const tags = (card.tags ?? []).filter((tag) => tag !== I_PLUS_ONE_TAG);
+  if (score.unknownCount === 1) tags.push(I_PLUS_ONE_TAG);
+  return {
+    ...card,
+    unknownCount: score.unknownCount,
+    unknownLemmas: score.unknownLemmas,
+    tags,
+  };
+}
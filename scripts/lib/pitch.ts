@@ -0,0 +1,164 @@
+/**
+ * Pitch accent (Tokyo dialect) for breakdown tokens, from a local accent
+ * dictionary in Kanjium's accents.txt format, a word list (wordList.ts)
+ * whose third column holds the accepted downstep positions, most common first:
+ *
+ *   食べ物<TAB>たべもの<TAB>3,2
+ *
+ * Position 0 is heiban (no drop), 1 atamadaka (drop after the first mora),
+ * the last mora odaka (drop onto the following particle), anything in
+ * between nakadaka.
+ *
+ * The graphs are inline SVG in the usual dot-and-line style: one dot per
+ * mora plus a hollow dot for the particle that follows, high or low.
+ */
+
+import { existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { TokenBreakdown } from './cards.js';
+import { escapeHtml } from './html.js';
+import { isContentPos } from './pos.js';
+import { katakanaToHiragana } from './reading.js';
+import { parseWordListTsv, readWordListFile } from './wordList.js';
+
+export type PitchType = 'heiban' | 'atamadaka' | 'nakadaka' | 'odaka';
+
+export interface PitchAccent {
+  /** Hiragana reading of the dictionary form the pattern belongs to. */
+  reading: string;
+  /** Mora after which the pitch drops; 0 for none. */
+  pattern: number;
+  type: PitchType;
+  /** Other accepted patterns, when the dictionary lists more than one. */
+  alternatives?: number[];
+}
+
+export interface AccentDictionary {
+  size: number;
+  /** Accent of a word, looked up like any word list entry (see wordList.ts). */
+  lookup(lemma: string, reading: string | null): PitchAccent | null;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/** Small kana that share a mora with the kana before them (ゃ in しゃ); っ and ー count on their own. */
+const SMALL_KANA = /[ぁぃぅぇぉゃゅょゎゕゖ]/;
+
+const GRAPH_STEP = 22;
+const GRAPH_HIGH_Y = 7;
+const GRAPH_LOW_Y = 25;
+const GRAPH_TEXT_Y = 44;
+const GRAPH_HEIGHT = 50;
+
+/** data/accents.txt (Kanjium's full list) when present, else the bundled sample. */
+export function defaultAccentPath(): string {
+  const full = resolve(__dirname, '../../data/accents.txt');
+  return existsSync(full) ? full : resolve(__dirname, '../../data/accents-mini.tsv');
+}
+
+export function loadAccentDictionary(path: string): AccentDictionary {
+  return parseAccentTsv(readWordListFile(path, 'Accent dictionary', 'Pitch accent'));
+}
+
+/** Accent dictionary from Kanjium-format text; malformed lines are skipped. */
+export function parseAccentTsv(text: string): AccentDictionary {
+  const list = parseWordListTsv(text, ([accentColumn]) => {
+    if (!accentColumn) return null;
+    // Kanjium marks some patterns with the part of speech they apply to, e.g. "(名)0,(副)1".
+    const patterns = accentColumn
+      .split(',')
+      .map((value) => Number(value.replace(/\([^)]*\)/g, '').trim()))
+      .filter((value) => Number.isInteger(value) && value >= 0);
+    return patterns.length ? { patterns } : null;
+  });
+
+  return {
+    size: list.size,
+    lookup(lemma, reading) {
+      const entry = list.lookup(lemma, reading);
+      if (!entry) return null;
+      const [pattern, ...alternatives] = entry.patterns;
+      const morae = splitMorae(entry.reading).length;
+      if (pattern > morae) return null;
+      return {
+        reading: entry.reading,
+        pattern,
+        type: classifyPitch(pattern, morae),
+        ...(alternatives.length ? { alternatives } : {}),
+      };
+    },
+  };
+}
+
+/** "しゃっきん" → ["しゃ", "っ", "き", "ん"] */
+export function splitMorae(reading: string): string[] {
+  const morae: string[] = [];
+  Array.from(katakanaToHiragana(reading)).forEach((char) => {
+    if (SMALL_KANA.test(char) && morae.length) {
+      morae[morae.length - 1] += char;
+    } else {
+      morae.push(char);
+    }
+  });
+  return morae;
+}
+
+export function classifyPitch(pattern: number, moraCount: number): PitchType {
+  if (pattern === 0) return 'heiban';
+  if (pattern === 1) return 'atamadaka';
+  return pattern >= moraCount ? 'odaka' : 'nakadaka';
+}
+
+/** High (true) or low for each mora and then the following particle. */
+export function pitchLevels(moraCount: number, pattern: number): boolean[] {
+  return Array.from({ length: moraCount + 1 }, (_, idx) => {
+    const mora = idx + 1;
+    if (pattern === 1) return mora === 1;
+    return mora > 1 && (pattern === 0 || mora <= pattern);
+  });
+}
+
+/** Set `pitchAccent` on content words the accent dictionary knows; other tokens are returned as-is. */
+export function annotatePitch(tokens: TokenBreakdown[], accents: AccentDictionary): TokenBreakdown[] {
+  return tokens.map((token) => {
+    if (!isContentPos(token.pos)) return token;
+    const accent = accents.lookup(token.lemma, token.reading);
+    return accent ? { ...token, pitchAccent: accent } : token;
+  });
+}
+
+/** Inline SVG graph for one word. */
+export function renderPitchGraph(accent: PitchAccent): string {
+  const morae = splitMorae(accent.reading);
+  const levels = pitchLevels(morae.length, accent.pattern);
+  const x = (idx: number): number => GRAPH_STEP / 2 + idx * GRAPH_STEP;
+  const y = (high: boolean): number => (high ? GRAPH_HIGH_Y : GRAPH_LOW_Y);
+  const width = GRAPH_STEP * levels.length;
+
+  const line = `<polyline points="${levels.map((high, idx) => `${x(idx)},${y(high)}`).join(' ')}" fill="none" stroke="currentColor" stroke-width="1.5"/>`;
+  const dots = levels.map((high, idx) =>
+    idx < morae.length
+      ? `<circle cx="${x(idx)}" cy="${y(high)}" r="4" fill="currentColor"/>`
+      : `<circle cx="${x(idx)}" cy="${y(high)}" r="4" fill="white" stroke="currentColor" stroke-width="1.5"/>`,
+  );
+  const labels = morae.map(
+    (mora, idx) =>
+      `<text x="${x(idx)}" y="${GRAPH_TEXT_Y}" text-anchor="middle" font-size="13" fill="currentColor">${escapeHtml(mora)}</text>`,
+  );
+  return `<svg class="pitch-graph" xmlns="http://www.w3.org/2000/svg" width="${width}" height="${GRAPH_HEIGHT}" viewBox="0 0 ${width} ${GRAPH_HEIGHT}" role="img" aria-label="${accent.type} [${accent.pattern}]">${line}${dots.join('')}${labels.join('')}</svg>`;
+}
+
+/** Card field with a labelled graph for every annotated word (each lemma once); empty when there are none. */
+export function renderPitchField(tokens: TokenBreakdown[]): string {
+  const seen = new Set<string>();
+  const words = tokens
+    .filter((token) => token.pitchAccent && !seen.has(token.lemma) && seen.add(token.lemma))
+    .map((token) => {
+      const accent = token.pitchAccent as PitchAccent;
+      const also = accent.alternatives?.length ? `, also ${accent.alternatives.join(', ')}` : '';
+      return `<span class="pitch-word"><span class="pitch-lemma">${escapeHtml(token.lemma)}</span>${renderPitchGraph(accent)}<span class="pitch-type">${accent.type} [${accent.pattern}${also}]</span></span>`;
+    });
+  return words.join(' ');
+}
@@ -0,0 +1,81 @@
+/**
+ * English part-of-speech labels for kuromoji (IPADIC) tokens, e.g.
+ * 名詞/サ変接続 → "noun-suru-verb", 助詞/格助詞/一般 → "particle-case-particle-general".
+ */
+
+import type { IpadicFeatures } from 'kuromoji';
+
+export const POS_MAP: Record<string, string> = {
+  名詞: 'noun',
+  動詞: 'verb',
+  形容詞: 'adjective',
+  副詞: 'adverb',
+  助詞: 'particle',
+  助動詞: 'auxiliary-verb',
+  記号: 'symbol',
+  連体詞: 'prenoun-adjectival',
+  感動詞: 'interjection',
+  接続詞: 'conjunction',
+  接頭詞: 'prefix',
+  その他: 'other',
+  フィラー: 'filler',
+  一般: 'general',
+  固有名詞: 'proper-noun',
+  サ変接続: 'suru-verb',
+  自立: 'independent',
+  非自立: 'non-independent',
+  形容動詞語幹: 'na-adj-stem',
+  数: 'number',
+  助数詞: 'counter',
+  係助詞: 'binding-particle',
+  格助詞: 'case-particle',
+  副助詞: 'adverbial-particle',
+  並立助詞: 'parallel-particle',
+  終助詞: 'sentence-ending-particle',
+  連体化: 'attributive',
+  接続助詞: 'conjunctive-particle',
+  感動詞語幹: 'interjection-stem',
+  括弧開: 'open-bracket',
+  括弧閉: 'close-bracket',
+  句点: 'period',
+  読点: 'comma',
+  空白: 'whitespace',
+  記号一般: 'symbol-general',
+  代名詞: 'pronoun',
+  副詞可能: 'adverbial',
+  連語: 'expression',
+  語幹: 'stem',
+  テ形: 'te-form',
+  タ形: 'ta-form',
+  接尾: 'suffix',
+};
+
+/** Labels that mark grammar, names and numbers rather than vocabulary. */
+const FUNCTION_POS =
+  /^(particle|auxiliary-verb|symbol|filler|other)(-|$)|(^|-)(non-independent|suffix|number|proper-noun)(-|$)/;
+
+export function buildPosLabel(token: IpadicFeatures): string {
+  return [token.pos, token.pos_detail_1, token.pos_detail_2, token.pos_detail_3]
+    .map((part) => translatePosPart(part))
+    .filter((part): part is string => Boolean(part))
+    .join('-');
+}
+
+function translatePosPart(part?: string | null): string | null {
+  if (!part || part === '*') return null;
+  return part
+    .split('／')
+    .map((segment) => {
+      const trimmed = segment.trim();
+      return POS_MAP[trimmed] ?? trimmed;
+    })
+    .join('/');
+}
+
+/**
+ * True for vocabulary worth learning: not a particle, auxiliary, symbol,
+ * number, name, suffix or dependent helper word.
+ */
+export function isContentPos(label: string): boolean {
+  return !FUNCTION_POS.test(label);
+}
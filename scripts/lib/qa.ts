@@ -0,0 +1,246 @@
+/**
+ * Translation checks over enriched cards (qaCards.ts). Each check adds a
+ * flag to the card's `qaFlags` so review can go straight to the suspicious
+ * lines; non-speech cues are never flagged.
+ *
+ * The aligned-English comparison is a bag-of-words overlap, not a semantic
+ * one: it only catches provider lines that share no content words with the
+ * official subtitle, which is where mistranslations and misaligned cues end up.
+ */
+
+import { existsSync } from 'node:fs';
+import type { CardRecord } from './cards.js';
+import { loadDataFile } from './schema.js';
+import { sanitizeTranslationEntry } from './translations.js';
+
+export type QaFlag = 'literal' | 'japanese' | 'length-ratio' | 'aligned-mismatch' | 'duplicate';
+
+/** Report order; also the order flags are stored on a card. */
+export const QA_FLAGS: QaFlag[] = ['literal', 'japanese', 'length-ratio', 'aligned-mismatch', 'duplicate'];
+
+export const QA_FLAG_DESCRIPTIONS: Record<QaFlag, string> = {
+  literal: 'word-by-word fallback instead of a sentence translation',
+  japanese: 'Japanese script left in the English',
+  'length-ratio': 'English length far out of proportion to the Japanese',
+  'aligned-mismatch': 'provider translation shares no content words with the aligned English subtitle',
+  duplicate: 'same translation as the neighbouring line, which has different Japanese',
+};
+
+export interface QaOptions {
+  /** Aligned English lines from alignSubs.ts, if any. */
+  aligned: AlignedEnglish | null;
+  /** Allowed range of English letters per Japanese character. */
+  minRatio: number;
+  maxRatio: number;
+  /** Word-overlap (Dice) score below which a provider line disagrees with the aligned English. */
+  minAgreement: number;
+}
+
+export interface AlignedEnglish {
+  bySubtitleId: Map<string, string>;
+  bySentence: Map<string, string>;
+}
+
+export interface QaIssue {
+  card: CardRecord;
+  flag: QaFlag;
+  detail: string;
+}
+
+export interface QaResult {
+  cards: CardRecord[];
+  issues: QaIssue[];
+}
+
+export const DEFAULT_QA_OPTIONS: QaOptions = {
+  aligned: null,
+  minRatio: 0.4,
+  maxRatio: 8,
+  minAgreement: 0.15,
+};
+
+/** Aligned lines below this confidence are too unreliable to judge a translation by. */
+const MIN_ALIGNED_CONFIDENCE = 0.5;
+/** Short lines ("はい" -> "Yes.") swing the length ratio too much to judge. */
+const MIN_RATIO_CHARACTERS = 4;
+/** Both sides need this many content words before a zero overlap means anything. */
+const MIN_AGREEMENT_WORDS = 3;
+
+const JAPANESE_RUN = /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}\u30FC]+/gu;
+const NOT_COUNTED = /[\s\p{P}\p{S}]/gu;
+
+const STOPWORDS = new Set(
+  (
+    "a an the and or but so if of to in on at by for with from as is are was were be been am " +
+    "i you he she it we they me him her us them my your his its our their this that these those " +
+    "do does did not no yes oh just what there here then than too very really all some any " +
+    "i'm you're it's that's don't can't i'll we're let's"
+  ).split(' '),
+);
+
+/** Aligned English keyed like the translation cache; low-confidence alignments are left out. */
+export function loadAlignedEnglish(path: string): AlignedEnglish {
+  const aligned: AlignedEnglish = { bySubtitleId: new Map(), bySentence: new Map() };
+  if (!existsSync(path)) {
+    throw new Error(`Aligned translations not found at ${path}.`);
+  }
+  loadDataFile<unknown>(path, 'translations').forEach((raw) => {
+    const entry = sanitizeTranslationEntry(raw);
+    if (!entry || (entry.confidence ?? 1) < MIN_ALIGNED_CONFIDENCE) return;
+    if (entry.subtitleId != null) aligned.bySubtitleId.set(String(entry.subtitleId), entry.translation);
+    if (entry.sentence) aligned.bySentence.set(entry.sentence, entry.translation);
+  });
+  return aligned;
+}
+
+export function runQa(cards: CardRecord[], options: QaOptions): QaResult {
+  const issues: QaIssue[] = [];
+  const flagsByCard = new Map<CardRecord, Set<QaFlag>>();
+  const flag = (card: CardRecord, qaFlag: QaFlag, detail: string): void => {
+    issues.push({ card, flag: qaFlag, detail });
+    const set = flagsByCard.get(card) ?? new Set<QaFlag>();
+    set.add(qaFlag);
+    flagsByCard.set(card, set);
+  };
+
+  const checked = cards.filter(
+    (card) => !card.nonSpeech && (card.sentence || '').trim() && (card.translation || '').trim(),
+  );
+
+  checked.forEach((card) => {
+    const sentence = (card.sentence || '').trim();
+    const translation = (card.translation || '').trim();
+
+    if (card.translationSource === 'literal') {
+      flag(card, 'literal', 'built from dictionary glosses');
+    }
+
+    const leftover = translation.match(JAPANESE_RUN);
+    if (leftover) {
+      flag(card, 'japanese', `contains ${leftover.map((run) => `"${run}"`).join(', ')}`);
+    }
+
+    const japaneseLength = sentence.replace(NOT_COUNTED, '').length;
+    const englishLength = translation.replace(NOT_COUNTED, '').length;
+    if (japaneseLength >= MIN_RATIO_CHARACTERS) {
+      const ratio = englishLength / japaneseLength;
+      if (ratio < options.minRatio || ratio > options.maxRatio) {
+        flag(
+          card,
+          'length-ratio',
+          `${englishLength} English letters for ${japaneseLength} Japanese characters (ratio ${ratio.toFixed(1)}, expected ${options.minRatio}-${options.maxRatio})`,
+        );
+      }
+    }
+
+    // Provenance, not translationSource: a provider line kept by a later run is marked 'card' or 'hint'.
+    const aligned = options.aligned ? alignedLine(card, options.aligned) : null;
+    if (aligned && card.translationProvenance?.provider) {
+      const agreement = wordAgreement(translation, aligned);
+      if (agreement != null && agreement < options.minAgreement) {
+        flag(card, 'aligned-mismatch', `aligned English: "${aligned}" (overlap ${agreement.toFixed(2)})`);
+      }
+    }
+  });
+
+  for (let i = 1; i < checked.length; i += 1) {
+    const previous = checked[i - 1];
+    const card = checked[i];
+    const english = normalizeEnglish(card.translation);
+    const sameTranslation = english.length > 0 && normalizeEnglish(previous.translation) === english;
+    const sameSentence = (previous.sentence || '').trim() === (card.sentence || '').trim();
+    if (sameTranslation && !sameSentence) {
+      flag(previous, 'duplicate', `same translation as card #${card.id}`);
+      flag(card, 'duplicate', `same translation as card #${previous.id}`);
+    }
+  }
+
+  const updated = cards.map((card) => {
+    const next: CardRecord = { ...card };
+    const flags = flagsByCard.get(card);
+    if (flags) {
+      next.qaFlags = QA_FLAGS.filter((qaFlag) => flags.has(qaFlag));
+    } else {
+      delete next.qaFlags;
+    }
+    return next;
+  });
+  return { cards: updated, issues };
+}
+
+/** Plain-text report listing every flagged card with its lines and the reasons. */
+export function formatQaReport(result: QaResult, title: string): string {
+  const flagged = result.cards.filter((card) => card.qaFlags?.length);
+  const lines = [
+    `QA report for ${title}: ${flagged.length} of ${result.cards.length} card(s) flagged`,
+    '',
+    ...QA_FLAGS.map((qaFlag) => {
+      const count = result.issues.filter((issue) => issue.flag === qaFlag).length;
+      return `  ${qaFlag.padEnd(17)} ${String(count).padStart(4)}  ${QA_FLAG_DESCRIPTIONS[qaFlag]}`;
+    }),
+  ];
+
+  const byCard = new Map<number, QaIssue[]>();
+  result.issues.forEach((issue) => {
+    byCard.set(issue.card.id, [...(byCard.get(issue.card.id) ?? []), issue]);
+  });
+  result.cards.forEach((card) => {
+    const issues = byCard.get(card.id);
+    if (!issues) return;
+    lines.push(
+      '',
+      `#${card.id}${card.startTime ? ` ${card.startTime}` : ''} [${(card.qaFlags as QaFlag[]).join(', ')}]`,
+      `  JA: ${(card.sentence || '').trim()}`,
+      `  EN: ${(card.translation || '').trim()} (${card.translationSource ?? 'unknown source'})`,
+      ...issues.map((issue) => `  - ${issue.flag}: ${issue.detail}`),
+    );
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+function alignedLine(card: CardRecord, aligned: AlignedEnglish): string | null {
+  if (card.subtitleId != null && !card.mergedSubtitleIds) {
+    const byId = aligned.bySubtitleId.get(String(card.subtitleId));
+    if (byId) return byId;
+  }
+  return aligned.bySentence.get((card.sentence || '').trim()) ?? null;
+}
+
+/** Dice overlap of content words, or null when either side is too short to compare. */
+function wordAgreement(a: string, b: string): number | null {
+  const left = contentWords(a);
+  const right = contentWords(b);
+  if (left.size < MIN_AGREEMENT_WORDS || right.size < MIN_AGREEMENT_WORDS) return null;
+  let shared = 0;
+  left.forEach((word) => {
+    if (right.has(word)) shared += 1;
+  });
+  return (2 * shared) / (left.size + right.size);
+}
+
+function contentWords(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .split(/[^a-z0-9']+/)
+    .map((word) => word.replace(/^'+|'+$/g, ''))
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+  return new Set(words);
+}
+
+/** Crude suffix stripping so "devils"/"devil" and "killed"/"kill" count as the same word. */
+function stem(word: string): string {
+  const base = word.replace(/'s$/, '');
+  if (base.length > 5 && base.endsWith('ing')) return base.slice(0, -3);
+  if (base.length > 4 && base.endsWith('ed')) return base.slice(0, -2);
+  if (base.length > 3 && base.endsWith('s') && !base.endsWith('ss')) return base.slice(0, -1);
+  return base;
+}
+
+function normalizeEnglish(text: string | null | undefined): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[\s\p{P}]+/gu, ' ')
+    .trim();
+}
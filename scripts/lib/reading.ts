@@ -0,0 +1,410 @@
+/**
+ * Reading aids built from kuromoji tokens:
+ *  - Hepburn romaji for a whole sentence (macrons for long vowels, n' before vowels)
+ *  - Anki-style furigana markup ("売[う]った") with readings on kanji only,
+ *    and the reverse: ruby segments parsed back out of that markup
+ */
+
+import type { IpadicFeatures } from 'kuromoji';
+
+export interface RubySegment {
+  text: string;
+  /** Hiragana reading shown above `text`; null for text without furigana. */
+  reading: string | null;
+}
+
+interface Syllable {
+  romaji: string;
+}
+
+const KANJI_CLASS = '\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF\\u3005\\u3006\\u30F6';
+const KANJI_PATTERN = new RegExp(`[${KANJI_CLASS}]`);
+const KANJI_RUN_PATTERN = new RegExp(`[${KANJI_CLASS}]+|[^${KANJI_CLASS}]+`, 'g');
+const KANA_ONLY_PATTERN = /^[\u3041-\u309F\u30A0-\u30FF]+$/;
+const DIGIT_PATTERN = /^[0-9.,]+$/;
+/** Placeholder for verb-final う, which is an inflection and never a long vowel (思う → omou). */
+const PLAIN_U = '\uE000';
+
+const MONOGRAPHS: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko',
+  が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so',
+  ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to',
+  だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho',
+  ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', ゐ: 'i', ゑ: 'e', を: 'o', ん: 'n',
+  ゔ: 'vu',
+  ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o',
+  ゃ: 'ya', ゅ: 'yu', ょ: 'yo', ゎ: 'wa',
+  [PLAIN_U]: 'u',
+};
+
+const DIGRAPHS: Record<string, string> = {
+  きゃ: 'kya', きゅ: 'kyu', きょ: 'kyo',
+  ぎゃ: 'gya', ぎゅ: 'gyu', ぎょ: 'gyo',
+  しゃ: 'sha', しゅ: 'shu', しょ: 'sho', しぇ: 'she',
+  じゃ: 'ja', じゅ: 'ju', じょ: 'jo', じぇ: 'je',
+  ちゃ: 'cha', ちゅ: 'chu', ちょ: 'cho', ちぇ: 'che',
+  ぢゃ: 'ja', ぢゅ: 'ju', ぢょ: 'jo',
+  にゃ: 'nya', にゅ: 'nyu', にょ: 'nyo',
+  ひゃ: 'hya', ひゅ: 'hyu', ひょ: 'hyo',
+  びゃ: 'bya', びゅ: 'byu', びょ: 'byo',
+  ぴゃ: 'pya', ぴゅ: 'pyu', ぴょ: 'pyo',
+  みゃ: 'mya', みゅ: 'myu', みょ: 'myo',
+  りゃ: 'rya', りゅ: 'ryu', りょ: 'ryo',
+  ふぁ: 'fa', ふぃ: 'fi', ふぇ: 'fe', ふぉ: 'fo',
+  てぃ: 'ti', でぃ: 'di', とぅ: 'tu', どぅ: 'du',
+  うぃ: 'wi', うぇ: 'we', うぉ: 'wo',
+  ゔぁ: 'va', ゔぃ: 'vi', ゔぇ: 've', ゔぉ: 'vo',
+  つぁ: 'tsa', つぃ: 'tsi', つぇ: 'tse', つぉ: 'tso',
+};
+
+const PUNCTUATION: Record<string, string> = {
+  '。': '.',
+  '、': ',',
+  '！': '!',
+  '？': '?',
+  '…': '...',
+  '‥': '..',
+  '～': '~',
+  '〜': '~',
+  '・': ' ',
+  '「': '"',
+  '」': '"',
+  '『': '"',
+  '』': '"',
+  '（': '(',
+  '）': ')',
+  '⸺': '-',
+  '―': '-',
+};
+
+const OPENING_PUNCTUATION = ['（', '「', '『'];
+/** Parts of speech whose auxiliaries are written as one romaji word (食べ|た → tabeta). */
+const INFLECTING_POS = ['動詞', '形容詞', '助動詞'];
+const COPULAS = ['だ', 'です'];
+
+const MACRONS: Record<string, string> = { a: 'ā', i: 'ī', u: 'ū', e: 'ē', o: 'ō' };
+
+export function katakanaToHiragana(text: string): string {
+  return text.replace(/[\u30a1-\u30f6]/g, (char) =>
+    String.fromCharCode(char.charCodeAt(0) - 0x60),
+  );
+}
+
+/**
+ * Romanize a whole tokenized sentence. Auxiliaries and conjunctive て/で are
+ * attached to the preceding word so small っ and long vowels spanning token
+ * boundaries (売っ|た, 行こ|う) come out right.
+ */
+export function buildRomaji(tokens: IpadicFeatures[]): string {
+  const words: string[] = [];
+  let pendingKana: string | null = null;
+  let openPrefix = '';
+  let previous: IpadicFeatures | null = null;
+
+  const pushWord = (value: string): void => {
+    words.push(`${openPrefix}${value}`);
+    openPrefix = '';
+  };
+
+  const flushKana = (): void => {
+    if (pendingKana !== null) {
+      pushWord(kanaToRomaji(pendingKana));
+      pendingKana = null;
+    }
+  };
+
+  const appendToLast = (value: string): void => {
+    if (words.length) {
+      words[words.length - 1] += value;
+    } else {
+      words.push(value);
+    }
+  };
+
+  for (const token of tokens) {
+    const surface = token.surface_form;
+    const prior = previous;
+    previous = token;
+
+    if (!surface.trim().length || token.pos_detail_1 === '空白') {
+      flushKana();
+      continue;
+    }
+
+    if (token.pos === '記号' || isPunctuation(surface)) {
+      flushKana();
+      if (OPENING_PUNCTUATION.includes(surface)) {
+        openPrefix += romanizePunctuation(surface);
+      } else {
+        appendToLast(romanizePunctuation(surface));
+      }
+      continue;
+    }
+
+    const normalized = surface.normalize('NFKC');
+    if (DIGIT_PATTERN.test(normalized)) {
+      flushKana();
+      pushWord(normalized);
+      continue;
+    }
+
+    const kana = tokenKana(token);
+    if (kana === null) {
+      flushKana();
+      pushWord(normalized);
+      continue;
+    }
+
+    if (pendingKana !== null && (attachesToPrevious(token, prior) || pendingKana.endsWith('っ'))) {
+      pendingKana += kana;
+    } else {
+      flushKana();
+      pendingKana = kana;
+    }
+  }
+  flushKana();
+  if (openPrefix) {
+    words.push(openPrefix);
+  }
+
+  return words
+    .filter((word) => word.length)
+    .join(' ')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/** Romanize a hiragana/katakana string (modified Hepburn). */
+export function kanaToRomaji(input: string): string {
+  const kana = katakanaToHiragana(input);
+  const syllables: Syllable[] = [];
+  let geminate = false;
+
+  for (let i = 0; i < kana.length; i += 1) {
+    const char = kana[i];
+    const pair = kana.slice(i, i + 2);
+
+    if (char === 'っ') {
+      geminate = true;
+      continue;
+    }
+
+    if (char === 'ー') {
+      lengthenLast(syllables);
+      continue;
+    }
+
+    let romaji: string | undefined = DIGRAPHS[pair];
+    if (romaji) {
+      i += 1;
+    } else {
+      romaji = MONOGRAPHS[char];
+    }
+
+    if (romaji === undefined) {
+      geminate = false;
+      syllables.push({ romaji: char });
+      continue;
+    }
+
+    const smallVowel = 'ぁぃぅぇぉ'.includes(char);
+    if (smallVowel && syllables.length) {
+      const previous = syllables[syllables.length - 1];
+      if (previous.romaji.endsWith(romaji)) {
+        lengthenLast(syllables);
+        continue;
+      }
+    }
+
+    if (geminate) {
+      romaji = romaji.startsWith('ch') ? `t${romaji}` : `${romaji[0]}${romaji}`;
+      geminate = false;
+    }
+
+    // A bare vowel kana may lengthen the previous syllable (う in とう, あ in かあ).
+    if ('あいうえお'.includes(char) && romaji.length === 1 && shouldLengthen(syllables, romaji)) {
+      lengthenLast(syllables);
+      continue;
+    }
+
+    syllables.push({ romaji });
+  }
+
+  let output = '';
+  syllables.forEach((syllable, idx) => {
+    output += syllable.romaji;
+    const next = syllables[idx + 1];
+    if (syllable.romaji === 'n' && next && /^[aiueoyāīūēō]/.test(next.romaji)) {
+      output += "'";
+    }
+  });
+  return output;
+}
+
+/**
+ * Build Anki furigana markup. Readings are attached to kanji runs only, so
+ * okurigana and kana inside mixed tokens stay outside the brackets.
+ */
+export function buildFurigana(tokens: IpadicFeatures[]): string {
+  let output = '';
+
+  for (const token of tokens) {
+    const surface = token.surface_form;
+    const reading =
+      token.reading && token.reading !== '*' ? katakanaToHiragana(token.reading) : null;
+
+    if (!reading || !KANJI_PATTERN.test(surface)) {
+      output += surface;
+      continue;
+    }
+
+    for (const segment of splitReading(surface, reading)) {
+      if (segment.reading === null) {
+        output += segment.text;
+        continue;
+      }
+      if (output.length && !output.endsWith(' ')) {
+        output += ' ';
+      }
+      output += `${segment.text}[${segment.reading}]`;
+    }
+  }
+
+  return output.trim();
+}
+
+/**
+ * Split furigana markup into ruby segments that spell out `sentence` exactly.
+ * The space buildFurigana puts before each bracketed group is dropped unless
+ * the sentence has one there too. Returns null when the markup was edited
+ * out of step with the sentence.
+ */
+export function parseFurigana(furigana: string, sentence: string): RubySegment[] | null {
+  const segments: RubySegment[] = [];
+  const group = /([^\s[\]]+)\[([^\]]*)\]/y;
+  let position = 0;
+  let plain = '';
+
+  for (let i = 0; i < furigana.length; ) {
+    group.lastIndex = i;
+    const match = group.exec(furigana);
+    if (match) {
+      if (plain) segments.push({ text: plain, reading: null });
+      plain = '';
+      segments.push({ text: match[1], reading: match[2] || null });
+      position += match[1].length;
+      i = group.lastIndex;
+      continue;
+    }
+
+    const char = furigana[i];
+    group.lastIndex = i + 1;
+    const separator = char === ' ' && sentence[position] !== ' ' && group.test(furigana);
+    if (!separator) {
+      plain += char;
+      position += 1;
+    }
+    i += 1;
+  }
+  if (plain) segments.push({ text: plain, reading: null });
+
+  return segments.map((segment) => segment.text).join('') === sentence ? segments : null;
+}
+
+function splitReading(
+  surface: string,
+  reading: string,
+): Array<{ text: string; reading: string | null }> {
+  const runs = surface.match(KANJI_RUN_PATTERN) ?? [];
+  const pattern = runs
+    .map((run) => (KANJI_PATTERN.test(run) ? '(.+?)' : escapeRegExp(katakanaToHiragana(run))))
+    .join('');
+  const match = reading.match(new RegExp(`^${pattern}$`));
+
+  if (!match) {
+    return [{ text: surface, reading }];
+  }
+
+  let group = 1;
+  return runs.map((run) => {
+    if (!KANJI_PATTERN.test(run)) {
+      return { text: run, reading: null };
+    }
+    const runReading = match[group];
+    group += 1;
+    return { text: run, reading: runReading };
+  });
+}
+
+function tokenKana(token: IpadicFeatures): string | null {
+  const surface = token.surface_form;
+  if (token.pos === '助詞') {
+    if (surface === 'は') return 'わ';
+    if (surface === 'へ') return 'え';
+  }
+
+  let kana: string | null = null;
+  if (token.reading && token.reading !== '*') {
+    kana = katakanaToHiragana(token.reading);
+  } else if (KANA_ONLY_PATTERN.test(surface)) {
+    kana = katakanaToHiragana(surface);
+  }
+
+  if (kana && token.pos === '動詞' && kana.endsWith('う')) {
+    kana = `${kana.slice(0, -1)}${PLAIN_U}`;
+  }
+  return kana;
+}
+
+function attachesToPrevious(token: IpadicFeatures, previous: IpadicFeatures | null): boolean {
+  if (!previous || !INFLECTING_POS.includes(previous.pos)) return false;
+  if (token.pos === '助動詞') return !COPULAS.includes(token.basic_form);
+  return (
+    token.pos === '助詞' &&
+    token.pos_detail_1 === '接続助詞' &&
+    ['て', 'で'].includes(token.surface_form)
+  );
+}
+
+function shouldLengthen(syllables: Syllable[], vowel: string): boolean {
+  const previous = syllables[syllables.length - 1];
+  if (!previous || previous.romaji === 'n') return false;
+  const lastVowel = previous.romaji.slice(-1);
+  if (vowel === 'u') return lastVowel === 'o' || lastVowel === 'u';
+  if (vowel === 'o') return lastVowel === 'o';
+  if (vowel === 'a') return lastVowel === 'a';
+  if (vowel === 'e') return lastVowel === 'e';
+  return false;
+}
+
+function lengthenLast(syllables: Syllable[]): void {
+  const previous = syllables[syllables.length - 1];
+  if (!previous) return;
+  const lastVowel = previous.romaji.slice(-1);
+  const macron = MACRONS[lastVowel];
+  if (macron) {
+    previous.romaji = `${previous.romaji.slice(0, -1)}${macron}`;
+  }
+}
+
+function isPunctuation(surface: string): boolean {
+  return [...surface].every((char) => char in PUNCTUATION);
+}
+
+function romanizePunctuation(surface: string): string {
+  return [...surface].map((char) => PUNCTUATION[char] ?? char.normalize('NFKC')).join('');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,188 @@
+/**
+ * Subtitle retiming: every timestamp t becomes t * scale + offsetMs.
+ *
+ * A fixed shift only sets the offset; a framerate change sets the scale
+ * (subtitles timed against a 25 fps PAL release run 25/23.976 too fast for
+ * the 23.976 fps video). `fitTiming` finds both automatically by pairing the
+ * cues of one track with another track that is already in sync.
+ */
+
+import { alignSubtitles, findBestOffset } from './align.js';
+import { msToTimecode, timecodeToMs, type SubtitleEntry } from './subtitles.js';
+
+export interface Timing {
+  scale: number;
+  offsetMs: number;
+}
+
+export interface TimingFit extends Timing {
+  /** One-to-one cue pairs the final fit was computed from. */
+  matched: number;
+  /** Root-mean-square distance (ms) between fitted and reference cue boundaries. */
+  residualMs: number;
+}
+
+export const IDENTITY_TIMING: Timing = { scale: 1, offsetMs: 0 };
+
+/** Common video framerates; NTSC rates are the exact x/1001 values. */
+export const FRAMERATES: Record<string, number> = {
+  '23.976': 24000 / 1001,
+  '24': 24,
+  '25': 25,
+  '29.97': 30000 / 1001,
+  '30': 30,
+};
+
+/** Pairs with a fitted start this far (ms) from the reference are dropped before refitting. */
+const OUTLIER_MS = 1000;
+/** Alignment confidence a cue pair needs to be used by the fit. */
+const MIN_PAIR_CONFIDENCE = 0.5;
+
+/** "25", "23.976" or "24000/1001"; well-known rounded rates map to their exact value. */
+export function parseFramerate(value: string): number {
+  const trimmed = value.trim();
+  if (FRAMERATES[trimmed]) return FRAMERATES[trimmed];
+  const fraction = /^(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/.exec(trimmed);
+  const parsed = fraction ? Number(fraction[1]) / Number(fraction[2]) : Number(trimmed);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`"${value}" is not a framerate.`);
+  }
+  return parsed;
+}
+
+/** Scale for subtitles timed against a `fromFps` release, played with a `toFps` video. */
+export function framerateTiming(fromFps: number, toFps: number): Timing {
+  return { scale: fromFps / toFps, offsetMs: 0 };
+}
+
+/** `first` followed by `second`. */
+export function composeTiming(first: Timing, second: Timing): Timing {
+  return {
+    scale: first.scale * second.scale,
+    offsetMs: first.offsetMs * second.scale + second.offsetMs,
+  };
+}
+
+export function retimeMs(ms: number, timing: Timing): number {
+  return Math.max(0, Math.round(ms * timing.scale + timing.offsetMs));
+}
+
+export function retimeEntries(entries: SubtitleEntry[], timing: Timing): SubtitleEntry[] {
+  return entries.map((entry) => {
+    const startMs = entry.startMs != null ? retimeMs(entry.startMs, timing) : null;
+    const endMs = entry.endMs != null ? retimeMs(entry.endMs, timing) : null;
+    return {
+      ...entry,
+      start: startMs != null ? msToTimecode(startMs) : null,
+      end: endMs != null ? msToTimecode(endMs) : null,
+      startMs,
+      endMs,
+    };
+  });
+}
+
+/**
+ * Rewrite the timing lines of SRT text and leave everything else (cue
+ * numbers, line breaks, styling tags) untouched.
+ */
+export function retimeSrtText(content: string, timing: Timing): string {
+  return content.replace(
+    /^([ \t]*)(\S+)([ \t]*-->[ \t]*)(\S+)(.*)$/gm,
+    (line, indent: string, start: string, arrow: string, end: string, rest: string) => {
+      const startMs = timecodeToMs(start);
+      const endMs = timecodeToMs(end);
+      if (startMs == null || endMs == null) return line;
+      return `${indent}${msToTimecode(retimeMs(startMs, timing))}${arrow}${msToTimecode(retimeMs(endMs, timing))}${rest}`;
+    },
+  );
+}
+
+/**
+ * Linear timing that moves `moving` onto `reference`. Each common framerate
+ * ratio is tried with its best constant offset; cues matched one-to-one under
+ * the winner then feed a least-squares fit, refitted once without outliers.
+ */
+export function fitTiming(
+  reference: SubtitleEntry[],
+  moving: SubtitleEntry[],
+  maxOffsetMs?: number,
+): TimingFit {
+  const coarse = candidateScales()
+    .map((scale) => {
+      const { offsetMs, overlapMs } = findBestOffset(
+        reference,
+        retimeEntries(moving, { scale, offsetMs: 0 }),
+        maxOffsetMs,
+      );
+      return { scale, offsetMs, overlapMs };
+    })
+    .reduce((best, candidate) => (candidate.overlapMs > best.overlapMs ? candidate : best));
+
+  const coarseTiming: Timing = { scale: coarse.scale, offsetMs: coarse.offsetMs };
+  const shifted = retimeEntries(moving, coarseTiming);
+  const original = new Map(moving.map((entry) => [entry.index, entry]));
+  const aligned = alignSubtitles(reference, shifted, { offsetMs: 0 });
+
+  const pairs: Array<[number, number]> = [];
+  aligned.cues.forEach((cue) => {
+    if (cue.english.length !== 1 || cue.shared || cue.confidence < MIN_PAIR_CONFIDENCE) return;
+    const source = original.get(cue.english[0].index);
+    if (source?.startMs == null || source.endMs == null) return;
+    if (cue.japanese.startMs == null || cue.japanese.endMs == null) return;
+    pairs.push([source.startMs, cue.japanese.startMs], [source.endMs, cue.japanese.endMs]);
+  });
+
+  // Too few clean pairs for a regression; the coarse search is the best answer.
+  if (pairs.length < 4) {
+    return { ...coarseTiming, matched: pairs.length / 2, residualMs: residual(pairs, coarseTiming) };
+  }
+
+  let fit = leastSquares(pairs);
+  const inliers = pairs.filter(([x, y]) => Math.abs(x * fit.scale + fit.offsetMs - y) <= OUTLIER_MS);
+  if (inliers.length >= 4 && inliers.length < pairs.length) {
+    fit = leastSquares(inliers);
+  }
+  const used = inliers.length >= 4 ? inliers : pairs;
+  return { ...fit, matched: used.length / 2, residualMs: residual(used, fit) };
+}
+
+/** Closest "from -> to fps" description for a scale, if it matches a common conversion. */
+export function describeScale(scale: number): string | null {
+  const names = Object.keys(FRAMERATES);
+  for (const from of names) {
+    for (const to of names) {
+      if (from === to) continue;
+      const ratio = FRAMERATES[from] / FRAMERATES[to];
+      if (Math.abs(scale / ratio - 1) < 0.0005) return `${from} -> ${to} fps`;
+    }
+  }
+  return null;
+}
+
+function candidateScales(): number[] {
+  const rates = Object.values(FRAMERATES);
+  const scales = new Set<number>([1]);
+  rates.forEach((from) => rates.forEach((to) => scales.add(from / to)));
+  // 24 <-> 30 style conversions are pulldown, not speed changes; keep the plausible ones.
+  return Array.from(scales).filter((scale) => Math.abs(scale - 1) < 0.05);
+}
+
+function leastSquares(pairs: Array<[number, number]>): Timing {
+  const n = pairs.length;
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  pairs.forEach(([x, y]) => {
+    covariance += (x - meanX) * (y - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  const scale = variance ? covariance / variance : 1;
+  return { scale, offsetMs: Math.round(meanY - scale * meanX) };
+}
+
+function residual(pairs: Array<[number, number]>, timing: Timing): number {
+  if (!pairs.length) return 0;
+  const squared = pairs.reduce((sum, [x, y]) => sum + (x * timing.scale + timing.offsetMs - y) ** 2, 0);
+  return Math.round(Math.sqrt(squared / pairs.length));
+}
@@ -0,0 +1,182 @@
+/**
+ * Card review backend for reviewServer.ts: finds the episodes under a
+ * subtitles folder and applies hand edits (translation, speaker, token
+ * meanings) to a cards file and its translation cache.
+ *
+ * Edited translations go into the cache through registerGeneratedTranslation
+ * and writeTranslationCache, so they are merged like provider output and win
+ * over older entries on the next enrichment run.
+ */
+
+import { existsSync, readdirSync, statSync } from 'node:fs';
+import { basename, dirname, extname, relative, resolve } from 'node:path';
+import { readCardsFile, writeCardsFile, type CardRecord, type TokenBreakdown } from './cards.js';
+import {
+  loadTranslationHints,
+  MANUAL_SOURCE,
+  recordCardTranslation,
+  registerGeneratedTranslation,
+  writeTranslationCache,
+} from './translations.js';
+
+export interface ReviewEpisode {
+  /** "<Show>/<episode>/<name>", unique within the root folder. */
+  key: string;
+  show: string;
+  episode: string;
+  cardsPath: string;
+  translationsPath: string;
+}
+
+export interface CardEdit {
+  translation?: string;
+  speaker?: string | null;
+  /** Token meanings keyed by position, "3" or "3.1" for the second part of token 3. */
+  meanings?: Record<string, string[] | null>;
+}
+
+export function findReviewEpisodes(rootDir: string): ReviewEpisode[] {
+  if (!existsSync(rootDir)) return [];
+  const found: ReviewEpisode[] = [];
+  readdirSync(rootDir, { withFileTypes: true }).forEach((entry) => {
+    const path = resolve(rootDir, entry.name);
+    if (entry.isDirectory()) {
+      found.push(...findReviewEpisodes(path));
+    } else if (basename(rootDir).toLowerCase() === 'cards' && entry.name.endsWith('.cards.json')) {
+      const name = entry.name.replace(/\.cards\.json$/, '');
+      const episodeDir = dirname(rootDir);
+      found.push({
+        key: '',
+        show: basename(dirname(episodeDir)),
+        episode: basename(episodeDir),
+        cardsPath: path,
+        translationsPath: resolve(rootDir, `${name}.translations.json`),
+      });
+    }
+  });
+  return found
+    .map((episode) => ({
+      ...episode,
+      key: `${episode.show}/${episode.episode}/${basename(episode.cardsPath, '.cards.json')}`,
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** An edit that cannot be applied; `status` is the HTTP status the server answers with. */
+export class CardEditError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404,
+  ) {
+    super(message);
+    this.name = 'CardEditError';
+  }
+}
+
+/** Content types of the media files the review UI serves; other files are never sent. */
+export const MEDIA_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/** Validate an edit payload from the browser. */
+export function parseCardEdit(payload: unknown): CardEdit {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new Error('Expected a JSON object.');
+  }
+  const raw = payload as Record<string, unknown>;
+  const edit: CardEdit = {};
+
+  if ('translation' in raw) {
+    if (typeof raw.translation !== 'string') throw new Error('"translation" must be a string.');
+    edit.translation = raw.translation.trim();
+  }
+  if ('speaker' in raw) {
+    if (raw.speaker !== null && typeof raw.speaker !== 'string') {
+      throw new Error('"speaker" must be a string or null.');
+    }
+    edit.speaker = raw.speaker?.trim() || null;
+  }
+  if ('meanings' in raw) {
+    const meanings = raw.meanings;
+    if (!meanings || typeof meanings !== 'object' || Array.isArray(meanings)) {
+      throw new Error('"meanings" must map token positions to lists of meanings.');
+    }
+    edit.meanings = {};
+    Object.entries(meanings).forEach(([position, value]) => {
+      if (value !== null && !(Array.isArray(value) && value.every((item) => typeof item === 'string'))) {
+        throw new Error(`Meanings for token ${position} must be a list of strings or null.`);
+      }
+      const cleaned = (value ?? []).map((item: string) => item.trim()).filter(Boolean);
+      edit.meanings![position] = cleaned.length ? cleaned : null;
+    });
+  }
+  return edit;
+}
+
+/** Apply an edit to one card of an episode and save the cards file (and the cache, for translations). */
+export function saveCardEdit(episode: ReviewEpisode, cardId: number, edit: CardEdit): CardRecord {
+  const cards = readCardsFile(episode.cardsPath);
+  const index = cards.findIndex((card) => card.id === cardId);
+  if (index === -1) {
+    throw new CardEditError(`Card ${cardId} not found in ${episode.key}.`, 404);
+  }
+
+  const card: CardRecord = { ...cards[index] };
+  if (edit.speaker !== undefined) card.speaker = edit.speaker;
+  if (edit.meanings) {
+    card.tokens = applyMeanings(card.tokens ?? [], edit.meanings);
+  }
+  const translationChanged = edit.translation !== undefined && edit.translation !== (card.translation ?? '');
+  const origin = { at: new Date().toISOString() };
+  if (translationChanged) {
+    recordCardTranslation(card, edit.translation ?? '', MANUAL_SOURCE, origin);
+    delete card.qaFlags;
+  }
+
+  cards[index] = card;
+  writeCardsFile(episode.cardsPath, cards);
+
+  if (translationChanged && edit.translation) {
+    const translations = loadTranslationHints(
+      existsSync(episode.translationsPath) ? episode.translationsPath : null,
+    );
+    registerGeneratedTranslation(translations, card, edit.translation, { source: MANUAL_SOURCE, ...origin });
+    writeTranslationCache(translations, episode.translationsPath);
+  }
+  return card;
+}
+
+/**
+ * Absolute path of a card's media file, or null if it would leave the
+ * episode folder, is not a regular file or is not audio or an image.
+ */
+export function resolveMediaPath(episode: ReviewEpisode, file: string): string | null {
+  const episodeDir = dirname(dirname(episode.cardsPath));
+  const path = resolve(dirname(episode.cardsPath), file);
+  const inside = relative(episodeDir, path);
+  if (!inside || inside.startsWith('..') || resolve(episodeDir, inside) !== path) return null;
+  if (!(extname(path).toLowerCase() in MEDIA_TYPES)) return null;
+  return existsSync(path) && statSync(path).isFile() ? path : null;
+}
+
+function applyMeanings(tokens: TokenBreakdown[], meanings: Record<string, string[] | null>): TokenBreakdown[] {
+  const updated = tokens.map((token) =>
+    token.parts ? { ...token, parts: token.parts.map((part) => ({ ...part })) } : { ...token },
+  );
+  Object.entries(meanings).forEach(([position, value]) => {
+    const [tokenIndex, partIndex] = position.split('.').map(Number);
+    const token = updated[tokenIndex];
+    const target = partIndex != null && !Number.isNaN(partIndex) ? token?.parts?.[partIndex] : token;
+    if (!target) throw new CardEditError(`No token at position ${position}.`, 400);
+    target.meanings = value;
+    target.meaningsEdited = true;
+  });
+  return updated;
+}
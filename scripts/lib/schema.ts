@@ -0,0 +1,684 @@
+/**
+ * Versioned file formats for cards, translation caches and dictionaries.
+ *
+ * Every JSON data file the scripts write is an envelope:
+ *   { "schemaVersion": 1, "kind": "cards", "cards": [...] }
+ *   { "schemaVersion": 1, "kind": "translations", "entries": [...] }
+ *   { "schemaVersion": 1, "kind": "dictionary", "entries": [...] }
+ *   { "schemaVersion": 1, "kind": "glossary", "entries": [...] }
+ * Files from before versioning (bare arrays, a single dictionary entry, or
+ * translations keyed by id) count as version 0 and are migrated when read.
+ *
+ * Validation reports issues by JSON path; `readDataFile` maps those paths
+ * back to line numbers so messages read "file:line: error: ...".
+ */
+
+import { readFileSync } from 'node:fs';
+
+export type DataKind = 'cards' | 'translations' | 'dictionary' | 'glossary';
+
+export const SCHEMA_VERSIONS: Record<DataKind, number> = {
+  cards: 1,
+  translations: 1,
+  dictionary: 1,
+  glossary: 1,
+};
+
+/** Envelope property holding the items of each kind. */
+const ITEMS_KEY: Record<DataKind, string> = {
+  cards: 'cards',
+  translations: 'entries',
+  dictionary: 'entries',
+  glossary: 'entries',
+};
+
+export interface SchemaIssue {
+  severity: 'error' | 'warning';
+  /** JSON path in the source file, e.g. "cards[12].tokens[0].lemma". */
+  path: string;
+  message: string;
+}
+
+export interface DataFile {
+  kind: DataKind;
+  /** Version the file was written with; 0 for unversioned files. */
+  version: number;
+  items: unknown[];
+  issues: SchemaIssue[];
+  /** 1-based line of each JSON path in the source text. */
+  lines: Map<string, number>;
+}
+
+type ValueType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'array' | 'object';
+
+interface FieldSpec {
+  type: ValueType[];
+  required?: boolean;
+  /** Element type (or object schema) for arrays. */
+  items?: ValueType | ObjectSchema;
+  /** Allowed string values. */
+  values?: string[];
+  /** Schema for object values. */
+  fields?: ObjectSchema;
+}
+
+type ObjectSchema = Record<string, FieldSpec>;
+
+const TIMECODE = /^\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}$/;
+
+const TOKEN_SCHEMA: ObjectSchema = {
+  surface: { type: ['string'], required: true },
+  lemma: { type: ['string'], required: true },
+  reading: { type: ['string', 'null'] },
+  pos: { type: ['string'], required: true },
+  meanings: { type: ['array', 'null'], items: 'string' },
+  meaningsEdited: { type: ['boolean'] },
+  entryId: { type: ['integer', 'null'] },
+  conjugation: { type: ['string', 'null'] },
+  pitchAccent: {
+    type: ['object', 'null'],
+    fields: {
+      reading: { type: ['string'], required: true },
+      pattern: { type: ['integer'], required: true },
+      type: { type: ['string'], required: true, values: ['heiban', 'atamadaka', 'nakadaka', 'odaka'] },
+      alternatives: { type: ['array'], items: 'integer' },
+    },
+  },
+  jlpt: { type: ['integer', 'null'] },
+  frequencyRank: { type: ['integer', 'null'] },
+};
+TOKEN_SCHEMA.parts = { type: ['array'], items: TOKEN_SCHEMA };
+
+const ORIGIN_FIELDS: ObjectSchema = {
+  provider: { type: ['string', 'null'] },
+  formality: { type: ['string', 'null'] },
+  glossaryId: { type: ['string', 'null'] },
+  model: { type: ['string', 'null'] },
+  at: { type: ['string'] },
+};
+
+const REVISION_SCHEMA: ObjectSchema = {
+  translation: { type: ['string'], required: true },
+  source: { type: ['string'], required: true },
+  ...ORIGIN_FIELDS,
+};
+
+const KANJI_SCHEMA: ObjectSchema = {
+  character: { type: ['string'], required: true },
+  meanings: { type: ['array'], items: 'string' },
+  onyomi: { type: ['array'], items: 'string' },
+  kunyomi: { type: ['array'], items: 'string' },
+  strokes: { type: ['integer', 'null'] },
+  jlpt: { type: ['integer', 'null'] },
+  frequencyRank: { type: ['integer', 'null'] },
+};
+
+const CARD_SCHEMA: ObjectSchema = {
+  id: { type: ['integer'], required: true },
+  subtitleId: { type: ['integer', 'string', 'null'] },
+  sentence: { type: ['string', 'null'] },
+  speaker: { type: ['string', 'null'] },
+  nonSpeech: { type: ['string', 'null'], values: ['sfx', 'breathing', 'music'] },
+  translation: { type: ['string', 'null'] },
+  translationSource: { type: ['string', 'null'] },
+  translationProvenance: { type: ['object'], fields: ORIGIN_FIELDS },
+  translationHistory: { type: ['array'], items: REVISION_SCHEMA },
+  romaji: { type: ['string'] },
+  furigana: { type: ['string'] },
+  startTime: { type: ['string', 'null'] },
+  endTime: { type: ['string', 'null'] },
+  startMs: { type: ['number', 'null'] },
+  endMs: { type: ['number', 'null'] },
+  tokens: { type: ['array'], items: TOKEN_SCHEMA },
+  audioFile: { type: ['string', 'null'] },
+  imageFile: { type: ['string', 'null'] },
+  unknownCount: { type: ['integer', 'null'] },
+  unknownLemmas: { type: ['array'], items: 'string' },
+  tags: { type: ['array'], items: 'string' },
+  mergedSubtitleIds: { type: ['array'] },
+  needsEnrichment: { type: ['boolean'] },
+  qaFlags: { type: ['array'], items: 'string' },
+  kanji: { type: ['array'], items: KANJI_SCHEMA },
+  difficulty: { type: ['number', 'null'] },
+};
+
+const TRANSLATION_SCHEMA: ObjectSchema = {
+  id: { type: ['integer', 'string', 'null'] },
+  subtitleId: { type: ['integer', 'string', 'null'] },
+  sentence: { type: ['string', 'null'] },
+  translation: { type: ['string'], required: true },
+  confidence: { type: ['number'] },
+  source: { type: ['string'] },
+  ...ORIGIN_FIELDS,
+  history: { type: ['array'], items: REVISION_SCHEMA },
+};
+
+const DICTIONARY_SCHEMA: ObjectSchema = {
+  lemma: { type: ['string'], required: true },
+  reading: { type: ['string'] },
+  pos: { type: ['string'] },
+  meanings: { type: ['array'], items: 'string' },
+};
+
+const GLOSSARY_SCHEMA: ObjectSchema = {
+  term: { type: ['string'], required: true },
+  translation: { type: ['string'], required: true },
+  reading: { type: ['string', 'null'] },
+  kind: { type: ['string'], values: ['name', 'term'] },
+  variants: { type: ['array'], items: 'string' },
+};
+
+const ITEM_SCHEMAS: Record<DataKind, ObjectSchema> = {
+  cards: CARD_SCHEMA,
+  translations: TRANSLATION_SCHEMA,
+  dictionary: DICTIONARY_SCHEMA,
+  glossary: GLOSSARY_SCHEMA,
+};
+
+/** Kind from the envelope, else from the file name (x.cards.json, x.translations.json, ...). */
+export function detectKind(path: string, raw: unknown): DataKind | null {
+  if (isObject(raw) && typeof raw.kind === 'string' && raw.kind in SCHEMA_VERSIONS) {
+    return raw.kind as DataKind;
+  }
+  if (/\.cards\.json$/i.test(path)) return 'cards';
+  if (/\.(translations|aligned)\.json$/i.test(path)) return 'translations';
+  if (/(^|[\\/._-])dict(ionary)?\.json$/i.test(path)) return 'dictionary';
+  if (/(^|[\\/._-])glossary\.json$/i.test(path)) return 'glossary';
+  return null;
+}
+
+/**
+ * Parse, migrate and validate a data file. Throws only for unreadable JSON,
+ * a different kind, or a version newer than this code understands; schema
+ * problems come back as issues.
+ */
+export function readDataFile(path: string, expected: DataKind | null = null): DataFile {
+  const text = readFileSync(path, 'utf8').replace(/^\uFEFF/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : String(error)).replace(/\s+/g, ' ');
+    const { errorLine: line } = scanJson(text);
+    throw new Error(`${path}${line ? `:${line}` : ''}: invalid JSON: ${message}`);
+  }
+
+  const kind = expected ?? detectKind(path, raw);
+  if (!kind) {
+    throw new Error(
+      `${path}: cannot tell whether this is a cards, translations, dictionary or glossary file.`,
+    );
+  }
+  if (isObject(raw) && typeof raw.kind === 'string' && raw.kind !== kind) {
+    throw new Error(`${path}: expected a ${kind} file but found kind "${raw.kind}".`);
+  }
+
+  const migrated = migrateDocument(kind, raw);
+  if (migrated.version > SCHEMA_VERSIONS[kind]) {
+    throw new Error(
+      `${path}: written with ${kind} schema version ${migrated.version}, but this version of the scripts only reads up to ${SCHEMA_VERSIONS[kind]}.`,
+    );
+  }
+
+  return {
+    kind,
+    version: migrated.version,
+    items: migrated.items,
+    issues: [...migrated.issues, ...validateItems(kind, migrated.items, migrated.itemPaths)],
+    lines: scanJson(text).lines,
+  };
+}
+
+/** Items of a data file, failing with file:line context when the schema check finds errors. */
+export function loadDataFile<T>(path: string, kind: DataKind): T[] {
+  const file = readDataFile(path, kind);
+  const errors = file.issues.filter((issue) => issue.severity === 'error');
+  if (errors.length) {
+    const shown = errors.slice(0, 10).map((issue) => `  ${formatIssue(path, issue, file.lines)}`);
+    const more =
+      errors.length > shown.length ? [`  ... and ${errors.length - shown.length} more`] : [];
+    throw new Error(
+      [
+        `${path} does not match the ${kind} schema:`,
+        ...shown,
+        ...more,
+        'Run scripts/validateData.ts for a full report.',
+      ].join('\n'),
+    );
+  }
+  return file.items as T[];
+}
+
+/** Current-version envelope, as written to disk. */
+export function serializeDataFile(kind: DataKind, items: unknown[]): string {
+  const envelope = { schemaVersion: SCHEMA_VERSIONS[kind], kind, [ITEMS_KEY[kind]]: items };
+  return JSON.stringify(envelope, null, 2);
+}
+
+export function formatIssue(path: string, issue: SchemaIssue, lines: Map<string, number>): string {
+  const line = lineForPath(lines, issue.path);
+  const where = issue.path ? ` (${issue.path})` : '';
+  return `${path}${line ? `:${line}` : ''}: ${issue.severity}: ${issue.message}${where}`;
+}
+
+interface MigratedDocument {
+  version: number;
+  items: unknown[];
+  /** Source JSON path of each item, for line lookups. */
+  itemPaths: string[];
+  issues: SchemaIssue[];
+}
+
+function migrateDocument(kind: DataKind, raw: unknown): MigratedDocument {
+  const issues: SchemaIssue[] = [];
+
+  if (isObject(raw) && 'schemaVersion' in raw) {
+    const version = raw.schemaVersion;
+    const key = ITEMS_KEY[kind];
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      issues.push({
+        severity: 'error',
+        path: 'schemaVersion',
+        message: 'schemaVersion must be a positive integer',
+      });
+    }
+    const items = raw[key];
+    if (!Array.isArray(items)) {
+      issues.push({ severity: 'error', path: key, message: `"${key}" must be an array` });
+      return { version: Number(version) || 0, items: [], itemPaths: [], issues };
+    }
+    return {
+      version: Number(version) || 0,
+      items,
+      itemPaths: items.map((_, idx) => `${key}[${idx}]`),
+      issues,
+    };
+  }
+
+  // Version 0: bare arrays for every kind.
+  if (Array.isArray(raw)) {
+    return { version: 0, items: raw, itemPaths: raw.map((_, idx) => `[${idx}]`), issues };
+  }
+
+  // Version 0 translations could also be { "<id>": "text" } or { "<id>": { ...entry } }.
+  if (kind === 'translations' && isObject(raw)) {
+    const items: unknown[] = [];
+    const itemPaths: string[] = [];
+    Object.entries(raw).forEach(([key, value]) => {
+      if (typeof value === 'string') {
+        items.push({ id: key, subtitleId: null, sentence: null, translation: value });
+      } else if (isObject(value)) {
+        items.push({ id: key, ...value });
+      } else {
+        issues.push({
+          severity: 'error',
+          path: key,
+          message: 'expected a translation string or entry object',
+        });
+        return;
+      }
+      itemPaths.push(key);
+    });
+    return { version: 0, items, itemPaths, issues };
+  }
+
+  // Version 0 dictionaries could be a single entry object.
+  if (kind === 'dictionary' && isObject(raw)) {
+    return { version: 0, items: [raw], itemPaths: [''], issues };
+  }
+
+  issues.push({ severity: 'error', path: '', message: `expected a ${kind} envelope or array` });
+  return { version: 0, items: [], itemPaths: [], issues };
+}
+
+function validateItems(kind: DataKind, items: unknown[], itemPaths: string[]): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  items.forEach((item, idx) => validateObject(item, ITEM_SCHEMAS[kind], itemPaths[idx], issues));
+
+  switch (kind) {
+    case 'cards':
+      checkCards(items, itemPaths, issues);
+      break;
+    case 'translations':
+      checkTranslations(items, itemPaths, issues);
+      break;
+    case 'dictionary':
+      checkDictionary(items, itemPaths, issues);
+      break;
+    case 'glossary':
+      checkGlossary(items, itemPaths, issues);
+      break;
+    default:
+      break;
+  }
+  return issues;
+}
+
+function validateObject(
+  value: unknown,
+  schema: ObjectSchema,
+  path: string,
+  issues: SchemaIssue[],
+): void {
+  if (!isObject(value)) {
+    issues.push({ severity: 'error', path, message: `expected an object, got ${typeOf(value)}` });
+    return;
+  }
+  Object.entries(schema).forEach(([key, spec]) => {
+    const fieldPath = joinPath(path, key);
+    if (!(key in value) || value[key] === undefined) {
+      if (spec.required)
+        issues.push({ severity: 'error', path: fieldPath, message: `missing required "${key}"` });
+      return;
+    }
+    validateValue(value[key], spec, fieldPath, issues);
+  });
+}
+
+function validateValue(value: unknown, spec: FieldSpec, path: string, issues: SchemaIssue[]): void {
+  if (!spec.type.some((type) => matchesType(value, type))) {
+    issues.push({
+      severity: 'error',
+      path,
+      message: `expected ${spec.type.join(' or ')}, got ${typeOf(value)}`,
+    });
+    return;
+  }
+  if (spec.values && typeof value === 'string' && !spec.values.includes(value)) {
+    issues.push({
+      severity: 'error',
+      path,
+      message: `expected one of ${spec.values.join(', ')}, got "${value}"`,
+    });
+  }
+  if (isObject(value) && spec.fields) {
+    validateObject(value, spec.fields, path, issues);
+  }
+  if (Array.isArray(value) && spec.items) {
+    const { items } = spec;
+    value.forEach((element, idx) => {
+      const elementPath = `${path}[${idx}]`;
+      if (typeof items === 'string') {
+        if (!matchesType(element, items)) {
+          issues.push({
+            severity: 'error',
+            path: elementPath,
+            message: `expected ${items}, got ${typeOf(element)}`,
+          });
+        }
+      } else {
+        validateObject(element, items, elementPath, issues);
+      }
+    });
+  }
+}
+
+function checkCards(items: unknown[], itemPaths: string[], issues: SchemaIssue[]): void {
+  const seenIds = new Map<unknown, string>();
+  items.forEach((item, idx) => {
+    if (!isObject(item)) return;
+    const path = itemPaths[idx];
+    if (item.id != null) {
+      const previous = seenIds.get(item.id);
+      if (previous) {
+        issues.push({
+          severity: 'error',
+          path: joinPath(path, 'id'),
+          message: `duplicate card id ${item.id} (also at ${previous})`,
+        });
+      } else {
+        seenIds.set(item.id, path);
+      }
+    }
+    ['startTime', 'endTime'].forEach((field) => {
+      const value = item[field];
+      if (typeof value === 'string' && !TIMECODE.test(value)) {
+        issues.push({
+          severity: 'warning',
+          path: joinPath(path, field),
+          message: `"${value}" is not an HH:MM:SS,mmm timecode`,
+        });
+      }
+    });
+    if (
+      typeof item.startMs === 'number' &&
+      typeof item.endMs === 'number' &&
+      item.endMs < item.startMs
+    ) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, 'endMs'),
+        message: 'endMs is before startMs',
+      });
+    }
+    if (!item.nonSpeech && typeof item.sentence === 'string' && !item.sentence.trim().length) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, 'sentence'),
+        message: 'speech card with an empty sentence',
+      });
+    }
+  });
+}
+
+function checkTranslations(items: unknown[], itemPaths: string[], issues: SchemaIssue[]): void {
+  items.forEach((item, idx) => {
+    if (!isObject(item)) return;
+    const path = itemPaths[idx];
+    const hasKey =
+      item.id != null ||
+      item.subtitleId != null ||
+      (typeof item.sentence === 'string' && item.sentence.trim());
+    if (!hasKey) {
+      issues.push({
+        severity: 'error',
+        path,
+        message: 'entry has no id, subtitleId or sentence to match on',
+      });
+    } else if (!(typeof item.sentence === 'string' && item.sentence.trim())) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, 'sentence'),
+        message:
+          'no sentence; the entry only matches by id, so it goes stale if cues are renumbered',
+      });
+    }
+    if (typeof item.translation === 'string' && !item.translation.trim()) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, 'translation'),
+        message: 'empty translation is ignored',
+      });
+    }
+    if (typeof item.confidence === 'number' && (item.confidence < 0 || item.confidence > 1)) {
+      issues.push({
+        severity: 'error',
+        path: joinPath(path, 'confidence'),
+        message: 'confidence must be between 0 and 1',
+      });
+    }
+  });
+}
+
+function checkDictionary(items: unknown[], itemPaths: string[], issues: SchemaIssue[]): void {
+  const seen = new Set<string>();
+  items.forEach((item, idx) => {
+    if (!isObject(item) || typeof item.lemma !== 'string') return;
+    const path = itemPaths[idx];
+    if (seen.has(item.lemma)) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, 'lemma'),
+        message: `duplicate lemma "${item.lemma}"; the last one wins`,
+      });
+    }
+    seen.add(item.lemma);
+    if (!Array.isArray(item.meanings) || !item.meanings.length) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, 'meanings'),
+        message: 'entry has no meanings and is never used',
+      });
+    }
+  });
+}
+
+function checkGlossary(items: unknown[], itemPaths: string[], issues: SchemaIssue[]): void {
+  const seen = new Set<string>();
+  items.forEach((item, idx) => {
+    if (!isObject(item)) return;
+    const path = itemPaths[idx];
+    (['term', 'translation'] as const).forEach((field) => {
+      const value = item[field];
+      if (typeof value === 'string' && !value.trim()) {
+        issues.push({ severity: 'error', path: joinPath(path, field), message: `empty ${field}` });
+      }
+    });
+    if (typeof item.term !== 'string') return;
+    const term = item.term.trim();
+    if (seen.has(term)) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, 'term'),
+        message: `duplicate term "${term}"; the last one wins`,
+      });
+    }
+    seen.add(term);
+  });
+}
+
+function matchesType(value: unknown, type: ValueType): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/** Closest located ancestor: "cards[3].tokens[9].lemma" falls back to "cards[3].tokens[9]", ... */
+function lineForPath(lines: Map<string, number>, path: string): number | null {
+  let current = path;
+  for (;;) {
+    const line = lines.get(current);
+    if (line) return line;
+    if (!current) return null;
+    current = current.replace(/(\.[^.[\]]+|\[\d+\]|^[^.[\]]+)$/, '');
+  }
+}
+
+/**
+ * Line of every value in a JSON text, keyed by the same paths validation
+ * reports, plus the line of the first syntax error (JSON.parse messages do
+ * not always carry a position).
+ */
+function scanJson(text: string): { lines: Map<string, number>; errorLine: number | null } {
+  const lines = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+  const invalid = new Error('invalid JSON');
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === '\n') line += 1;
+      pos += 1;
+    }
+  };
+
+  const expect = (char: string): void => {
+    skipWhitespace();
+    if (text[pos] !== char) throw invalid;
+    pos += 1;
+  };
+
+  const readString = (): string => {
+    skipWhitespace();
+    const start = pos;
+    if (text[pos] !== '"') throw invalid;
+    pos += 1;
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\n') throw invalid;
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    if (pos >= text.length) throw invalid;
+    pos += 1;
+    return JSON.parse(text.slice(start, pos)) as string;
+  };
+
+  const readValue = (path: string): void => {
+    skipWhitespace();
+    lines.set(path, line);
+    const char = text[pos];
+    if (char === '{') {
+      pos += 1;
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos += 1;
+        return;
+      }
+      for (;;) {
+        const key = readString();
+        expect(':');
+        readValue(joinPath(path, key));
+        skipWhitespace();
+        if (text[pos] === '}') break;
+        expect(',');
+      }
+      pos += 1;
+    } else if (char === '[') {
+      pos += 1;
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos += 1;
+        return;
+      }
+      for (let index = 0; ; index += 1) {
+        readValue(`${path}[${index}]`);
+        skipWhitespace();
+        if (text[pos] === ']') break;
+        expect(',');
+      }
+      pos += 1;
+    } else if (char === '"') {
+      readString();
+    } else {
+      const literal = /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)/.exec(
+        text.slice(pos, pos + 64),
+      );
+      if (!literal) throw invalid;
+      pos += literal[0].length;
+    }
+  };
+
+  try {
+    readValue('');
+    skipWhitespace();
+    if (pos < text.length) throw invalid;
+    return { lines, errorLine: null };
+  } catch (error) {
+    if (error !== invalid) throw error;
+    return { lines, errorLine: line };
+  }
+}
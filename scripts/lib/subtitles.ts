@@ -0,0 +1,276 @@
+/**
+ * Subtitle parsing helpers shared by the CLI scripts.
+ *
+ * SRT, WebVTT and ASS/SSA input all produce the same SubtitleEntry shape;
+ * `start`/`end` are normalized to the SRT "HH:MM:SS,mmm" form.
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa'];
+
+export interface SubtitleEntry {
+  index: number;
+  rawId: number;
+  start: string | null;
+  end: string | null;
+  startMs: number | null;
+  endMs: number | null;
+  text: string;
+}
+
+export function parseSrt(content: string): SubtitleEntry[] {
+  const normalized = content.replace(/\r\n/g, '\n').replace(/\uFEFF/g, '');
+  const blocks = normalized.split(/\n{2,}/);
+  const entries: SubtitleEntry[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const meaningfulStart = lines.findIndex((line) => line.trim().length > 0);
+    if (meaningfulStart === -1) continue;
+
+    let cursor = meaningfulStart;
+    let rawId: number;
+
+    // Some tools drop the cue numbers; number those cues after the previous one.
+    if (/^\d+$/.test(lines[cursor].trim())) {
+      rawId = Number.parseInt(lines[cursor].trim(), 10);
+      cursor += 1;
+    } else {
+      rawId = (entries[entries.length - 1]?.rawId ?? 0) + 1;
+    }
+
+    let start: string | null = null;
+    let end: string | null = null;
+
+    if (cursor < lines.length && lines[cursor].includes('-->')) {
+      const [startRaw, endRaw] = lines[cursor]
+        .split('-->')
+        .map((part) => part.trim());
+      start = startRaw || null;
+      end = endRaw || null;
+      cursor += 1;
+    }
+
+    const textLines = lines
+      .slice(cursor)
+      .map((line) => line.replace(/\r/g, '').trim())
+      .filter(Boolean);
+
+    if (!textLines.length) continue;
+
+    const text = textLines.join(' ');
+    entries.push({
+      index: entries.length + 1,
+      rawId,
+      start,
+      end,
+      startMs: timecodeToMs(start),
+      endMs: timecodeToMs(end),
+      text,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Accepts SRT ("00:01:02,345"), WebVTT ("00:01:02.345" or "01:02.345") and
+ * ASS ("0:01:02.34", centiseconds) timecodes.
+ */
+export function timecodeToMs(timecode: string | null): number | null {
+  if (!timecode) return null;
+  const match = timecode.match(/(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/);
+  if (!match) return null;
+  const [, hh, mm, ss, fraction] = match;
+  return (
+    Number(hh ?? 0) * 3600 * 1000 +
+    Number(mm) * 60 * 1000 +
+    Number(ss) * 1000 +
+    Number(fraction.padEnd(3, '0'))
+  );
+}
+
+export function msToTimecode(ms: number): string {
+  const safe = Math.max(0, Math.round(ms));
+  const hours = Math.floor(safe / 3_600_000);
+  const minutes = Math.floor((safe % 3_600_000) / 60_000);
+  const seconds = Math.floor((safe % 60_000) / 1000);
+  const millis = safe % 1000;
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)},${pad(millis, 3)}`;
+}
+
+/** SRT text for parsed entries; cue numbers keep the source ids so caches keyed on them still match. */
+export function formatSrt(entries: SubtitleEntry[]): string {
+  const blocks = entries
+    .filter((entry) => entry.startMs != null && entry.endMs != null)
+    .map(
+      (entry) =>
+        `${entry.rawId}\n${msToTimecode(entry.startMs as number)} --> ${msToTimecode(entry.endMs as number)}\n${entry.text}`,
+    );
+  return `${blocks.join('\n\n')}\n`;
+}
+
+export function detectSubtitleFormat(path: string | null, content: string): SubtitleFormat {
+  const extension = path ? extname(path).toLowerCase() : '';
+  if (extension === '.vtt') return 'vtt';
+  if (extension === '.ass' || extension === '.ssa') return 'ass';
+  if (extension === '.srt') return 'srt';
+
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[(Script Info|Events|V4\+? Styles)\]/im.test(head)) return 'ass';
+  return 'srt';
+}
+
+export function parseSubtitles(content: string, format: SubtitleFormat): SubtitleEntry[] {
+  switch (format) {
+    case 'vtt':
+      return parseVtt(content);
+    case 'ass':
+      return parseAss(content);
+    default:
+      return parseSrt(content);
+  }
+}
+
+export function parseSubtitleFile(path: string): SubtitleEntry[] {
+  const content = readFileSync(path, 'utf8');
+  return parseSubtitles(content, detectSubtitleFormat(path, content));
+}
+
+export function parseVtt(content: string): SubtitleEntry[] {
+  const normalized = content.replace(/\r\n?/g, '\n').replace(/\uFEFF/g, '');
+  const blocks = normalized.split(/\n{2,}/);
+  const entries: SubtitleEntry[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim().length);
+    if (!lines.length) continue;
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const identifier = timingIndex === 1 ? lines[0].trim() : null;
+    const numericId = identifier ? Number.parseInt(identifier, 10) : Number.NaN;
+    const [startRaw, rest = ''] = lines[timingIndex].split('-->').map((part) => part.trim());
+    const endRaw = rest.split(/\s+/)[0] ?? '';
+
+    const text = lines
+      .slice(timingIndex + 1)
+      .map((line) => stripVttMarkup(line).trim())
+      .filter(Boolean)
+      .join(' ');
+    if (!text.length) continue;
+
+    const startMs = timecodeToMs(startRaw);
+    const endMs = timecodeToMs(endRaw);
+    entries.push({
+      index: entries.length + 1,
+      rawId: Number.isFinite(numericId) && String(numericId) === identifier ? numericId : entries.length + 1,
+      start: startMs != null ? msToTimecode(startMs) : null,
+      end: endMs != null ? msToTimecode(endMs) : null,
+      startMs,
+      endMs,
+      text,
+    });
+  }
+
+  return entries;
+}
+
+/** Styles that carry on-screen signs, songs or typesetting rather than dialogue. */
+const ASS_SIGN_STYLE = /(sign|typeset|^ts\b|title|song|lyric|karaoke|kfx|^op\b|^ed\b|note)/i;
+
+export function parseAss(content: string): SubtitleEntry[] {
+  const lines = content.replace(/\r\n?/g, '\n').replace(/\uFEFF/g, '').split('\n');
+  const entries: SubtitleEntry[] = [];
+  let inEvents = false;
+  let format: string[] = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+  let dialogueCount = 0;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const section = trimmed.match(/^\[(.+)\]$/);
+    if (section) {
+      inEvents = section[1].toLowerCase() === 'events';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    const separator = trimmed.indexOf(':');
+    if (separator === -1) continue;
+    const kind = trimmed.slice(0, separator).toLowerCase();
+    const body = trimmed.slice(separator + 1).trim();
+
+    if (kind === 'format') {
+      format = body.split(',').map((field) => field.trim().toLowerCase());
+      continue;
+    }
+    if (kind !== 'dialogue') continue;
+    dialogueCount += 1;
+
+    const fields = splitAssFields(body, format.length);
+    const field = (name: string): string => fields[format.indexOf(name)] ?? '';
+    const rawText = field('text');
+
+    if (ASS_SIGN_STYLE.test(field('style')) || field('effect').length || /\\p[1-9]/.test(rawText)) {
+      continue;
+    }
+
+    const text = stripAssMarkup(rawText);
+    if (!text.length) continue;
+
+    const startMs = timecodeToMs(field('start'));
+    const endMs = timecodeToMs(field('end'));
+    entries.push({
+      index: 0,
+      rawId: dialogueCount,
+      start: startMs != null ? msToTimecode(startMs) : null,
+      end: endMs != null ? msToTimecode(endMs) : null,
+      startMs,
+      endMs,
+      text,
+    });
+  }
+
+  return entries
+    .sort((a, b) => (a.startMs ?? 0) - (b.startMs ?? 0) || a.rawId - b.rawId)
+    .map((entry, idx) => ({ ...entry, index: idx + 1 }));
+}
+
+function splitAssFields(body: string, count: number): string[] {
+  const parts = body.split(',');
+  const head = parts.slice(0, count - 1).map((part) => part.trim());
+  const text = parts.slice(count - 1).join(',');
+  return [...head, text];
+}
+
+function stripAssMarkup(text: string): string {
+  return text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\[Nn]/g, ' ')
+    .replace(/\\h/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function stripVttMarkup(text: string): string {
+  return text
+    .replace(/<rt>.*?<\/rt>/g, '')
+    .replace(/<rp>.*?<\/rp>/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
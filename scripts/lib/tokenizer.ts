@@ -0,0 +1,26 @@
+/**
+ * Shared kuromoji tokenizer setup (IPADIC dictionary from node_modules).
+ */
+
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import kuromoji from 'kuromoji';
+import type { IpadicFeatures, Tokenizer } from 'kuromoji';
+
+export type KuromojiTokenizer = Tokenizer<IpadicFeatures>;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export function buildTokenizer(): Promise<KuromojiTokenizer> {
+  const dictPath = resolve(__dirname, '../../node_modules/kuromoji/dict');
+  return new Promise((resolvePromise, rejectPromise) => {
+    kuromoji.builder({ dicPath: dictPath }).build((err, tokenizer) => {
+      if (err) {
+        rejectPromise(err);
+      } else {
+        resolvePromise(tokenizer);
+      }
+    });
+  });
+}
@@ -0,0 +1,360 @@
+/**
+ * Shape of the translation cache files consumed by enrichCards.ts
+ * (`--translations`) and produced by alignSubs.ts, plus the in-memory
+ * lookup state built from them.
+ *
+ * A cache is a versioned "translations" file (see schema.ts); older bare
+ * arrays and id-keyed objects are migrated on load. Lookups go by card id,
+ * then subtitle id, then sentence text; new translations are appended and
+ * written back with later entries replacing earlier ones.
+ *
+ * Cards and cache entries record where their translation came from (source,
+ * provider and its settings, timestamp) and keep the values they replaced in
+ * a `history` list, so a bad run can be diffed and reverted
+ * (translationHistory.ts). Literal fallbacks are never kept in history: they
+ * can be rebuilt from the dictionary at any time.
+ */
+
+import { existsSync, renameSync, writeFileSync } from 'node:fs';
+import type { CardRecord } from './cards.js';
+import { loadDataFile, serializeDataFile } from './schema.js';
+
+/** How a translation was produced; `at` is missing on values from before provenance was kept. */
+export interface TranslationOrigin {
+  /** Machine translator that produced the text, also once it comes back from the cache. */
+  provider?: string | null;
+  formality?: string | null;
+  glossaryId?: string | null;
+  model?: string | null;
+  /** ISO timestamp of when the text was produced. */
+  at?: string;
+}
+
+/** An earlier value of a card's or cache entry's translation. */
+export interface TranslationRevision extends TranslationOrigin {
+  translation: string;
+  /** 'hint', 'card', 'manual' or a provider name, as in CardRecord.translationSource. */
+  source: string;
+}
+
+export interface TranslationEntry extends TranslationOrigin {
+  id: number | string | null;
+  subtitleId: number | string | null;
+  sentence: string | null;
+  translation: string;
+  /** Alignment confidence (0–1) when the entry came from the English track. */
+  confidence?: number;
+  /** Provider name, or 'manual' for translations typed into the review UI. */
+  source?: string;
+  /** Values this entry replaced, oldest first. */
+  history?: TranslationRevision[];
+}
+
+/** translationSource recorded for translations typed in by hand (review UI, reverts of those). */
+export const MANUAL_SOURCE = 'manual';
+
+export interface TranslationState {
+  byId: Map<string, TranslationEntry>;
+  bySubtitleId: Map<string, TranslationEntry>;
+  bySentence: Map<string, TranslationEntry>;
+  addedEntries: TranslationEntry[];
+  initialEntries: TranslationEntry[];
+  sourcePath: string | null;
+}
+
+export function loadTranslationHints(path: string | null): TranslationState {
+  const state: TranslationState = {
+    byId: new Map(),
+    bySubtitleId: new Map(),
+    bySentence: new Map(),
+    addedEntries: [],
+    initialEntries: [],
+    sourcePath: path,
+  };
+
+  if (!path) return state;
+
+  if (!existsSync(path)) {
+    console.warn(`Translation hint file not found at ${path}. Skipping translations.`);
+    return state;
+  }
+
+  const entries = loadDataFile<unknown>(path, 'translations');
+  state.initialEntries.push(...addTranslationHints(state, entries));
+  return state;
+}
+
+/**
+ * Make entries available to lookups without adding them to the cache file,
+ * e.g. aligned English lines layered over a machine-translation cache.
+ * Later hints win. Returns the entries that passed sanitizing.
+ */
+export function addTranslationHints(state: TranslationState, entries: unknown[]): TranslationEntry[] {
+  const accepted: TranslationEntry[] = [];
+  entries.forEach((entryLike) => {
+    const safeEntry = sanitizeTranslationEntry(entryLike);
+    if (!safeEntry) return;
+    if (safeEntry.id != null) {
+      state.byId.set(String(safeEntry.id), safeEntry);
+    }
+    if (safeEntry.subtitleId != null) {
+      state.bySubtitleId.set(String(safeEntry.subtitleId), safeEntry);
+    }
+    if (safeEntry.sentence) {
+      state.bySentence.set(safeEntry.sentence, safeEntry);
+    }
+    accepted.push(safeEntry);
+  });
+  return accepted;
+}
+
+export function pickTranslation(card: CardRecord, translations: TranslationState): string | null {
+  return pickTranslationEntry(card, translations)?.translation ?? null;
+}
+
+/** Cache entry for a card, with the provenance recorded for it. */
+export function pickTranslationEntry(
+  card: CardRecord,
+  translations: TranslationState,
+): TranslationEntry | null {
+  // Merged cards only match on the joined sentence; their ids belong to a single fragment.
+  // Re-parsed cues whose text changed would pick up the old line's translation by id.
+  if (card.mergedSubtitleIds || card.needsEnrichment) {
+    return translations.bySentence.get((card.sentence || '').trim()) ?? null;
+  }
+
+  if (translations.byId.has(String(card.id))) {
+    return translations.byId.get(String(card.id)) ?? null;
+  }
+
+  if (card.subtitleId != null && translations.bySubtitleId.has(String(card.subtitleId))) {
+    return translations.bySubtitleId.get(String(card.subtitleId)) ?? null;
+  }
+
+  const normalizedSentence = (card.sentence || '').trim();
+  if (normalizedSentence.length && translations.bySentence.has(normalizedSentence)) {
+    return translations.bySentence.get(normalizedSentence) ?? null;
+  }
+
+  return null;
+}
+
+export function sanitizeTranslationEntry(entry: unknown): TranslationEntry | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const maybe = entry as Record<string, unknown>;
+  if (typeof maybe.translation !== 'string') return null;
+  const translation = maybe.translation.trim();
+  if (!translation.length) return null;
+
+  const sentence =
+    typeof maybe.sentence === 'string' && maybe.sentence.trim().length
+      ? maybe.sentence.trim()
+      : null;
+
+  const normalizedId =
+    maybe.id === null || maybe.id === undefined || maybe.id === ''
+      ? null
+      : normalizeNumeric(maybe.id);
+
+  const normalizedSubtitleId =
+    maybe.subtitleId === null || maybe.subtitleId === undefined || maybe.subtitleId === ''
+      ? null
+      : normalizeNumeric(maybe.subtitleId);
+
+  const confidence =
+    typeof maybe.confidence === 'number' && Number.isFinite(maybe.confidence)
+      ? maybe.confidence
+      : null;
+
+  const history = Array.isArray(maybe.history)
+    ? maybe.history
+        .map((revision) => sanitizeRevision(revision))
+        .filter((revision): revision is TranslationRevision => revision !== null)
+    : [];
+
+  return {
+    id: normalizedId,
+    subtitleId: normalizedSubtitleId,
+    sentence,
+    translation,
+    ...(confidence != null ? { confidence } : {}),
+    ...(typeof maybe.source === 'string' && maybe.source ? { source: maybe.source } : {}),
+    ...sanitizeOrigin(maybe),
+    ...(history.length ? { history } : {}),
+  };
+}
+
+function sanitizeRevision(value: unknown): TranslationRevision | null {
+  if (!value || typeof value !== 'object') return null;
+  const maybe = value as Record<string, unknown>;
+  if (typeof maybe.translation !== 'string' || !maybe.translation.trim()) return null;
+  return {
+    translation: maybe.translation.trim(),
+    source: typeof maybe.source === 'string' && maybe.source ? maybe.source : 'hint',
+    ...sanitizeOrigin(maybe),
+  };
+}
+
+/** Origin fields that are set, so files don't fill up with nulls. */
+export function sanitizeOrigin(value: Record<string, unknown>): TranslationOrigin {
+  const origin: TranslationOrigin = {};
+  (['provider', 'formality', 'glossaryId', 'model', 'at'] as const).forEach((key) => {
+    const field = value[key];
+    if (typeof field === 'string' && field.length) origin[key] = field;
+  });
+  return origin;
+}
+
+function normalizeNumeric(value: unknown): number | string {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const parsed = Number.parseInt(String(value), 10);
+  return Number.isNaN(parsed) ? String(value) : parsed;
+}
+
+export function registerGeneratedTranslation(
+  translations: TranslationState,
+  card: CardRecord,
+  translation: string,
+  origin: TranslationOrigin & { source?: string } = {},
+): void {
+  const normalizedSentence = (card.sentence || '').trim() || null;
+  // Cache merged cards by sentence alone so their ids never shadow the single fragment.
+  const keepIds = !card.mergedSubtitleIds;
+
+  const entry = sanitizeTranslationEntry({
+    ...origin,
+    id: keepIds ? card.id ?? null : null,
+    subtitleId: keepIds ? card.subtitleId ?? null : null,
+    sentence: normalizedSentence,
+    translation,
+  });
+  if (!entry) return;
+
+  if (keepIds && card.id != null) {
+    translations.byId.set(String(card.id), entry);
+  }
+  if (keepIds && card.subtitleId != null) {
+    translations.bySubtitleId.set(String(card.subtitleId), entry);
+  }
+  if (normalizedSentence) {
+    translations.bySentence.set(normalizedSentence, entry);
+  }
+  translations.addedEntries.push(entry);
+}
+
+/**
+ * Set a card's translation and its provenance, moving the value it replaces
+ * into `translationHistory`. An unchanged text keeps its original provenance;
+ * only `translationSource` follows the current run.
+ */
+export function recordCardTranslation(
+  card: CardRecord,
+  translation: string,
+  source: string,
+  origin: TranslationOrigin,
+): void {
+  const previous = (card.translation || '').trim();
+  const previousSource = card.translationSource;
+  card.translation = translation;
+  card.translationSource = source;
+  if (previous === translation.trim() && card.translationProvenance) return;
+
+  if (previous && previous !== translation.trim() && previousSource !== 'literal') {
+    const replaced = revisionOf(previous, previousSource, card.translationProvenance);
+    card.translationHistory = appendRevision(card.translationHistory, replaced);
+  }
+  const recorded = sanitizeOrigin({ ...origin });
+  if (Object.keys(recorded).length) {
+    card.translationProvenance = recorded;
+  } else {
+    delete card.translationProvenance;
+  }
+}
+
+export function persistTranslations(translations: TranslationState, outputPath: string): void {
+  writeTranslationCache(translations, outputPath);
+  console.log(
+    `Translation cache updated at ${outputPath} (+${translations.addedEntries.length} new entries).`,
+  );
+}
+
+/** Write via a temp file so a crash mid-write never leaves a truncated cache behind. */
+export function writeTranslationCache(translations: TranslationState, outputPath: string): void {
+  const existing = translations.initialEntries ?? [];
+  const additions = translations.addedEntries ?? [];
+  const merged = mergeTranslationEntries(existing, additions);
+  const tempPath = `${outputPath}.tmp`;
+  writeFileSync(tempPath, serializeDataFile('translations', merged), 'utf8');
+  renameSync(tempPath, outputPath);
+}
+
+export function mergeTranslationEntries(
+  existing: TranslationEntry[],
+  additions: TranslationEntry[],
+): TranslationEntry[] {
+  const map = new Map<string, TranslationEntry>();
+  let anonCounter = 0;
+
+  const put = (entry: TranslationEntry | null): void => {
+    if (!entry) return;
+    const key =
+      entry.subtitleId != null
+        ? `subtitleId:${entry.subtitleId}`
+        : entry.id != null
+          ? `id:${entry.id}`
+          : entry.sentence
+            ? `sentence:${entry.sentence}`
+            : `anon:${anonCounter++}`;
+    const replaced = map.get(key);
+    map.set(key, replaced ? supersede(replaced, entry) : entry);
+  };
+
+  existing.forEach(put);
+  additions.forEach(put);
+
+  return Array.from(map.values());
+}
+
+/** Max earlier values kept per card or cache entry. */
+const MAX_HISTORY = 20;
+
+/** The newer entry, carrying the older one's value into its history when the text changed. */
+function supersede(older: TranslationEntry, newer: TranslationEntry): TranslationEntry {
+  let history = older.history ?? [];
+  if (older.translation !== newer.translation) {
+    history = appendRevision(history, revisionOf(older.translation, older.source ?? 'hint', older));
+  } else if (!newer.at) {
+    // Same text re-registered without provenance (e.g. an old hint file): keep what we knew.
+    return { ...older, ...newer, ...sanitizeOrigin({ ...older }), source: older.source ?? newer.source };
+  }
+  (newer.history ?? []).forEach((revision) => {
+    history = appendRevision(history, revision);
+  });
+  const merged: TranslationEntry = { ...newer };
+  if (history.length) merged.history = history;
+  else delete merged.history;
+  if (!merged.source) delete merged.source;
+  return merged;
+}
+
+function revisionOf(
+  translation: string,
+  source: string | null | undefined,
+  origin: TranslationOrigin | null | undefined,
+): TranslationRevision {
+  return {
+    translation,
+    source: source || 'card',
+    ...sanitizeOrigin({ ...(origin ?? {}) }),
+  };
+}
+
+function appendRevision(
+  history: TranslationRevision[] | undefined,
+  revision: TranslationRevision,
+): TranslationRevision[] {
+  const list = history ?? [];
+  const last = list[list.length - 1];
+  if (last && last.translation === revision.translation && last.source === revision.source) return list;
+  return [...list, revision].slice(-MAX_HISTORY);
+}
@@ -0,0 +1,407 @@
+/**
+ * Translation provider registry used by enrichCards.ts (`--translator <name>`).
+ *
+ * Each provider declares the CLI flags it understands; the values collected
+ * for those flags are handed to `create`. Translators work on batches of
+ * cards and throw `TranslationRequestError` so callers can retry or stop
+ * (see batchTranslate.ts). Built-in providers:
+ *  - deepl   DeepL API (needs DEEPL_API_KEY)
+ *  - openai  Any OpenAI-compatible chat completions endpoint, including local LLM servers
+ *  - mock    Deterministic, file-backed translations for tests and offline runs
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import {
+  ConnectionError,
+  Translator as DeepLTranslator,
+  DeepLError,
+  QuotaExceededError,
+  TooManyRequestsError,
+} from 'deepl-node';
+import type { CardRecord } from './cards.js';
+import type { CueContext } from './context.js';
+import type { TranslationOrigin } from './translations.js';
+
+export interface TranslationRequest {
+  card: CardRecord;
+  /** Neighbouring lines that inform the translation but are not translated themselves. */
+  context?: CueContext | null;
+}
+
+export interface Translator {
+  name: string;
+  /** Largest number of lines the backend accepts in one request. */
+  maxBatchSize: number;
+  /** Batch limit when requests carry context (DeepL applies `context` to a whole request). */
+  maxContextBatchSize?: number;
+  /** Translations line up with `requests`; null means the backend had nothing for that line. */
+  translate(requests: TranslationRequest[]): Promise<Array<string | null>>;
+  /** Settings recorded in the provenance of every line it translates. */
+  settings?: Pick<TranslationOrigin, 'formality' | 'glossaryId' | 'model'>;
+  /** Character quota for the current billing period, when the backend reports one. */
+  usage?(): Promise<{ count: number; limit: number } | null>;
+}
+
+export type TranslationFailureKind = 'retry' | 'quota' | 'fatal';
+
+/** Request failure tagged with what the caller should do about it. */
+export class TranslationRequestError extends Error {
+  constructor(
+    message: string,
+    readonly kind: TranslationFailureKind,
+    /** Server-requested wait (Retry-After), if any. */
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = 'TranslationRequestError';
+  }
+}
+
+export interface ProviderOption {
+  /** CLI flag, e.g. "--deepl-formality". Every provider option takes one value. */
+  flag: string;
+  key: string;
+  description: string;
+  /** Environment variable consulted when the flag is not given. */
+  env?: string;
+  defaultValue?: string;
+}
+
+export type ProviderOptionValues = Record<string, string | undefined>;
+
+export interface TranslationProvider {
+  name: string;
+  description: string;
+  options: ProviderOption[];
+  create(values: ProviderOptionValues): Translator;
+}
+
+export const DEFAULT_TRANSLATOR = 'deepl';
+
+const deeplProvider: TranslationProvider = {
+  name: 'deepl',
+  description: 'DeepL API (requires DEEPL_API_KEY)',
+  options: [
+    {
+      flag: '--deepl-formality',
+      key: 'formality',
+      description: 'DeepL formality (default, more, less, prefer_more, prefer_less)',
+      defaultValue: 'default',
+    },
+    { flag: '--deepl-glossary', key: 'glossaryId', description: 'DeepL glossary ID to apply' },
+    {
+      flag: '--deepl-server',
+      key: 'serverUrl',
+      description: 'API server URL (defaults to the free/pro endpoint for the key)',
+      env: 'DEEPL_SERVER_URL',
+    },
+  ],
+  create: (values) =>
+    createDeepLTranslator({
+      formality: values.formality,
+      glossaryId: values.glossaryId ?? null,
+      serverUrl: values.serverUrl ?? null,
+    }),
+};
+
+const openAiProvider: TranslationProvider = {
+  name: 'openai',
+  description: 'OpenAI-compatible chat endpoint (OpenAI, llama.cpp, Ollama, LM Studio, ...)',
+  options: [
+    {
+      flag: '--openai-url',
+      key: 'baseUrl',
+      description: 'API base URL',
+      env: 'OPENAI_BASE_URL',
+      defaultValue: 'https://api.openai.com/v1',
+    },
+    {
+      flag: '--openai-model',
+      key: 'model',
+      description: 'Model name',
+      env: 'OPENAI_MODEL',
+      defaultValue: 'gpt-4o-mini',
+    },
+    {
+      flag: '--openai-key',
+      key: 'apiKey',
+      description: 'API key (optional for local servers)',
+      env: 'OPENAI_API_KEY',
+    },
+  ],
+  create: (values) =>
+    createChatTranslator({
+      baseUrl: values.baseUrl ?? 'https://api.openai.com/v1',
+      model: values.model ?? 'gpt-4o-mini',
+      apiKey: values.apiKey ?? null,
+    }),
+};
+
+const mockProvider: TranslationProvider = {
+  name: 'mock',
+  description: 'Deterministic offline translations from a JSON file',
+  options: [
+    {
+      flag: '--mock-file',
+      key: 'file',
+      description: 'JSON map of sentence → translation, or TranslationEntry[]',
+      env: 'MOCK_TRANSLATIONS',
+    },
+  ],
+  create: (values) => createMockTranslator(values.file ?? null),
+};
+
+const PROVIDERS = new Map<string, TranslationProvider>(
+  [deeplProvider, openAiProvider, mockProvider].map((provider) => [provider.name, provider]),
+);
+
+export function listTranslationProviders(): TranslationProvider[] {
+  return Array.from(PROVIDERS.values());
+}
+
+export function getTranslationProvider(name: string): TranslationProvider {
+  const provider = PROVIDERS.get(name);
+  if (!provider) {
+    throw new Error(
+      `Unknown translator "${name}". Available: ${Array.from(PROVIDERS.keys()).join(', ')}.`,
+    );
+  }
+  return provider;
+}
+
+/** Provider that declares the given flag, if any. */
+export function findProviderOption(
+  flag: string,
+): { provider: TranslationProvider; option: ProviderOption } | null {
+  for (const provider of PROVIDERS.values()) {
+    const option = provider.options.find((candidate) => candidate.flag === flag);
+    if (option) return { provider, option };
+  }
+  return null;
+}
+
+/**
+ * Build a translator from CLI flag values, falling back to each option's
+ * environment variable and default.
+ */
+export function createTranslator(name: string, flagValues: Map<string, string>): Translator {
+  const provider = getTranslationProvider(name);
+  const values: ProviderOptionValues = {};
+  for (const option of provider.options) {
+    values[option.key] =
+      flagValues.get(option.flag) ??
+      (option.env ? process.env[option.env] || undefined : undefined) ??
+      option.defaultValue;
+  }
+  return provider.create(values);
+}
+
+/** DeepL accepts up to 50 texts per translate request. */
+const DEEPL_MAX_BATCH = 50;
+
+function createDeepLTranslator(options: {
+  formality?: string;
+  glossaryId?: string | null;
+  serverUrl?: string | null;
+}): Translator {
+  const authKey = process.env.DEEPL_API_KEY;
+  if (!authKey) {
+    throw new Error('DEEPL_API_KEY environment variable is required for --translator deepl.');
+  }
+
+  // Retries are handled by the batch runner so every provider backs off the same way.
+  const translator = new DeepLTranslator(authKey, {
+    maxRetries: 0,
+    serverUrl: options.serverUrl ?? undefined,
+  });
+  const requestedFormality = options.formality ?? 'default';
+  const normalizedFormality = normalizeDeepLFormality(requestedFormality);
+  const glossaryId = options.glossaryId ?? null;
+
+  return {
+    name: 'deepl',
+    maxBatchSize: DEEPL_MAX_BATCH,
+    maxContextBatchSize: 1,
+    settings: { formality: normalizedFormality, glossaryId },
+    async translate(requests) {
+      const texts = requests.map(({ card }) => (card.sentence || '').trim());
+      // Batches with context hold a single line (see maxContextBatchSize).
+      const context = requests.length === 1 ? formatContext(requests[0].context) : null;
+      try {
+        const response = await translator.translateText(texts, 'ja', 'en-US', {
+          formality: normalizedFormality === 'default' ? undefined : normalizedFormality,
+          glossary: glossaryId ?? undefined,
+          context: context ?? undefined,
+        });
+        return response.map((result) => result?.text?.trim() || null);
+      } catch (error) {
+        throw classifyDeepLError(error);
+      }
+    },
+    async usage() {
+      const usage = await translator.getUsage();
+      return usage.character ? { count: usage.character.count, limit: usage.character.limit } : null;
+    },
+  };
+}
+
+function classifyDeepLError(error: unknown): TranslationRequestError {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof QuotaExceededError) {
+    return new TranslationRequestError(message, 'quota');
+  }
+  if (error instanceof TooManyRequestsError) {
+    return new TranslationRequestError(message, 'retry');
+  }
+  if (error instanceof ConnectionError) {
+    return new TranslationRequestError(message, error.shouldRetry ? 'retry' : 'fatal');
+  }
+  if (error instanceof DeepLError && /Service unavailable|status code: 5\d\d/.test(message)) {
+    return new TranslationRequestError(message, 'retry');
+  }
+  return new TranslationRequestError(message, 'fatal');
+}
+
+function normalizeDeepLFormality(value: string): 'default' | 'more' | 'less' {
+  switch (value) {
+    case 'more':
+    case 'less':
+    case 'default':
+      return value;
+    case 'prefer_more':
+      return 'more';
+    case 'prefer_less':
+      return 'less';
+    default:
+      return 'default';
+  }
+}
+
+function createChatTranslator(options: {
+  baseUrl: string;
+  model: string;
+  apiKey: string | null;
+}): Translator {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const translateOne = async (
+    sentence: string,
+    context: CueContext | null | undefined,
+  ): Promise<string | null> => {
+    const surrounding = formatContext(context);
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          temperature: 0,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You translate Japanese anime subtitle lines into natural English. Reply with the English translation only.',
+            },
+            {
+              role: 'user',
+              content: surrounding
+                ? `Surrounding lines, for context only:\n${surrounding}\n\nTranslate only this line:\n${sentence}`
+                : sentence,
+            },
+          ],
+        }),
+      });
+    } catch (error) {
+      // Network-level failures (refused connection, reset) are worth another try.
+      const message = error instanceof Error ? error.message : String(error);
+      throw new TranslationRequestError(`${endpoint}: ${message}`, 'retry');
+    }
+    if (!response.ok) {
+      throw httpError(response, `${endpoint}: HTTP ${response.status} ${response.statusText}`);
+    }
+    const payload = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    return payload.choices?.[0]?.message?.content?.trim() || null;
+  };
+
+  return {
+    name: 'openai',
+    // One line per request keeps replies unambiguous; the runner parallelises batches instead.
+    maxBatchSize: 1,
+    settings: { model: options.model },
+    translate: (requests) =>
+      Promise.all(
+        requests.map(({ card, context }) => {
+          const sentence = (card.sentence || '').trim();
+          return sentence.length ? translateOne(sentence, context) : Promise.resolve(null);
+        }),
+      ),
+  };
+}
+
+function formatContext(context: CueContext | null | undefined): string | null {
+  if (!context) return null;
+  const lines = [...context.before, ...context.after];
+  return lines.length ? lines.join('\n') : null;
+}
+
+function httpError(response: Response, message: string): TranslationRequestError {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  const retryAfterMs = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null;
+  if (response.status === 429 || response.status >= 500) {
+    return new TranslationRequestError(message, 'retry', retryAfterMs);
+  }
+  if (response.status === 402 || response.status === 456) {
+    return new TranslationRequestError(message, 'quota');
+  }
+  return new TranslationRequestError(message, 'fatal');
+}
+
+/**
+ * Lookups go by subtitleId, then sentence. Lines missing from the file (or
+ * every line when no file is given) come back as "[mock] <sentence>".
+ */
+function createMockTranslator(path: string | null): Translator {
+  const bySentence = new Map<string, string>();
+  const bySubtitleId = new Map<string, string>();
+
+  if (path) {
+    if (!existsSync(path)) {
+      throw new Error(`Mock translation file not found at ${path}.`);
+    }
+    const raw = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+    if (Array.isArray(raw)) {
+      raw.forEach((entry) => {
+        if (!entry || typeof entry !== 'object') return;
+        const { subtitleId, sentence, translation } = entry as Record<string, unknown>;
+        if (typeof translation !== 'string') return;
+        if (subtitleId != null) bySubtitleId.set(String(subtitleId), translation);
+        if (typeof sentence === 'string') bySentence.set(sentence.trim(), translation);
+      });
+    } else if (raw && typeof raw === 'object') {
+      Object.entries(raw).forEach(([sentence, translation]) => {
+        if (typeof translation === 'string') bySentence.set(sentence.trim(), translation);
+      });
+    }
+  }
+
+  const translateOne = (card: CardRecord): string | null => {
+    const sentence = (card.sentence || '').trim();
+    if (!sentence.length) return null;
+    if (card.subtitleId != null && bySubtitleId.has(String(card.subtitleId))) {
+      return bySubtitleId.get(String(card.subtitleId)) ?? null;
+    }
+    return bySentence.get(sentence) ?? `[mock] ${sentence}`;
+  };
+
+  return {
+    name: 'mock',
+    maxBatchSize: DEEPL_MAX_BATCH,
+    translate: async (requests) => requests.map(({ card }) => translateOne(card)),
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Tab-separated word lists keyed by dictionary form, shared by the accent
+ * dictionary (pitch.ts) and the word level list (difficulty.ts):
+ *
+ *   word<TAB>reading<TAB>...
+ *
+ * one word per line with its reading (empty for kana-only words) and the
+ * list's own columns after it. Lines starting with '#' are comments; a word
+ * may have several lines, one per reading.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { katakanaToHiragana } from './reading.js';
+
+export type WordListEntry<T> = T & {
+  /** Hiragana reading of the dictionary form. */
+  reading: string;
+};
+
+export interface WordList<T> {
+  size: number;
+  /**
+   * Entry for a word, by dictionary form or its hiragana spelling. `reading`
+   * (of the token as written) picks between homographs.
+   */
+  lookup(lemma: string, reading: string | null): WordListEntry<T> | null;
+}
+
+/** Text of a word list file, or '' (after a warning naming what will be missing) when there is none. */
+export function readWordListFile(path: string, name: string, omitted: string): string {
+  if (!existsSync(path)) {
+    console.warn(`${name} not found at ${path}. ${omitted} will be omitted.`);
+    return '';
+  }
+  return readFileSync(path, 'utf8');
+}
+
+/**
+ * Word list from tab-separated text. `parseColumns` gets the columns after
+ * the reading and returns null for lines the list should skip.
+ */
+export function parseWordListTsv<T>(text: string, parseColumns: (columns: string[]) => T | null): WordList<T> {
+  const byWord = new Map<string, WordListEntry<T>[]>();
+  let size = 0;
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const [word, readingColumn, ...columns] = line.split('\t').map((column) => column.trim());
+      if (!word || word.startsWith('#')) return;
+      const fields = parseColumns(columns);
+      if (!fields) return;
+      const entry = { ...fields, reading: katakanaToHiragana(readingColumn || word) };
+      byWord.set(word, [...(byWord.get(word) ?? []), entry]);
+      size += 1;
+    });
+
+  return {
+    size,
+    lookup(lemma, reading) {
+      const entries = byWord.get(lemma) ?? byWord.get(katakanaToHiragana(lemma));
+      if (!entries?.length) return null;
+      const spoken = reading ? katakanaToHiragana(reading) : null;
+      if (!spoken) return entries[0];
+      // Inflected tokens are read differently from their dictionary form (減った/へった vs へる):
+      // the homograph sharing the longest start with the token's reading wins.
+      return entries.reduce((best, candidate) =>
+        commonPrefix(candidate.reading, spoken) > commonPrefix(best.reading, spoken) ? candidate : best,
+      );
+    },
+  };
+}
+
+function commonPrefix(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length += 1;
+  return length;
+}
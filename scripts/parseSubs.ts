@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 /**
- * Minimal utility for turning an SRT subtitle file into:
+ * Minimal utility for turning a subtitle file (SRT, WebVTT or ASS/SSA) into:
  *  - a JSON array of card-friendly objects
  *  - a TSV file (front/back) that can be imported into Anki
  *
@@ -9,41 +9,37 @@
  *     [--json out.json] [--tsv out.tsv]
  *     --no-json    Skip writing the JSON output
  *     --no-tsv     Skip writing the TSV output
+ *     --drop-non-speech  Leave sound-effect, breathing and music cues out entirely
+ *     --overwrite  Replace an existing cards JSON instead of merging into it
  *
  * Both outputs default to "<original>.cards.json/tsv" when not provided.
+ * When the cards JSON already exists, the new cues are merged into it:
+ * unchanged cards keep their enrichment and hand edits, edited or new cues
+ * are flagged `needsEnrichment`, and cues no longer in the file are listed.
+ * Caption annotations such as "（デンジ）" move into the card's `speaker`
+ * field; cues without spoken text are flagged through `nonSpeech`.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
-import { basename, dirname, extname, resolve } from 'node:path';
-
-interface SubtitleEntry {
-  index: number;
-  rawId: number;
-  start: string | null;
-  end: string | null;
-  startMs: number | null;
-  endMs: number | null;
-  text: string;
-}
-
-interface Card {
-  id: number;
-  subtitleId: number;
-  sentence: string;
-  translation: string;
-  romaji: string;
-  furigana: string;
-  startTime: string | null;
-  endTime: string | null;
-  startMs: number | null;
-  endMs: number | null;
-}
+import { existsSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  buildCards,
+  cardsToTsv,
+  mergeReparsedCards,
+  readCardsFile,
+  reportMerge,
+  writeCardsFile,
+} from './lib/cards.js';
+import { cardsOutputPath } from './lib/episodes.js';
+import { parseSubtitleFile } from './lib/subtitles.js';
 
 interface CliOptions {
   jsonPath: string | null;
   tsvPath: string | null;
   writeJson: boolean;
   writeTsv: boolean;
+  dropNonSpeech: boolean;
+  overwrite: boolean;
 }
 
 async function main(): Promise<void> {
@@ -64,127 +60,50 @@ async function main(): Promise<void> {
     return;
   }
 
-  const rawContent = readFileSync(inputPath, 'utf8');
-  const subtitles = parseSrt(rawContent);
+  const subtitles = parseSubtitleFile(inputPath);
 
   if (!subtitles.length) {
     console.error(`No subtitle lines found in ${inputPath}.`);
     process.exit(1);
   }
 
-  const cards = buildCards(subtitles);
+  let cards = buildCards(subtitles, options.dropNonSpeech);
+  const flagged = cards.filter((card) => card.nonSpeech).length;
   console.log(`Parsed ${subtitles.length} subtitle blocks into ${cards.length} card entries.`);
+  if (options.dropNonSpeech && cards.length < subtitles.length) {
+    console.log(`- Dropped ${subtitles.length - cards.length} sound-effect/breathing/music cue(s).`);
+  } else if (flagged) {
+    console.log(`- Flagged ${flagged} sound-effect/breathing/music cue(s) as nonSpeech.`);
+  }
+
+  const jsonPath = options.jsonPath ?? cardsOutputPath(inputPath, '.cards.json');
+  if (options.writeJson && !options.overwrite && existsSync(jsonPath)) {
+    const existing = readCardsFile(jsonPath);
+    const merge = mergeReparsedCards(existing, cards);
+    reportMerge(merge);
+    cards = merge.cards;
+  }
 
   if (options.writeJson) {
-    const jsonPath = options.jsonPath ?? defaultOutPath(inputPath, '.cards.json');
-    writeFileSync(jsonPath, JSON.stringify(cards, null, 2), 'utf8');
+    writeCardsFile(jsonPath, cards);
     console.log(`JSON output written to ${jsonPath}`);
   }
 
   if (options.writeTsv) {
-    const tsvPath = options.tsvPath ?? defaultOutPath(inputPath, '.cards.tsv');
+    const tsvPath = options.tsvPath ?? cardsOutputPath(inputPath, '.cards.tsv');
     writeFileSync(tsvPath, cardsToTsv(cards), 'utf8');
     console.log(`TSV output written to ${tsvPath}`);
   }
 }
 
-function parseSrt(content: string): SubtitleEntry[] {
-  const normalized = content.replace(/\r\n/g, '\n').replace(/\uFEFF/g, '');
-  const blocks = normalized.split(/\n{2,}/);
-  const entries: SubtitleEntry[] = [];
-
-  for (const block of blocks) {
-    const lines = block.split('\n');
-    const meaningfulStart = lines.findIndex((line) => line.trim().length > 0);
-    if (meaningfulStart === -1) continue;
-
-    let cursor = meaningfulStart;
-    const maybeId = Number.parseInt(lines[cursor].trim(), 10);
-    let rawId: number;
-
-    if (Number.isFinite(maybeId)) {
-      rawId = maybeId;
-      cursor += 1;
-    } else {
-      rawId = entries.length + 1;
-    }
-
-    let start: string | null = null;
-    let end: string | null = null;
-
-    if (cursor < lines.length && lines[cursor].includes('-->')) {
-      const [startRaw, endRaw] = lines[cursor]
-        .split('-->')
-        .map((part) => part.trim());
-      start = startRaw ?? null;
-      end = endRaw ?? null;
-      cursor += 1;
-    }
-
-    const textLines = lines
-      .slice(cursor)
-      .map((line) => line.replace(/\r/g, '').trim())
-      .filter(Boolean);
-
-    if (!textLines.length) continue;
-
-    const text = textLines.join(' ');
-    entries.push({
-      index: entries.length + 1,
-      rawId,
-      start,
-      end,
-      startMs: timecodeToMs(start),
-      endMs: timecodeToMs(end),
-      text,
-    });
-  }
-
-  return entries;
-}
-
-function buildCards(subtitles: SubtitleEntry[]): Card[] {
-  return subtitles.map((entry, idx) => ({
-    id: idx + 1,
-    subtitleId: entry.rawId,
-    sentence: entry.text,
-    translation: '',
-    romaji: '',
-    furigana: '',
-    startTime: entry.start,
-    endTime: entry.end,
-    startMs: entry.startMs,
-    endMs: entry.endMs,
-  }));
-}
-
-function cardsToTsv(cards: Card[]): string {
-  return cards.map((card) => `${clean(card.sentence)}\t${clean(card.translation)}`).join('\n');
-}
-
-function clean(value: string | null | undefined): string {
-  return (value ?? '').replace(/\t/g, ' ').replace(/\r?\n/g, ' ').trim();
-}
-
-function timecodeToMs(timecode: string | null): number | null {
-  if (!timecode) return null;
-  const match = timecode.match(/(\d{2}):(\d{2}):(\d{2}),(\d{3})/);
-  if (!match) return null;
-  const [, hh, mm, ss, ms] = match;
-  return (
-    Number(hh) * 3600 * 1000 +
-    Number(mm) * 60 * 1000 +
-    Number(ss) * 1000 +
-    Number(ms)
-  );
-}
-
 function parseOptions(tokens: string[]): CliOptions {
   const opts: CliOptions = {
     jsonPath: null,
     tsvPath: null,
     writeJson: true,
     writeTsv: true,
+    dropNonSpeech: false,
+    overwrite: false,
   };
 
   for (let i = 0; i < tokens.length; i += 1) {
@@ -202,6 +121,12 @@ function parseOptions(tokens: string[]): CliOptions {
       case '--no-tsv':
         opts.writeTsv = false;
         break;
+      case '--drop-non-speech':
+        opts.dropNonSpeech = true;
+        break;
+      case '--overwrite':
+        opts.overwrite = true;
+        break;
       default:
         throw new Error(`Unknown option "${token}". Use --help for usage.`);
     }
@@ -221,34 +146,26 @@ function requirePathArgument(tokens: string[], index: number, flag: string): str
   return tokens[index];
 }
 
-function defaultOutPath(input: string, suffix: string): string {
-  const dir = dirname(input);
-  const baseName = basename(input, extname(input));
-  const normalizedBase = baseName.replace(/\.(ja|jp)$/i, '');
-
-  let targetDir = dir;
-  if (basename(dir).toLowerCase() === 'raw') {
-    const parentDir = dirname(dir);
-    targetDir = resolve(parentDir, 'cards');
-    if (!existsSync(targetDir)) {
-      mkdirSync(targetDir, { recursive: true });
-    }
-  }
-
-  return resolve(targetDir, `${normalizedBase}${suffix}`);
-}
-
 function printUsage(): void {
-  console.log(`Usage: npx tsx scripts/parseSubs.ts <file.srt> [options]
+  console.log(`Usage: npx tsx scripts/parseSubs.ts <file.srt|file.vtt|file.ass> [options]
 
 Options:
   --json <path>    Custom path for the card JSON output
   --tsv <path>     Custom path for the TSV output
   --no-json        Skip writing the JSON file
   --no-tsv         Skip writing the TSV file
+  --drop-non-speech
+                   Drop sound-effect, breathing and music cues instead of flagging them
+  --overwrite      Replace an existing cards JSON instead of merging into it
   -h, --help       Show this help text
 
+Speaker labels such as "（デンジ）" move into the "speaker" field. Cues with no
+spoken text are flagged via "nonSpeech" and left out of the TSV.
+The format is detected from the extension (.srt, .vtt, .ass, .ssa) or content.
 Outputs default to "<input>.cards.json" and "<input>.cards.tsv".
+Re-parsing merges into an existing cards JSON: unchanged cards keep their
+enrichment and edits, new or edited cues are marked "needsEnrichment"
+(see enrichCards.ts --only-changed) and removed cues are listed.
 `);
 }
 
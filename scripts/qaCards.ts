@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+/**
+ * Check the translations on an enriched cards JSON file and flag the
+ * suspicious ones, so review can skip the lines that are fine.
+ *
+ * Usage:
+ *   npx tsx scripts/qaCards.ts subtitles/<Show>/episodeXX/cards/episodeXX.cards.json [options]
+ *
+ * Options:
+ *   --aligned <file>      Aligned English from alignSubs.ts (defaults to cards/<name>.aligned.json when present)
+ *   --report <file>       Where to write the report (defaults to cards/<name>.qa.txt)
+ *   --min-ratio <n>       Fewest English letters per Japanese character (default 0.4)
+ *   --max-ratio <n>       Most English letters per Japanese character (default 8)
+ *   --no-write            Only write the report; leave the cards file untouched
+ *
+ * Flags literal fallbacks, Japanese left in the English, length ratios out of
+ * range, provider lines that disagree with the aligned English subtitle and
+ * identical translations on adjacent different lines. Each card gets a
+ * `qaFlags` list (removed again once it passes); enrichment clears the flags.
+ */
+
+import { existsSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { readCardsFile, writeCardsFile } from './lib/cards.js';
+import { inferShowAndEpisode } from './lib/episodes.js';
+import {
+  DEFAULT_QA_OPTIONS,
+  formatQaReport,
+  loadAlignedEnglish,
+  QA_FLAGS,
+  runQa,
+} from './lib/qa.js';
+
+interface CliOptions {
+  inputPath: string;
+  alignedPath: string | null;
+  reportPath: string;
+  minRatio: number;
+  maxRatio: number;
+  writeCards: boolean;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const cards = readCardsFile(options.inputPath);
+  const aligned = options.alignedPath ? loadAlignedEnglish(options.alignedPath) : null;
+  if (options.alignedPath) {
+    console.log(`Comparing provider translations with ${options.alignedPath}.`);
+  } else {
+    console.log('No aligned English found; skipping the aligned-mismatch check.');
+  }
+
+  const result = runQa(cards, {
+    ...DEFAULT_QA_OPTIONS,
+    aligned,
+    minRatio: options.minRatio,
+    maxRatio: options.maxRatio,
+  });
+
+  const { show, episode } = inferShowAndEpisode(options.inputPath);
+  const title = show && episode ? `${show} ${episode}` : basename(options.inputPath);
+  writeFileSync(options.reportPath, formatQaReport(result, title), 'utf8');
+
+  const flagged = result.cards.filter((card) => card.qaFlags?.length).length;
+  console.log(`Flagged ${flagged} of ${cards.length} card(s).`);
+  QA_FLAGS.forEach((flag) => {
+    const count = result.issues.filter((issue) => issue.flag === flag).length;
+    if (count) console.log(`- ${flag}: ${count}`);
+  });
+  console.log(`Report written to ${options.reportPath}`);
+
+  if (options.writeCards) {
+    writeCardsFile(options.inputPath, result.cards);
+    console.log(`qaFlags updated in ${options.inputPath}`);
+  }
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const inputPath = resolve(cliArgs[0]);
+  const base = basename(inputPath, extname(inputPath)).replace(/\.cards$/i, '');
+  let alignedPath: string | null = null;
+  let reportPath = resolve(dirname(inputPath), `${base}.qa.txt`);
+  let minRatio = DEFAULT_QA_OPTIONS.minRatio;
+  let maxRatio = DEFAULT_QA_OPTIONS.maxRatio;
+  let writeCards = true;
+
+  for (let i = 1; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--aligned':
+        alignedPath = resolve(ensureNext(cliArgs, ++i, '--aligned'));
+        break;
+      case '--report':
+        reportPath = resolve(ensureNext(cliArgs, ++i, '--report'));
+        break;
+      case '--min-ratio':
+        minRatio = parseRatio(ensureNext(cliArgs, ++i, '--min-ratio'), '--min-ratio');
+        break;
+      case '--max-ratio':
+        maxRatio = parseRatio(ensureNext(cliArgs, ++i, '--max-ratio'), '--max-ratio');
+        break;
+      case '--no-write':
+        writeCards = false;
+        break;
+      default:
+        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+    }
+  }
+
+  if (minRatio >= maxRatio) {
+    throw new Error(`--min-ratio (${minRatio}) must be below --max-ratio (${maxRatio}).`);
+  }
+  if (!alignedPath) {
+    const guessed = resolve(dirname(inputPath), `${base}.aligned.json`);
+    alignedPath = existsSync(guessed) ? guessed : null;
+  }
+
+  return { inputPath, alignedPath, reportPath, minRatio, maxRatio, writeCards };
+}
+
+function parseRatio(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${flag} expects a positive number, got "${value}".`);
+  }
+  return parsed;
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/qaCards.ts <cards.json> [options]
+
+Options:
+  --aligned <path>      Aligned English from alignSubs.ts (defaults to cards/<name>.aligned.json when present)
+  --report <path>       Where to write the report (defaults to cards/<name>.qa.txt)
+  --min-ratio <n>       Fewest English letters per Japanese character (default ${DEFAULT_QA_OPTIONS.minRatio})
+  --max-ratio <n>       Most English letters per Japanese character (default ${DEFAULT_QA_OPTIONS.maxRatio})
+  --no-write            Only write the report; leave the cards file untouched
+  -h, --help            Show this help text
+
+Flags: ${QA_FLAGS.join(', ')}.
+Flagged cards get a "qaFlags" list; the review UI (reviewServer.ts) can show only those.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,228 @@
+#!/usr/bin/env node
+/**
+ * Correct subtitle timing and write the result as SRT.
+ *
+ * Usage:
+ *   npx tsx scripts/retimeSubs.ts subtitles/<Show>/episodeXX/raw/episodeXX.en.srt \
+ *     [--offset <ms>] [--fps <from>:<to>] [--sync-to <reference>] [--out <file> | --in-place]
+ *
+ * Options:
+ *   --offset <ms>          Shift every cue by this many milliseconds (may be negative)
+ *   --fps <from>:<to>      Rescale cues timed for a <from> fps release to a <to> fps video,
+ *                          e.g. 25:23.976 (rates may also be written 24000/1001)
+ *   --sync-to <file>       Fit scale and offset automatically against a track that is in sync
+ *   --max-offset <ms>      Largest offset tried by --sync-to (default 30000)
+ *   --out <file>           Destination SRT (default "<input>.retimed.srt")
+ *   --in-place             Overwrite an SRT input, keeping the original as "<input>.bak"
+ *
+ * --fps is applied before --offset. --sync-to cannot be combined with either.
+ * SRT input keeps its cue numbers, line breaks and tags; only the timing lines
+ * change. WebVTT and ASS input are converted to plain SRT.
+ */
+
+import { copyFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { extractAnnotations } from './lib/annotations.js';
+import {
+  composeTiming,
+  describeScale,
+  fitTiming,
+  framerateTiming,
+  IDENTITY_TIMING,
+  parseFramerate,
+  retimeEntries,
+  retimeSrtText,
+  type Timing,
+} from './lib/retime.js';
+import { detectSubtitleFormat, formatSrt, parseSubtitleFile, parseSubtitles } from './lib/subtitles.js';
+
+interface CliOptions {
+  inputPath: string;
+  outputPath: string;
+  offsetMs: number | null;
+  fps: { from: number; to: number } | null;
+  referencePath: string | null;
+  maxOffsetMs: number | undefined;
+  inPlace: boolean;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const content = readFileSync(options.inputPath, 'utf8');
+  const format = detectSubtitleFormat(options.inputPath, content);
+  const entries = parseSubtitles(content, format);
+  if (!entries.length) {
+    console.error(`No subtitle lines found in ${options.inputPath}.`);
+    process.exit(1);
+  }
+
+  let timing: Timing = IDENTITY_TIMING;
+  if (options.referencePath) {
+    // Non-speech captions rarely exist in both tracks; leave them out of the fit.
+    const speech = (list: typeof entries) =>
+      list.filter((entry) => !extractAnnotations(entry.text).nonSpeech);
+    const fit = fitTiming(
+      speech(parseSubtitleFile(options.referencePath)),
+      speech(entries),
+      options.maxOffsetMs,
+    );
+    if (!fit.matched) {
+      console.error(`No cues of ${basename(options.inputPath)} line up with ${basename(options.referencePath)}.`);
+      process.exit(1);
+    }
+    timing = fit;
+    console.log(
+      `Fitted against ${basename(options.referencePath)} from ${fit.matched} matched cue(s), residual ${fit.residualMs} ms.`,
+    );
+  } else {
+    if (options.fps) timing = composeTiming(timing, framerateTiming(options.fps.from, options.fps.to));
+    if (options.offsetMs != null) timing = composeTiming(timing, { scale: 1, offsetMs: options.offsetMs });
+  }
+
+  const scaleNote = describeScale(timing.scale);
+  console.log(
+    `Timing: scale ${timing.scale.toFixed(6)}${scaleNote ? ` (${scaleNote})` : ''}, offset ${formatOffset(timing.offsetMs)}.`,
+  );
+
+  const output =
+    format === 'srt' ? retimeSrtText(content, timing) : formatSrt(retimeEntries(entries, timing));
+  if (options.inPlace) {
+    copyFileSync(options.inputPath, `${options.inputPath}.bak`);
+  }
+  writeFileSync(options.outputPath, output, 'utf8');
+
+  const first = retimeEntries(entries.slice(0, 1), timing)[0];
+  const last = retimeEntries(entries.slice(-1), timing)[0];
+  console.log(
+    `Retimed ${entries.length} cue(s): first ${entries[0].start} -> ${first.start}, last ${entries[entries.length - 1].start} -> ${last.start}.`,
+  );
+  console.log(`Corrected subtitles written to ${options.outputPath}`);
+  if (options.inPlace) console.log(`Original kept at ${options.inputPath}.bak`);
+}
+
+function parseOptions(tokens: string[]): CliOptions {
+  const inputPath = resolve(tokens[0]);
+  if (!existsSync(inputPath)) {
+    throw new Error(`Subtitle file not found at ${inputPath}.`);
+  }
+
+  const opts: CliOptions = {
+    inputPath,
+    outputPath: '',
+    offsetMs: null,
+    fps: null,
+    referencePath: null,
+    maxOffsetMs: undefined,
+    inPlace: false,
+  };
+
+  for (let i = 1; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    switch (token) {
+      case '--offset':
+        opts.offsetMs = parseNumber(requireArgument(tokens, ++i, '--offset'), '--offset');
+        break;
+      case '--fps': {
+        const value = requireArgument(tokens, ++i, '--fps');
+        const [from, to] = value.split(':');
+        if (!from || !to) {
+          throw new Error(`--fps expects <from>:<to>, e.g. 25:23.976, got "${value}".`);
+        }
+        opts.fps = { from: parseFramerate(from), to: parseFramerate(to) };
+        break;
+      }
+      case '--sync-to':
+        opts.referencePath = resolve(requireArgument(tokens, ++i, '--sync-to'));
+        break;
+      case '--max-offset':
+        opts.maxOffsetMs = parseNumber(requireArgument(tokens, ++i, '--max-offset'), '--max-offset');
+        break;
+      case '--out':
+        opts.outputPath = resolve(requireArgument(tokens, ++i, '--out'));
+        break;
+      case '--in-place':
+        opts.inPlace = true;
+        break;
+      default:
+        throw new Error(`Unknown option "${token}". Use --help for usage.`);
+    }
+  }
+
+  if (opts.referencePath && (opts.offsetMs != null || opts.fps)) {
+    throw new Error('--sync-to fits the timing itself; drop --offset/--fps.');
+  }
+  if (!opts.referencePath && opts.offsetMs == null && !opts.fps) {
+    throw new Error('Nothing to do: pass --offset, --fps or --sync-to.');
+  }
+  if (opts.referencePath && !existsSync(opts.referencePath)) {
+    throw new Error(`Reference subtitle file not found at ${opts.referencePath}.`);
+  }
+  if (opts.inPlace && (opts.outputPath || extname(inputPath).toLowerCase() !== '.srt')) {
+    throw new Error('--in-place only works on SRT input and cannot be combined with --out.');
+  }
+
+  opts.outputPath =
+    opts.outputPath ||
+    (opts.inPlace
+      ? inputPath
+      : resolve(dirname(inputPath), `${basename(inputPath, extname(inputPath))}.retimed.srt`));
+  return opts;
+}
+
+function requireArgument(tokens: string[], index: number, flag: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${flag} needs an argument.`);
+  }
+  return tokens[index];
+}
+
+function parseNumber(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${flag} expects a number, got "${value}".`);
+  }
+  return parsed;
+}
+
+function formatOffset(offsetMs: number): string {
+  return `${offsetMs >= 0 ? '+' : ''}${Math.round(offsetMs)} ms`;
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/retimeSubs.ts <subtitles> [options]
+
+Options:
+  --offset <ms>          Shift every cue by this many milliseconds (may be negative)
+  --fps <from>:<to>      Rescale cues timed for a <from> fps release to a <to> fps video,
+                         e.g. 25:23.976 (rates may also be written 24000/1001)
+  --sync-to <file>       Fit scale and offset automatically against a track that is in sync
+  --max-offset <ms>      Largest offset tried by --sync-to (default 30000)
+  --out <file>           Destination SRT (default "<input>.retimed.srt")
+  --in-place             Overwrite an SRT input, keeping the original as "<input>.bak"
+  -h, --help             Show this help text
+
+--fps is applied before --offset; --sync-to replaces both. SRT input keeps its
+cue numbers, line breaks and tags. WebVTT and ASS input are converted to SRT.
+Re-run parseSubs.ts (or the series build) afterwards so cards pick up the new times.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,258 @@
+#!/usr/bin/env node
+/**
+ * Local web UI for browsing and fixing episode cards.
+ *
+ * Usage:
+ *   npx tsx scripts/reviewServer.ts [subtitles/<Show>] [--port <n>] [--host <addr>]
+ *
+ * Options:
+ *   --port <n>       Port to listen on (default 4173)
+ *   --host <addr>    Interface to bind (default 127.0.0.1; the server has no authentication)
+ *
+ * Lists every cards/*.cards.json below the folder (default subtitles/) and
+ * shows each card's sentence, word breakdown, translation and its source.
+ * Translation, speaker and token meanings can be edited; edits are written
+ * to the cards file, and translations also to cards/<name>.translations.json.
+ * Audio clips from extractMedia.ts play inline.
+ *
+ * API (JSON):
+ *   GET  /api/episodes                       episodes found under the folder
+ *   GET  /api/cards?episode=<key>            cards of one episode
+ *   POST /api/cards/<id>?episode=<key>       { translation?, speaker?, meanings? }, sent as
+ *                                            application/json from the page's own origin
+ *   GET  /media?episode=<key>&file=<path>    a card's audioFile/imageFile
+ */
+
+import { createReadStream, readFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { dirname, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { readCardsFile, type CardRecord } from './lib/cards.js';
+import {
+  CardEditError,
+  findReviewEpisodes,
+  MEDIA_TYPES,
+  parseCardEdit,
+  resolveMediaPath,
+  saveCardEdit,
+  type CardEdit,
+  type ReviewEpisode,
+} from './lib/review.js';
+
+interface CliOptions {
+  rootDir: string;
+  port: number;
+  host: string;
+}
+
+/** Edits are a few hundred bytes; anything much larger is not from the UI. */
+const MAX_BODY_BYTES = 1_000_000;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const page = readFileSync(resolve(__dirname, 'review/index.html'), 'utf8');
+  const server = createServer((request, response) => {
+    handleRequest(request, response, options, page).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      sendJson(response, 500, { error: message });
+    });
+  });
+
+  server.listen(options.port, options.host, () => {
+    const episodes = findReviewEpisodes(options.rootDir);
+    console.log(`Found ${episodes.length} episode(s) under ${options.rootDir}.`);
+    console.log(`Card review running at http://${options.host}:${options.port}/ (Ctrl+C to stop)`);
+  });
+}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  options: CliOptions,
+  page: string,
+): Promise<void> {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+  const method = request.method ?? 'GET';
+
+  if (method === 'GET' && url.pathname === '/') {
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    response.end(page);
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/api/episodes') {
+    const episodes = findReviewEpisodes(options.rootDir).map(({ key, show, episode }) => ({
+      key,
+      show,
+      episode,
+    }));
+    sendJson(response, 200, { episodes });
+    return;
+  }
+
+  const episode = findEpisode(options.rootDir, url.searchParams.get('episode'));
+
+  if (method === 'GET' && url.pathname === '/api/cards') {
+    if (!episode) return sendJson(response, 404, { error: 'Unknown episode.' });
+    sendJson(response, 200, { episode: episode.key, cards: readCardsFile(episode.cardsPath) });
+    return;
+  }
+
+  const cardMatch = /^\/api\/cards\/(\d+)$/.exec(url.pathname);
+  if (method === 'POST' && cardMatch) {
+    // Other sites can post forms to localhost, but cannot send JSON or forge Origin.
+    if (!isSameOrigin(request)) return sendJson(response, 403, { error: 'Cross-origin edits are refused.' });
+    if (!isJson(request)) return sendJson(response, 415, { error: 'Expected Content-Type: application/json.' });
+    if (!episode) return sendJson(response, 404, { error: 'Unknown episode.' });
+    let edit: CardEdit;
+    try {
+      edit = parseCardEdit(JSON.parse(await readBody(request)));
+    } catch (error) {
+      return sendJson(response, 400, { error: error instanceof Error ? error.message : String(error) });
+    }
+    let card: CardRecord;
+    try {
+      card = saveCardEdit(episode, Number(cardMatch[1]), edit);
+    } catch (error) {
+      if (error instanceof CardEditError) return sendJson(response, error.status, { error: error.message });
+      throw error;
+    }
+    console.log(`Saved card ${card.id} of ${episode.key}.`);
+    sendJson(response, 200, { card });
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/media') {
+    const file = url.searchParams.get('file');
+    const path = episode && file ? resolveMediaPath(episode, file) : null;
+    if (!path) return sendJson(response, 404, { error: 'Media file not found.' });
+    response.writeHead(200, { 'Content-Type': MEDIA_TYPES[extname(path).toLowerCase()] });
+    createReadStream(path)
+      .on('error', (error) => {
+        console.error(`Could not read ${path}: ${error.message}`);
+        sendJson(response, 500, { error: 'Could not read the media file.' });
+      })
+      .pipe(response);
+    return;
+  }
+
+  sendJson(response, 404, { error: `No route for ${method} ${url.pathname}.` });
+}
+
+/** Episodes are looked up fresh on every request so new cards files show up without a restart. */
+function findEpisode(rootDir: string, key: string | null): ReviewEpisode | null {
+  if (!key) return null;
+  return findReviewEpisodes(rootDir).find((episode) => episode.key === key) ?? null;
+}
+
+/** No Origin (curl, scripts) or this server's own; browsers always send it on cross-site POSTs. */
+function isSameOrigin(request: IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  return !origin || origin === `http://${request.headers.host}`;
+}
+
+function isJson(request: IncomingMessage): boolean {
+  return (request.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large.'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, payload: unknown): void {
+  if (response.headersSent) {
+    response.end();
+    return;
+  }
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(payload));
+}
+
+function parseOptions(tokens: string[]): CliOptions {
+  const opts: CliOptions = {
+    rootDir: resolve(__dirname, '../subtitles'),
+    port: 4173,
+    host: '127.0.0.1',
+  };
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    switch (token) {
+      case '--port': {
+        const value = requireArgument(tokens, ++i, '--port');
+        opts.port = Number(value);
+        if (!Number.isInteger(opts.port) || opts.port < 0 || opts.port > 65535) {
+          throw new Error(`--port expects a port number, got "${value}".`);
+        }
+        break;
+      }
+      case '--host':
+        opts.host = requireArgument(tokens, ++i, '--host');
+        break;
+      default:
+        if (token.startsWith('--')) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        }
+        opts.rootDir = resolve(token);
+        break;
+    }
+  }
+  return opts;
+}
+
+function requireArgument(tokens: string[], index: number, flag: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${flag} needs an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/reviewServer.ts [folder] [options]
+
+Options:
+  --port <n>       Port to listen on (default 4173)
+  --host <addr>    Interface to bind (default 127.0.0.1; there is no authentication)
+  -h, --help       Show this help text
+
+Serves a browser UI for every cards/*.cards.json below the folder (default
+subtitles/). Edited translations are saved to the cards file and to
+cards/<name>.translations.json so the next enrichment run keeps them.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
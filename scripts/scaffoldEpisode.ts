@@ -3,14 +3,19 @@
  * Helper script to create the standard subtitle folder structure.
  *
  * Usage:
- *   npx tsx scripts/scaffoldEpisode.ts <ShowSlug> <EpisodeNumber> [jaSource.srt] [enSource.srt]
+ *   npx tsx scripts/scaffoldEpisode.ts <ShowSlug> <EpisodeNumber> [jaSource] [enSource] [--video <file>]
+ *
+ * Subtitle sources may be .srt, .vtt, .ass or .ssa; the extension is kept.
+ * The video is copied next to raw/ so extractMedia.ts can find it.
  *
  * Example:
  *   npx tsx scripts/scaffoldEpisode.ts ChainsawMan 01 ./downloads/ep1.ja.srt ./downloads/ep1.en.srt
  */
 
 import { copyFileSync, existsSync, mkdirSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { extname, resolve } from 'node:path';
+import { VIDEO_EXTENSIONS } from './lib/episodes.js';
+import { SUBTITLE_EXTENSIONS } from './lib/subtitles.js';
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
@@ -20,7 +25,14 @@ async function main(): Promise<void> {
     process.exit(args.length ? 0 : 1);
   }
 
-  const [showSlug, episodeArg, jaSource, enSource] = args;
+  const videoFlag = args.indexOf('--video');
+  const videoSource = videoFlag === -1 ? null : args[videoFlag + 1];
+  if (videoFlag !== -1 && !videoSource) {
+    throw new Error('--video needs a file path argument.');
+  }
+  const positional = videoFlag === -1 ? args : [...args.slice(0, videoFlag), ...args.slice(videoFlag + 2)];
+
+  const [showSlug, episodeArg, jaSource, enSource] = positional;
   const episodeId = formatEpisodeId(episodeArg);
 
   const showDir = resolve('subtitles', showSlug);
@@ -36,15 +48,21 @@ async function main(): Promise<void> {
   const summary: string[] = [];
 
   if (jaSource) {
-    const target = resolve(rawDir, `episode${episodeId}.ja.srt`);
+    const target = resolve(rawDir, `episode${episodeId}.ja${subtitleExtension(jaSource)}`);
     copyIntoPlace(jaSource, target);
-    summary.push(`Japanese SRT copied to ${target}`);
+    summary.push(`Japanese subtitles copied to ${target}`);
   }
 
   if (enSource) {
-    const target = resolve(rawDir, `episode${episodeId}.en.srt`);
+    const target = resolve(rawDir, `episode${episodeId}.en${subtitleExtension(enSource)}`);
     copyIntoPlace(enSource, target);
-    summary.push(`English SRT copied to ${target}`);
+    summary.push(`English subtitles copied to ${target}`);
+  }
+
+  if (videoSource) {
+    const target = resolve(episodeDir, `episode${episodeId}${videoExtension(videoSource)}`);
+    copyIntoPlace(videoSource, target);
+    summary.push(`Video copied to ${target}`);
   }
 
   console.log(`Episode scaffold ready at ${episodeDir}`);
@@ -69,6 +87,27 @@ function copyIntoPlace(source: string, destination: string): void {
   copyFileSync(resolvedSource, destination);
 }
 
+function subtitleExtension(source: string): string {
+  const extension = extname(source).toLowerCase();
+  if (!extension) return '.srt';
+  if (!SUBTITLE_EXTENSIONS.includes(extension)) {
+    throw new Error(
+      `Unsupported subtitle format "${extension}" for ${source}. Expected one of ${SUBTITLE_EXTENSIONS.join(', ')}.`,
+    );
+  }
+  return extension;
+}
+
+function videoExtension(source: string): string {
+  const extension = extname(source).toLowerCase();
+  if (!VIDEO_EXTENSIONS.includes(extension)) {
+    throw new Error(
+      `Unsupported video format "${extension}" for ${source}. Expected one of ${VIDEO_EXTENSIONS.join(', ')}.`,
+    );
+  }
+  return extension;
+}
+
 function formatEpisodeId(value?: string): string {
   if (!value) return '01';
   if (/^\d+$/.test(value)) {
@@ -78,11 +117,15 @@ function formatEpisodeId(value?: string): string {
 }
 
 function printUsage(): void {
-  console.log(`Usage: npx tsx scripts/scaffoldEpisode.ts <ShowSlug> <EpisodeNumber> [ja.srt] [en.srt]
+  console.log(`Usage: npx tsx scripts/scaffoldEpisode.ts <ShowSlug> <EpisodeNumber> [ja subtitles] [en subtitles] [--video <file>]
+
+Subtitle files may be .srt, .vtt, .ass or .ssa. The video is copied next to raw/
+for extractMedia.ts.
 
 Examples:
   npx tsx scripts/scaffoldEpisode.ts ChainsawMan 01 ./downloads/ep1.ja.srt ./downloads/ep1.en.srt
   npx tsx scripts/scaffoldEpisode.ts ChainsawMan 02
+  npx tsx scripts/scaffoldEpisode.ts ChainsawMan 03 ep3.ja.ass ep3.en.srt --video ./downloads/ep3.mkv
 `);
 }
 
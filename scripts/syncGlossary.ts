@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+/**
+ * Upload a show glossary to DeepL so `--translator deepl` applies it
+ * natively (Japanese → English).
+ *
+ * Usage:
+ *   npx tsx scripts/syncGlossary.ts subtitles/<Show> [options]
+ *   npx tsx scripts/syncGlossary.ts subtitles/<Show>/glossary.json [options]
+ *
+ * Options:
+ *   --name <name>          Glossary name on DeepL (default: "<Show> glossary")
+ *   --deepl-server <url>   API server URL (defaults to $DEEPL_SERVER_URL, else the free/pro endpoint)
+ *   --force                Upload even when the last upload matches the file
+ *
+ * Needs DEEPL_API_KEY. DeepL glossaries cannot be edited, so a changed file
+ * is uploaded as a new glossary and the previous one is deleted. The id is
+ * written to glossary.deepl.json next to the file; enrichCards.ts and
+ * buildSeries.ts use it whenever it still matches the glossary.
+ */
+
+import 'dotenv/config';
+import { existsSync, statSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import {
+  deeplStatePath,
+  GLOSSARY_FILE,
+  loadGlossary,
+  syncDeepLGlossary,
+  writeDeepLState,
+} from './lib/glossary.js';
+
+interface CliOptions {
+  glossaryPath: string;
+  name: string;
+  serverUrl: string | null;
+  force: boolean;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const authKey = process.env.DEEPL_API_KEY;
+  if (!authKey) {
+    console.error('DEEPL_API_KEY environment variable is required to upload a glossary.');
+    process.exit(1);
+  }
+
+  const glossary = loadGlossary(options.glossaryPath);
+  const { state, created, deletedId } = await syncDeepLGlossary(glossary, {
+    authKey,
+    serverUrl: options.serverUrl,
+    name: options.name,
+    force: options.force,
+  });
+
+  if (!created) {
+    console.log(`DeepL glossary ${state.glossaryId} already matches ${options.glossaryPath}; nothing to upload.`);
+    return;
+  }
+  writeDeepLState(options.glossaryPath, state);
+  console.log(`Uploaded ${state.entryCount} term(s) as DeepL glossary "${state.name}" (${state.glossaryId}).`);
+  if (deletedId) console.log(`Deleted the previous upload ${deletedId}.`);
+  console.log(`Glossary id saved to ${deeplStatePath(options.glossaryPath)}`);
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  let input: string | null = null;
+  let name: string | null = null;
+  let serverUrl = process.env.DEEPL_SERVER_URL || null;
+  let force = false;
+
+  for (let i = 0; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--name':
+        name = ensureNext(cliArgs, ++i, '--name');
+        break;
+      case '--deepl-server':
+        serverUrl = ensureNext(cliArgs, ++i, '--deepl-server');
+        break;
+      case '--force':
+        force = true;
+        break;
+      default:
+        if (token.startsWith('--') || input) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        }
+        input = resolve(token);
+    }
+  }
+
+  if (!input) {
+    throw new Error('A show folder or glossary file is required.');
+  }
+  const glossaryPath =
+    existsSync(input) && statSync(input).isDirectory() ? resolve(input, GLOSSARY_FILE) : input;
+  if (!existsSync(glossaryPath)) {
+    throw new Error(`Glossary not found at ${glossaryPath}.`);
+  }
+
+  return {
+    glossaryPath,
+    name: name ?? `${basename(dirname(glossaryPath))} glossary`,
+    serverUrl,
+    force,
+  };
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/syncGlossary.ts <subtitles/<Show> | glossary.json> [options]
+
+Options:
+  --name <name>          Glossary name on DeepL (default: "<Show> glossary")
+  --deepl-server <url>   API server URL ($DEEPL_SERVER_URL; defaults to the free/pro endpoint for the key)
+  --force                Upload even when the last upload matches the file
+  -h, --help             Show this help text
+
+Needs DEEPL_API_KEY. The glossary id is saved to glossary.deepl.json next to the
+file and used by enrichCards.ts/buildSeries.ts with --translator deepl.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+/**
+ * Inspect and undo translation changes on cards.
+ *
+ * Usage:
+ *   npx tsx scripts/translationHistory.ts diff before.cards.json after.cards.json
+ *   npx tsx scripts/translationHistory.ts log subtitles/<Show>/episodeXX/cards/episodeXX.cards.json [<card id> ...]
+ *   npx tsx scripts/translationHistory.ts revert <cards.json> <card id> [...] [--to <n>]
+ *   npx tsx scripts/translationHistory.ts revert <cards.json> --source deepl [--since <time>]
+ *
+ * Options:
+ *   --to <n>               History entry to restore, as numbered by `log` (default: the latest)
+ *   --source <name>        Revert every card whose translation came from this provider or source
+ *   --since <time>         With --source: only translations produced at or after this date/time
+ *   --translations <file>  Translation cache to update (defaults to cards/<name>.translations.json)
+ *   --dry-run              Show what revert would change without writing anything
+ *
+ * Every card keeps the translations it had before (`translationHistory`),
+ * with the source, provider, formality, glossary and time of each. Reverted
+ * translations are saved as hand edits, to the cards file and to the
+ * translation cache, so the next enrichment run keeps them.
+ */
+
+import { existsSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { readCardsFile, writeCardsFile, type CardRecord } from './lib/cards.js';
+import {
+  currentRevision,
+  describeRevision,
+  diffCardTranslations,
+  revertCard,
+  revertSource,
+  type RevertResult,
+} from './lib/history.js';
+import {
+  loadTranslationHints,
+  MANUAL_SOURCE,
+  persistTranslations,
+  registerGeneratedTranslation,
+  sanitizeOrigin,
+} from './lib/translations.js';
+
+type Command = 'diff' | 'log' | 'revert';
+
+interface CliOptions {
+  command: Command;
+  files: string[];
+  cardIds: number[];
+  revision: number | null;
+  source: string | null;
+  since: string | null;
+  translationsPath: string | null;
+  dryRun: boolean;
+}
+
+const COMMANDS: Command[] = ['diff', 'log', 'revert'];
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(args.length ? 0 : 1);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  switch (options.command) {
+    case 'diff':
+      printDiff(options.files[0], options.files[1]);
+      break;
+    case 'log':
+      printLog(readCardsFile(options.files[0]), options.cardIds);
+      break;
+    case 'revert':
+      runRevert(options);
+      break;
+    default:
+      break;
+  }
+}
+
+function printDiff(beforePath: string, afterPath: string): void {
+  const changes = diffCardTranslations(readCardsFile(beforePath), readCardsFile(afterPath));
+  changes.forEach((change) => {
+    console.log(`#${change.id}${change.startTime ? ` ${change.startTime}` : ''} ${change.sentence}`);
+    if (change.before) console.log(`  - ${change.before.translation}  (${describeRevision(change.before)})`);
+    if (change.after) console.log(`  + ${change.after.translation}  (${describeRevision(change.after)})`);
+  });
+  const changed = changes.filter((change) => change.before && change.after).length;
+  const added = changes.filter((change) => !change.before).length;
+  const removed = changes.filter((change) => !change.after).length;
+  console.log(
+    `${changed} translation(s) changed, ${added} added, ${removed} removed between ${basename(beforePath)} and ${basename(afterPath)}.`,
+  );
+}
+
+function printLog(cards: CardRecord[], cardIds: number[]): void {
+  const selected = cardIds.length
+    ? cardIds.map((id) => {
+        const card = cards.find((candidate) => candidate.id === id);
+        if (!card) throw new Error(`Card ${id} not found.`);
+        return card;
+      })
+    : cards.filter((card) => card.translationHistory?.length);
+
+  if (!selected.length) {
+    console.log('No card has earlier translations yet.');
+    return;
+  }
+  selected.forEach((card) => {
+    console.log(`#${card.id}${card.startTime ? ` ${card.startTime}` : ''} ${(card.sentence || '').trim()}`);
+    (card.translationHistory ?? []).forEach((revision, idx) => {
+      console.log(`  [${idx}] ${revision.translation}  (${describeRevision(revision)})`);
+    });
+    const current = currentRevision(card);
+    console.log(`  now ${current ? `${current.translation}  (${describeRevision(current)})` : '(no translation)'}`);
+  });
+}
+
+function runRevert(options: CliOptions): void {
+  const cardsPath = options.files[0];
+  const cards = readCardsFile(cardsPath);
+  let updated: CardRecord[];
+  let reverted: RevertResult[];
+
+  if (options.source) {
+    const result = revertSource(cards, options.source, options.since);
+    updated = result.cards;
+    reverted = result.reverted;
+    if (result.skipped.length) {
+      console.warn(
+        `${result.skipped.length} card(s) from ${options.source} have no earlier translation from elsewhere: ${result.skipped.map((card) => `#${card.id}`).join(', ')}`,
+      );
+    }
+  } else {
+    reverted = options.cardIds.map((id) => {
+      const card = cards.find((candidate) => candidate.id === id);
+      if (!card) throw new Error(`Card ${id} not found.`);
+      return revertCard(card, options.revision ?? undefined);
+    });
+    const byId = new Map(reverted.map((result) => [result.card.id, result.card]));
+    updated = cards.map((card) => byId.get(card.id) ?? card);
+  }
+
+  reverted.forEach(({ card, restored, replaced }) => {
+    console.log(`#${card.id} ${(card.sentence || '').trim()}`);
+    if (replaced) console.log(`  - ${replaced.translation}  (${describeRevision(replaced)})`);
+    console.log(`  + ${restored.translation}  (${describeRevision(restored)})`);
+  });
+
+  if (options.dryRun) {
+    console.log(`Dry run: ${reverted.length} card(s) would be reverted.`);
+    return;
+  }
+  if (!reverted.length) {
+    console.log('Nothing to revert.');
+    return;
+  }
+
+  writeCardsFile(cardsPath, updated);
+  console.log(`Reverted ${reverted.length} card(s) in ${cardsPath}`);
+
+  const translationsPath = options.translationsPath ?? defaultCachePath(cardsPath);
+  const translations = loadTranslationHints(existsSync(translationsPath) ? translationsPath : null);
+  reverted.forEach(({ card, restored }) => {
+    registerGeneratedTranslation(translations, card, restored.translation, {
+      ...sanitizeOrigin({ ...restored }),
+      source: MANUAL_SOURCE,
+    });
+  });
+  persistTranslations(translations, translationsPath);
+}
+
+function defaultCachePath(cardsPath: string): string {
+  const base = basename(cardsPath, extname(cardsPath)).replace(/\.cards$/i, '');
+  return resolve(dirname(cardsPath), `${base}.translations.json`);
+}
+
+function parseOptions(cliArgs: string[]): CliOptions {
+  const command = cliArgs[0] as Command;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${cliArgs[0]}". Expected one of: ${COMMANDS.join(', ')}.`);
+  }
+
+  const opts: CliOptions = {
+    command,
+    files: [],
+    cardIds: [],
+    revision: null,
+    source: null,
+    since: null,
+    translationsPath: null,
+    dryRun: false,
+  };
+
+  for (let i = 1; i < cliArgs.length; i += 1) {
+    const token = cliArgs[i];
+    switch (token) {
+      case '--to': {
+        const value = ensureNext(cliArgs, ++i, '--to');
+        opts.revision = Number(value);
+        if (!Number.isInteger(opts.revision) || opts.revision < 0) {
+          throw new Error(`--to expects a history number from "log", got "${value}".`);
+        }
+        break;
+      }
+      case '--source':
+        opts.source = ensureNext(cliArgs, ++i, '--source');
+        break;
+      case '--since': {
+        const value = ensureNext(cliArgs, ++i, '--since');
+        const time = new Date(value);
+        if (Number.isNaN(time.getTime())) {
+          throw new Error(`--since expects a date or date-time, got "${value}".`);
+        }
+        opts.since = time.toISOString();
+        break;
+      }
+      case '--translations':
+        opts.translationsPath = resolve(ensureNext(cliArgs, ++i, '--translations'));
+        break;
+      case '--dry-run':
+        opts.dryRun = true;
+        break;
+      default:
+        if (token.startsWith('--')) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        }
+        if (opts.files.length < (command === 'diff' ? 2 : 1)) {
+          opts.files.push(resolve(token));
+        } else if (/^\d+$/.test(token)) {
+          opts.cardIds.push(Number(token));
+        } else {
+          throw new Error(`Expected a card id, got "${token}".`);
+        }
+    }
+  }
+
+  if (command === 'diff' && opts.files.length < 2) {
+    throw new Error('"diff" needs two cards files.');
+  }
+  if (!opts.files.length) {
+    throw new Error(`"${command}" needs a cards file.`);
+  }
+  const missing = opts.files.find((file) => !existsSync(file));
+  if (missing) throw new Error(`File not found: ${missing}`);
+  if (command === 'revert' && !opts.source && !opts.cardIds.length) {
+    throw new Error('"revert" needs card ids or --source <name>.');
+  }
+  if (opts.source && opts.cardIds.length) {
+    throw new Error('Give either card ids or --source, not both.');
+  }
+  if (opts.since && !opts.source) {
+    throw new Error('--since only applies together with --source.');
+  }
+
+  return opts;
+}
+
+function ensureNext(tokens: string[], index: number, optionName: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${optionName} requires an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage:
+  npx tsx scripts/translationHistory.ts diff <before.cards.json> <after.cards.json>
+  npx tsx scripts/translationHistory.ts log <cards.json> [<card id> ...]
+  npx tsx scripts/translationHistory.ts revert <cards.json> <card id> [...] [--to <n>]
+  npx tsx scripts/translationHistory.ts revert <cards.json> --source <name> [--since <time>]
+
+Options:
+  --to <n>               History entry to restore, as numbered by "log" (default: the latest)
+  --source <name>        Revert every card whose translation came from this provider or source
+  --since <time>         With --source: only translations produced at or after this date/time
+  --translations <path>  Translation cache to update (defaults to cards/<name>.translations.json)
+  --dry-run              Show what revert would change without writing anything
+  -h, --help             Show this help text
+
+"log" without ids lists every card that has earlier translations. Reverted
+translations become hand edits ("manual"), which provider runs never overwrite.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.stack ?? error.message : error);
+  process.exit(1);
+});
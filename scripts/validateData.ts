@@ -0,0 +1,307 @@
+#!/usr/bin/env node
+/**
+ * Check cards, translation caches, dictionaries and glossaries against their schemas and
+ * optionally rewrite older files in the current versioned format.
+ *
+ * Usage:
+ *   npx tsx scripts/validateData.ts [file|dir ...] [--kind <kind>] [--migrate]
+ *
+ * Options:
+ *   --kind <kind>   Treat every file as cards, translations, dictionary or glossary
+ *                   (default: from the envelope or the file name)
+ *   --migrate       Rewrite unversioned files as current-version envelopes; translation
+ *                   entries without a sentence get it from the episode's raw Japanese track
+ *
+ * Directories (default: subtitles/ and data/) are searched for *.cards.json,
+ * *.translations.json, *.aligned.json, *-dict.json, glossary.json and JMdict .sqlite stores.
+ * Problems are printed as "file:line: error|warning: message (json.path)";
+ * the exit code is 1 when any file has errors.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, extname, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import initSqlJs from 'sql.js';
+import { extractAnnotations } from './lib/annotations.js';
+import { findJapaneseTrack } from './lib/episodes.js';
+import { readStoreVersion, STORE_VERSION } from './lib/jmdict.js';
+import {
+  detectKind,
+  formatIssue,
+  readDataFile,
+  SCHEMA_VERSIONS,
+  serializeDataFile,
+  type DataFile,
+  type DataKind,
+  type SchemaIssue,
+} from './lib/schema.js';
+import { parseSubtitleFile } from './lib/subtitles.js';
+
+interface CliOptions {
+  paths: string[];
+  kind: DataKind | null;
+  migrate: boolean;
+}
+
+interface FileReport {
+  errors: number;
+  warnings: number;
+  migrated: boolean;
+}
+
+const KINDS: DataKind[] = ['cards', 'translations', 'dictionary', 'glossary'];
+const STORE_EXTENSIONS = ['.sqlite', '.db'];
+/** Identical messages beyond this many are summarized as "... and N more". */
+const MAX_REPEATS = 5;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+    return;
+  }
+
+  const files = options.paths.flatMap((path) => collectFiles(path, options.kind));
+  if (!files.length) {
+    console.error(`No data files found under ${options.paths.map(displayPath).join(', ')}.`);
+    process.exit(1);
+  }
+
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    const isStore = STORE_EXTENSIONS.includes(extname(file).toLowerCase());
+    reports.push(isStore ? await checkStore(file, options) : checkJsonFile(file, options));
+  }
+
+  const errors = reports.reduce((sum, report) => sum + report.errors, 0);
+  const warnings = reports.reduce((sum, report) => sum + report.warnings, 0);
+  const migrated = reports.filter((report) => report.migrated).length;
+  console.log(
+    `Checked ${files.length} file(s): ${errors} error(s), ${warnings} warning(s)${migrated ? `, ${migrated} migrated` : ''}.`,
+  );
+  if (errors) process.exitCode = 1;
+}
+
+function checkJsonFile(file: string, options: CliOptions): FileReport {
+  const shown = displayPath(file);
+  let data: DataFile;
+  try {
+    data = readDataFile(file, options.kind);
+  } catch (error) {
+    console.log(error instanceof Error ? error.message.replace(file, shown) : error);
+    return { errors: 1, warnings: 0, migrated: false };
+  }
+
+  const current = SCHEMA_VERSIONS[data.kind];
+  const hasErrors = data.issues.some((issue) => issue.severity === 'error');
+  let migrated = false;
+  if (data.version < current && options.migrate && !hasErrors) {
+    const filled = data.kind === 'translations' ? backfillSentences(file, data.items) : 0;
+    writeFileSync(file, serializeDataFile(data.kind, data.items), 'utf8');
+    migrated = true;
+    console.log(
+      `${shown}: migrated to ${data.kind} version ${current}${filled ? `, ${filled} sentence(s) filled in from the Japanese track` : ''}.`,
+    );
+    data = readDataFile(file, data.kind);
+  }
+
+  const errors = data.issues.filter((issue) => issue.severity === 'error');
+  const warnings = data.issues.filter((issue) => issue.severity === 'warning');
+  printIssues(shown, data.issues, data.lines);
+  if (data.version < current) {
+    console.log(
+      options.migrate
+        ? `${shown}: not migrated; fix the errors above first.`
+        : `${shown}: unversioned ${data.kind} file; run with --migrate to rewrite it as version ${current}.`,
+    );
+  }
+
+  const status =
+    errors.length || warnings.length
+      ? `${errors.length} error(s), ${warnings.length} warning(s)`
+      : 'ok';
+  console.log(`${shown}: ${data.kind} v${data.version}, ${data.items.length} item(s), ${status}.`);
+  return { errors: errors.length, warnings: warnings.length, migrated };
+}
+
+async function checkStore(file: string, options: CliOptions): Promise<FileReport> {
+  const shown = displayPath(file);
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(readFileSync(file));
+  try {
+    const hasMeta = db.exec(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'meta'",
+    ).length;
+    if (!hasMeta) {
+      console.log(`${shown}: error: not a JMdict store built by importJmdict.ts (no meta table).`);
+      return { errors: 1, warnings: 0, migrated: false };
+    }
+    const version = readStoreVersion(db);
+    if (version > STORE_VERSION) {
+      console.log(
+        `${shown}: error: store version ${version} is newer than this version of the scripts (${STORE_VERSION}).`,
+      );
+      return { errors: 1, warnings: 0, migrated: false };
+    }
+    if (version < STORE_VERSION && options.migrate) {
+      db.run('INSERT OR REPLACE INTO meta VALUES (?, ?)', ['schemaVersion', String(STORE_VERSION)]);
+      writeFileSync(file, db.export());
+      console.log(`${shown}: JMdict store v${STORE_VERSION} (migrated).`);
+      return { errors: 0, warnings: 0, migrated: true };
+    }
+    if (version < STORE_VERSION) {
+      console.log(
+        `${shown}: unversioned JMdict store; run with --migrate to record version ${STORE_VERSION}.`,
+      );
+    }
+    console.log(`${shown}: JMdict store v${version}, ok.`);
+    return { errors: 0, warnings: 0, migrated: false };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Older translation caches only carry subtitle ids, which silently go stale
+ * when cues are renumbered; recover each entry's sentence from the raw track.
+ */
+function backfillSentences(file: string, items: unknown[]): number {
+  const trackPath = findJapaneseTrack(file);
+  if (!trackPath) return 0;
+
+  const bySubtitleId = new Map<string, string>();
+  const byIndex = new Map<string, string>();
+  parseSubtitleFile(trackPath).forEach((entry) => {
+    const { text } = extractAnnotations(entry.text);
+    if (!text.trim()) return;
+    bySubtitleId.set(String(entry.rawId), text.trim());
+    byIndex.set(String(entry.index), text.trim());
+  });
+
+  let filled = 0;
+  items.forEach((item) => {
+    const entry = item as Record<string, unknown>;
+    if (typeof entry.sentence === 'string' && entry.sentence.trim()) return;
+    const sentence =
+      (entry.subtitleId != null ? bySubtitleId.get(String(entry.subtitleId)) : undefined) ??
+      (entry.id != null ? byIndex.get(String(entry.id)) : undefined);
+    if (!sentence) return;
+    entry.sentence = sentence;
+    filled += 1;
+  });
+  return filled;
+}
+
+function printIssues(file: string, issues: SchemaIssue[], lines: Map<string, number>): void {
+  const byMessage = new Map<string, SchemaIssue[]>();
+  issues.forEach((issue) => {
+    const key = `${issue.severity}:${issue.message}`;
+    byMessage.set(key, [...(byMessage.get(key) ?? []), issue]);
+  });
+  byMessage.forEach((group) => {
+    group.slice(0, MAX_REPEATS).forEach((issue) => console.log(formatIssue(file, issue, lines)));
+    if (group.length > MAX_REPEATS) {
+      console.log(
+        `${file}: ${group[0].severity}: ... and ${group.length - MAX_REPEATS} more like this`,
+      );
+    }
+  });
+}
+
+function collectFiles(path: string, kind: DataKind | null): string[] {
+  if (!existsSync(path)) {
+    console.warn(`Skipping ${displayPath(path)}: not found.`);
+    return [];
+  }
+  if (!statSync(path).isDirectory()) return [path];
+
+  const found: string[] = [];
+  readdirSync(path, { withFileTypes: true }).forEach((entry) => {
+    const child = resolve(path, entry.name);
+    if (entry.isDirectory()) {
+      found.push(...collectFiles(child, kind));
+    } else if (STORE_EXTENSIONS.includes(extname(entry.name).toLowerCase())) {
+      if (!kind || kind === 'dictionary') found.push(child);
+    } else if (extname(entry.name).toLowerCase() === '.json') {
+      const detected = detectKind(child, null);
+      if (detected && (!kind || kind === detected)) found.push(child);
+    }
+  });
+  return found.sort();
+}
+
+function displayPath(path: string): string {
+  return relative(process.cwd(), path) || path;
+}
+
+function parseOptions(tokens: string[]): CliOptions {
+  const opts: CliOptions = { paths: [], kind: null, migrate: false };
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    switch (token) {
+      case '--kind': {
+        const value = requireArgument(tokens, ++i, '--kind');
+        if (!KINDS.includes(value as DataKind)) {
+          throw new Error(`--kind expects one of ${KINDS.join(', ')}, got "${value}".`);
+        }
+        opts.kind = value as DataKind;
+        break;
+      }
+      case '--migrate':
+        opts.migrate = true;
+        break;
+      default:
+        if (token.startsWith('--')) {
+          throw new Error(`Unknown option "${token}". Use --help for usage.`);
+        }
+        opts.paths.push(resolve(token));
+        break;
+    }
+  }
+
+  if (!opts.paths.length) {
+    opts.paths = [resolve(__dirname, '../subtitles'), resolve(__dirname, '../data')];
+  }
+  return opts;
+}
+
+function requireArgument(tokens: string[], index: number, flag: string): string {
+  if (index >= tokens.length) {
+    throw new Error(`${flag} needs an argument.`);
+  }
+  return tokens[index];
+}
+
+function printUsage(): void {
+  console.log(`Usage: npx tsx scripts/validateData.ts [file|dir ...] [options]
+
+Options:
+  --kind <kind>   Treat every file as cards, translations, dictionary or glossary
+                  (default: from the file's envelope or name)
+  --migrate       Rewrite unversioned files in the current format; translation entries
+                  without a sentence get it from the episode's raw Japanese track
+  -h, --help      Show this help text
+
+Directories default to subtitles/ and data/ and are searched for *.cards.json,
+*.translations.json, *.aligned.json, *-dict.json, glossary.json and JMdict .sqlite stores.
+Exits with status 1 when any file has schema errors.
+`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? (error.stack ?? error.message) : error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { alignSubtitles, toTranslationEntries } from '../scripts/lib/align.js';
+import { cue } from './helpers.js';
+
+const JAPANESE = [
+  cue(1, 1000, 2500, '腹 減った'),
+  cue(2, 3000, 4000, '（デンジ）借金を'),
+  cue(3, 4000, 5500, '返す'),
+  cue(4, 8000, 9000, 'ポチタ'),
+];
+
+/** Two seconds late, with one line spanning Japanese cues 2 and 3 and an extra cue at the end. */
+const ENGLISH = [
+  cue(1, 3000, 4500, "I'm starving."),
+  cue(2, 5000, 7500, 'I have to pay back the debt.'),
+  cue(3, 10000, 11000, 'Pochita!'),
+  cue(4, 22000, 23000, 'Credits'),
+];
+
+const matches = (result: ReturnType<typeof alignSubtitles>) =>
+  result.cues.map((item) => [
+    item.japanese.index,
+    item.english.map((entry) => entry.index),
+    item.confidence,
+    item.shared,
+  ]);
+
+describe('alignSubtitles', () => {
+  it('estimates the offset and shares a long English cue between the Japanese cues it covers', () => {
+    const result = alignSubtitles(JAPANESE, ENGLISH);
+    assert.equal(result.offsetMs, -2000);
+    assert.deepEqual(matches(result), [
+      [1, [1], 1, false],
+      [2, [2], 0.4, true],
+      [3, [2], 0.6, true],
+      [4, [3], 1, false],
+    ]);
+    assert.deepEqual(
+      result.unmatchedEnglish.map((entry) => entry.text),
+      ['Credits'],
+    );
+  });
+
+  it('uses a given offset as is', () => {
+    const result = alignSubtitles(JAPANESE, ENGLISH, { offsetMs: 0 });
+    assert.equal(result.offsetMs, 0);
+    assert.deepEqual(
+      result.cues.map((item) => [item.japanese.index, item.english.map((entry) => entry.index)]),
+      [
+        [2, [1]],
+        [3, [1]],
+      ],
+    );
+  });
+});
+
+describe('toTranslationEntries', () => {
+  it('keeps confident matches, without speaker annotations in the sentence', () => {
+    const entries = toTranslationEntries(alignSubtitles(JAPANESE, ENGLISH), 0.4);
+    assert.deepEqual(
+      entries.map(({ id, sentence, translation, confidence }) => ({ id, sentence, translation, confidence })),
+      [
+        { id: 1, sentence: '腹 減った', translation: "I'm starving.", confidence: 1 },
+        { id: 2, sentence: '借金を', translation: 'I have to pay back the debt.', confidence: 0.4 },
+        { id: 3, sentence: '返す', translation: 'I have to pay back the debt.', confidence: 0.6 },
+        { id: 4, sentence: 'ポチタ', translation: 'Pochita!', confidence: 1 },
+      ],
+    );
+    assert.deepEqual(
+      toTranslationEntries(alignSubtitles(JAPANESE, ENGLISH), 0.5).map((entry) => entry.id),
+      [1, 3, 4],
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderBilingual, type BilingualOptions } from '../scripts/lib/bilingual.js';
+import type { CardRecord } from '../scripts/lib/cards.js';
+import { card } from './helpers.js';
+
+const CARDS = [
+  card(1, '金を売った', {
+    startMs: 1000,
+    endMs: 2500,
+    translation: 'I sold the gold.',
+    furigana: '金[きん]を 売[う]った',
+  }),
+  card(2, '（笑い声）', { startMs: 3000, endMs: 4000, translation: '（笑い声）', nonSpeech: '笑い声' }),
+  card(3, 'ポチタ <行くぞ>', { startMs: 5000, endMs: 6000, translation: "Let's go & win." }),
+];
+
+const options = (overrides: Partial<BilingualOptions> = {}): BilingualOptions => ({
+  showEnglish: () => true,
+  dropNonSpeech: false,
+  title: 'episode01',
+  ...overrides,
+});
+
+describe('renderBilingual', () => {
+  it('writes Japanese over English in SRT, without an English line for non-speech cues', () => {
+    assert.equal(
+      renderBilingual(CARDS, 'srt', options({ dropNonSpeech: true })),
+      '1\n00:00:01,000 --> 00:00:02,500\n金を売った\nI sold the gold.\n\n' +
+        "2\n00:00:05,000 --> 00:00:06,000\nポチタ <行くぞ>\nLet's go & win.\n",
+    );
+    assert.match(
+      renderBilingual(CARDS, 'srt', options()),
+      /\n2\n00:00:03,000 --> 00:00:04,000\n（笑い声）\n\n3\n/,
+    );
+  });
+
+  it('escapes WebVTT markup and leaves English out where showEnglish says so', () => {
+    const showEnglish = (item: CardRecord): boolean => item.id !== 3;
+    assert.equal(
+      renderBilingual(CARDS, 'vtt', options({ showEnglish })),
+      'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\n金を売った\nI sold the gold.\n\n' +
+        '00:00:03.000 --> 00:00:04.000\n（笑い声）\n\n' +
+        '00:00:05.000 --> 00:00:06.000\nポチタ &lt;行くぞ&gt;\n',
+    );
+  });
+
+  it('places each ASS reading over its kanji, above the English line', () => {
+    const dialogue = renderBilingual(CARDS.slice(0, 1), 'ass', options())
+      .split('\n')
+      .filter((line) => line.startsWith('Dialogue:'));
+    assert.deepEqual(dialogue, [
+      'Dialogue: 0,0:00:01.00,0:00:02.50,English,,0,0,0,,I sold the gold.',
+      'Dialogue: 0,0:00:01.00,0:00:02.50,Japanese,,0,0,0,,{\\an2\\pos(960,974)\\fs64\\q2}金を売った',
+      'Dialogue: 1,0:00:01.00,0:00:02.50,Ruby,,0,0,0,,{\\an2\\pos(832,904)\\fs32\\q2}きん',
+      'Dialogue: 1,0:00:01.00,0:00:02.50,Ruby,,0,0,0,,{\\an2\\pos(960,904)\\fs32\\q2}う',
+    ]);
+  });
+});
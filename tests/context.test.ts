@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { CardRecord } from '../scripts/lib/cards.js';
+import { mergeSplitCards } from '../scripts/lib/context.js';
+import { card } from './helpers.js';
+
+/** A one-second card starting at `startMs`. */
+const timedCard = (
+  id: number,
+  sentence: string,
+  startMs: number,
+  fields: Partial<CardRecord> = {},
+): CardRecord => card(id, sentence, { startMs, endMs: startMs + 1000, ...fields });
+
+describe('mergeSplitCards', () => {
+  it('keeps the source cues of a card that was already merged', () => {
+    const merged = mergeSplitCards(
+      [
+        timedCard(1, '借金を', 0),
+        timedCard(2, '返さなきゃ いけない', 1100, { mergedSubtitleIds: [2, 3], endMs: 3000 }),
+      ],
+      500,
+    );
+    assert.equal(merged.length, 1);
+    assert.equal(merged[0].sentence, '借金を 返さなきゃ いけない');
+    assert.deepEqual(merged[0].mergedSubtitleIds, [1, 2, 3]);
+    assert.equal(merged[0].needsEnrichment, true);
+  });
+});
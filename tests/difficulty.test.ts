@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cardsToTsv } from '../scripts/lib/cards.js';
+import {
+  annotateLevels,
+  cardDifficulty,
+  kanjiScore,
+  parseWordLevelsTsv,
+  rateCard,
+  sortCards,
+  wordScore,
+} from '../scripts/lib/difficulty.js';
+import { kanjiBreakdown, parseKanjiData, renderKanjiNotes } from '../scripts/lib/kanji.js';
+import { card, token } from './helpers.js';
+
+const levels = parseWordLevelsTsv(
+  [
+    '\uFEFF借金\tしゃっきん\tN2\t3500',
+    '返す\tかえす\t4\t1100',
+    '辛い\tからい\tN4\t',
+    '辛い\tつらい\tN3\t2000',
+    'を\t\tN5\t5',
+    '# comment',
+    '闇市\tやみいち\t\t',
+  ].join('\n'),
+);
+
+const kanji = parseKanjiData({
+  借: {
+    strokes: 10,
+    freq: 1165,
+    jlpt_new: 4,
+    meanings: ['Borrow', 'Rent'],
+    readings_on: ['しゃく'],
+    readings_kun: ['か.りる'],
+  },
+  金: { strokes: 8, freq: 53, jlpt_new: 5, meanings: ['Gold'], readings_on: ['きん'], readings_kun: ['かね'] },
+  返: { strokes: 7, freq: 826, jlpt_new: 3, meanings: ['Return'], readings_on: ['へん'], readings_kun: ['かえ.す'] },
+  腎: { strokes: 13, freq: null, jlpt_new: null, meanings: ['Kidney'], readings_on: ['じん'], readings_kun: [] },
+  broken: 'not an object',
+});
+
+describe('parseWordLevelsTsv', () => {
+  it('reads levels and ranks, skipping comments and unrated lines', () => {
+    assert.equal(levels.size, 5);
+    assert.deepEqual(levels.lookup('借金', 'しゃっきん'), { jlpt: 2, frequencyRank: 3500 });
+    assert.deepEqual(levels.lookup('返す', null), { jlpt: 4, frequencyRank: 1100 });
+    assert.equal(levels.lookup('闇市', null), null);
+  });
+
+  it('picks the homograph whose reading matches the token', () => {
+    assert.deepEqual(levels.lookup('辛い', 'ツラカッタ'), { jlpt: 3, frequencyRank: 2000 });
+    assert.deepEqual(levels.lookup('辛い', 'からく'), { jlpt: 4, frequencyRank: null });
+  });
+});
+
+describe('annotateLevels', () => {
+  it('levels tokens and their grouped parts', () => {
+    const [word, particle, unknown] = annotateLevels(
+      [
+        token('返さなきゃ', {
+          lemma: '返す',
+          reading: 'かえさなきゃ',
+          pos: 'verb',
+          parts: [token('返さ', { lemma: '返す', pos: 'verb' }), token('なきゃ', { pos: 'auxiliary-verb' })],
+        }),
+        token('を', { pos: 'particle-case' }),
+        token('闇市'),
+      ],
+      levels,
+    );
+    assert.equal(word.jlpt, 4);
+    assert.equal(word.parts?.[0].frequencyRank, 1100);
+    assert.equal(word.parts?.[1].jlpt, undefined);
+    assert.deepEqual([particle.jlpt, particle.frequencyRank], [5, 5]);
+    assert.equal('jlpt' in unknown, false);
+  });
+});
+
+describe('scores', () => {
+  it('rates words by level and frequency, and unrated words as uncommon', () => {
+    assert.equal(wordScore({ jlpt: 5, frequencyRank: null }), 10);
+    assert.equal(wordScore({ jlpt: null, frequencyRank: 1000 }), 50);
+    assert.equal(wordScore({ jlpt: 1, frequencyRank: 100000 }), 95);
+    assert.equal(wordScore({}), 80);
+  });
+
+  it('rates kanji by level, then rank, then as rare', () => {
+    assert.equal(kanjiScore(kanjiBreakdown('金', kanji)[0]), 10);
+    assert.equal(kanjiScore({ ...kanjiBreakdown('借', kanji)[0], jlpt: null }), 46.6);
+    assert.equal(kanjiScore(kanjiBreakdown('腎', kanji)[0]), 100);
+  });
+
+  it('weighs the hardest word, the average word and the kanji 2:2:1', () => {
+    const tokens = [
+      token('返す', { pos: 'verb', jlpt: 5 }),
+      token('を', { pos: 'particle-case', jlpt: 1 }),
+      token('腎臓', { jlpt: 1 }),
+    ];
+    assert.equal(cardDifficulty(tokens, kanjiBreakdown('金', kanji)), 58);
+    assert.equal(cardDifficulty([token('を', { pos: 'particle-case' })], []), 0);
+  });
+});
+
+describe('kanji notes', () => {
+  it('lists each kanji of the sentence once, with empty notes for unknown ones', () => {
+    const notes = kanjiBreakdown('借金を借金で返す。鬱', kanji);
+    assert.deepEqual(
+      notes.map((info) => [info.character, info.strokes, info.jlpt]),
+      [
+        ['借', 10, 4],
+        ['金', 8, 5],
+        ['返', 7, 3],
+        ['鬱', null, null],
+      ],
+    );
+    assert.equal(kanji.size, 4);
+  });
+
+  it('renders an HTML list', () => {
+    assert.equal(
+      renderKanjiNotes(kanjiBreakdown('借', kanji)),
+      '<ul><li><span class="kanji-char">借</span> Borrow, Rent · on: しゃく · kun: か.りる · 10 strokes · N4</li></ul>',
+    );
+    assert.equal(renderKanjiNotes([]), '');
+  });
+});
+
+describe('rateCard and sortCards', () => {
+  it('adds levels, kanji notes and a difficulty, and leaves non-speech cards alone', () => {
+    const tokens = [token('借金'), token('を', { pos: 'particle-case' })];
+    const rated = rateCard(card(1, '借金を返す', { tokens }), levels, kanji);
+    assert.equal(rated.tokens?.[0].jlpt, 2);
+    assert.deepEqual(
+      rated.kanji?.map((info) => info.character),
+      ['借', '金', '返'],
+    );
+    assert.equal(typeof rated.difficulty, 'number');
+
+    const sfx = card(2, '', { tokens: [], nonSpeech: 'sfx' });
+    assert.equal(rateCard(sfx, levels, kanji), sfx);
+    assert.equal(rateCard(card(3, '借金', { tokens: [] }), null, null).difficulty, undefined);
+  });
+
+  it('orders cards easiest first or back in cue order', () => {
+    const cards = [
+      card(1, 'a', { difficulty: 60 }),
+      card(2, 'b', { difficulty: null }),
+      card(3, 'c', { difficulty: 20 }),
+      card(4, 'd', { difficulty: 60 }),
+    ];
+    const easiest = sortCards(cards, 'difficulty');
+    assert.deepEqual(
+      easiest.map((item) => item.id),
+      [3, 1, 4, 2],
+    );
+    assert.deepEqual(
+      sortCards(easiest, 'cue').map((item) => item.id),
+      [1, 2, 3, 4],
+    );
+  });
+
+  it('adds the kanji notes as a TSV column on request', () => {
+    const rated = rateCard(card(1, '借金', { tokens: [token('借金')] }), levels, kanji);
+    const columns = cardsToTsv([{ ...rated, translation: 'Debt' }], { kanji: true }).split('\t');
+    assert.equal(columns.length, 3);
+    assert.match(columns[2], /^<ul><li><span class="kanji-char">借<\/span>/);
+  });
+});
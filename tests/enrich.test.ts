@@ -0,0 +1,315 @@
+/**
+ * Golden-file test for the enrichment pipeline: a small SRT is parsed into
+ * cards and enriched with the mini dictionary, a translation hint file and a
+ * stub translator, and the result must match episode.cards.golden.json.
+ *
+ * After an intended change to the output, regenerate the golden file with
+ *   UPDATE_GOLDEN=1 npm test
+ * and review its diff.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { buildCards, mergeReparsedCards, type CardRecord } from '../scripts/lib/cards.js';
+import { openDictionary, type Dictionary } from '../scripts/lib/dictionary.js';
+import { loadWordLevels, sortCards } from '../scripts/lib/difficulty.js';
+import { enrichCards, type EnrichOptions } from '../scripts/lib/enrich.js';
+import { buildGlossary } from '../scripts/lib/glossary.js';
+import { loadKanjiDictionary } from '../scripts/lib/kanji.js';
+import { loadAccentDictionary } from '../scripts/lib/pitch.js';
+import { readDataFile } from '../scripts/lib/schema.js';
+import { parseSubtitleFile } from '../scripts/lib/subtitles.js';
+import { buildTokenizer, type KuromojiTokenizer } from '../scripts/lib/tokenizer.js';
+import { addTranslationHints, loadTranslationHints } from '../scripts/lib/translations.js';
+import type { TranslationRequest, Translator } from '../scripts/lib/translators.js';
+import { card } from './helpers.js';
+
+const FIXTURES = resolve(import.meta.dirname, 'fixtures/enrich');
+const GOLDEN_PATH = join(FIXTURES, 'episode.cards.golden.json');
+const MINI_DICT = resolve(import.meta.dirname, '../data/japanese-mini-dict.json');
+const MINI_ACCENTS = resolve(import.meta.dirname, '../data/accents-mini.tsv');
+const MINI_LEVELS = resolve(import.meta.dirname, '../data/word-levels-mini.tsv');
+const MINI_KANJI = resolve(import.meta.dirname, '../data/kanji-mini.json');
+
+/** Translates from a fixed table and has nothing for lines outside it, like a provider miss. */
+function createStubTranslator(table: Record<string, string>): Translator & { requests: string[] } {
+  const requests: string[] = [];
+  return {
+    name: 'stub',
+    maxBatchSize: 2,
+    requests,
+    translate: async (batch: TranslationRequest[]) =>
+      batch.map(({ card }) => {
+        const sentence = (card.sentence || '').trim();
+        requests.push(sentence);
+        return table[sentence] ?? null;
+      }),
+  };
+}
+
+describe('enrichCards', () => {
+  let tokenizer: KuromojiTokenizer;
+  let dictionary: Dictionary;
+  let workDir: string;
+
+  before(async () => {
+    tokenizer = await buildTokenizer();
+    dictionary = await openDictionary(MINI_DICT);
+    workDir = mkdtempSync(join(tmpdir(), 'enrich-test-'));
+  });
+
+  after(() => {
+    dictionary.close();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const options = (overrides: Partial<EnrichOptions>): EnrichOptions => ({
+    tokenizer,
+    dictionary,
+    translations: loadTranslationHints(null),
+    translator: null,
+    glossary: null,
+    accents: null,
+    wordLevels: null,
+    kanji: null,
+    autoTranslateReplace: true,
+    groupWords: true,
+    batchSize: 50,
+    concurrency: 1,
+    maxRetries: 0,
+    contextSize: 0,
+    mergeGapMs: null,
+    onlyChanged: false,
+    checkpointPath: null,
+    ...overrides,
+  });
+
+  const parsedCards = (): CardRecord[] =>
+    buildCards(parseSubtitleFile(join(FIXTURES, 'episode.ja.srt')), false);
+
+  it('matches the golden cards for hints, a stub translator and literal fallbacks', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    t.mock.method(console, 'warn', () => {});
+    // Provenance timestamps come from the clock.
+    t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-02T03:04:05.000Z') });
+
+    const cachePath = join(workDir, 'episode.translations.json');
+    writeFileSync(cachePath, readFileSync(join(FIXTURES, 'episode.translations.json')));
+    const translator = createStubTranslator({
+      '腹 減った': "I'm starving.",
+      '借金を返さなきゃ': 'I have to pay back the debt.',
+    });
+
+    const cards = await enrichCards(
+      parsedCards(),
+      options({
+        translations: loadTranslationHints(cachePath),
+        translator,
+        batchSize: 2,
+        checkpointPath: cachePath,
+      }),
+    );
+
+    // The hinted line and the sound-effect cue never reach the provider.
+    assert.deepEqual(translator.requests, ['腹 減った', '借金を返さなきゃ', 'ポチタ 行くぞ']);
+    assert.deepEqual(
+      cards.map((card) => card.translationSource),
+      ['stub', 'literal', 'hint', 'stub', 'literal'],
+    );
+
+    const actual = `${JSON.stringify(cards, null, 2)}\n`;
+    if (process.env.UPDATE_GOLDEN) {
+      writeFileSync(GOLDEN_PATH, actual, 'utf8');
+    }
+    assert.equal(actual, readFileSync(GOLDEN_PATH, 'utf8'));
+
+    // Provider output is checkpointed into the cache next to the hint it started with.
+    const cache = readDataFile(cachePath, 'translations');
+    assert.deepEqual(
+      cache.items.map((item) => (item as { translation: string }).translation),
+      ['Nice weather today, huh?', "I'm starving.", 'I have to pay back the debt.'],
+    );
+  });
+
+  it('glosses glossary names and enforces them on provider output', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    t.mock.method(console, 'warn', () => {});
+    const glossary = buildGlossary([
+      { term: 'ポチタ', translation: 'Pochita', reading: 'ぽちた', kind: 'name', variants: ['Pochitta'] },
+    ]);
+    const translator = createStubTranslator({ 'Pochita 行くぞ': "Let's go, Pochitta!" });
+
+    const cards = await enrichCards(parsedCards(), options({ translator, glossary }));
+
+    assert.ok(translator.requests.includes('Pochita 行くぞ'));
+    const pochita = cards.find((card) => card.subtitleId === 5);
+    assert.equal(pochita?.translation, "Let's go, Pochita!");
+    assert.deepEqual(pochita?.tokens?.[0], {
+      surface: 'ポチタ',
+      lemma: 'ポチタ',
+      reading: 'ぽちた',
+      pos: 'noun-proper-noun',
+      meanings: ['Pochita'],
+      entryId: null,
+      conjugation: null,
+    });
+  });
+
+  it('adds the pitch accent of content words', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const cards = await enrichCards(parsedCards(), options({ accents: loadAccentDictionary(MINI_ACCENTS) }));
+
+    const hungry = cards.find((card) => card.subtitleId === 1);
+    assert.deepEqual(
+      hungry?.tokens?.map((token) => [token.surface, token.pitchAccent?.type ?? null]),
+      [
+        ['腹', 'odaka'],
+        ['減った', 'heiban'],
+      ],
+    );
+    const weather = cards.find((card) => card.subtitleId === 3);
+    assert.equal(weather?.tokens?.find((token) => token.surface === 'は')?.pitchAccent, undefined);
+    assert.deepEqual(weather?.tokens?.find((token) => token.surface === '今日')?.pitchAccent, {
+      reading: 'きょう',
+      pattern: 1,
+      type: 'atamadaka',
+    });
+  });
+
+  it('rates cards from word levels and kanji', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const rating = { wordLevels: loadWordLevels(MINI_LEVELS), kanji: loadKanjiDictionary(MINI_KANJI) };
+    const byDifficulty = sortCards(await enrichCards(parsedCards(), options(rating)), 'difficulty');
+
+    assert.deepEqual(
+      byDifficulty.map((card) => [card.subtitleId, card.difficulty ?? null]),
+      [
+        [3, 23],
+        [5, 52],
+        [4, 54],
+        [1, 60],
+        [2, null],
+      ],
+    );
+    const debt = byDifficulty.find((card) => card.subtitleId === 4);
+    assert.deepEqual(
+      debt?.tokens?.map((token) => [token.lemma, token.jlpt ?? null, token.frequencyRank ?? null]),
+      [
+        ['借金', 2, 3500],
+        ['を', 5, 5],
+        ['返す', 4, 1100],
+      ],
+    );
+    assert.deepEqual(
+      debt?.kanji?.map((info) => [info.character, info.strokes]),
+      [
+        ['借', 10],
+        ['金', 8],
+        ['返', 7],
+      ],
+    );
+  });
+
+  it('only re-enriches cues a re-parse changed', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const golden = JSON.parse(readFileSync(GOLDEN_PATH, 'utf8')) as CardRecord[];
+    const reparsed = parsedCards().map((card) =>
+      card.subtitleId === 4 ? { ...card, sentence: '借金を返す' } : card,
+    );
+    const { cards: merged } = mergeReparsedCards(golden, reparsed);
+
+    const cards = await enrichCards(merged, options({ onlyChanged: true }));
+
+    assert.deepEqual(
+      cards.filter((card) => card.subtitleId !== 4),
+      golden.filter((card) => card.subtitleId !== 4),
+    );
+    const changed = cards.find((card) => card.subtitleId === 4);
+    assert.equal(changed?.needsEnrichment, undefined);
+    assert.equal(changed?.translationSource, 'literal');
+    assert.deepEqual(
+      changed?.tokens?.map((token) => token.lemma),
+      ['借金', 'を', '返す'],
+    );
+  });
+
+  it('rebuilds an earlier literal fallback instead of keeping it as card text', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const golden = JSON.parse(readFileSync(GOLDEN_PATH, 'utf8')) as CardRecord[];
+    const stale = golden.map((card) => (card.subtitleId === 5 ? { ...card, translation: 'Pochita go' } : card));
+
+    const cards = await enrichCards(stale, options({}));
+
+    const pochita = cards.find((card) => card.subtitleId === 5);
+    const before = golden.find((card) => card.subtitleId === 5);
+    assert.equal(pochita?.translation, before?.translation);
+    assert.equal(pochita?.translationSource, 'literal');
+    assert.equal(cards.find((card) => card.subtitleId === 3)?.translationSource, 'card');
+  });
+
+  it('keeps meanings edited by hand when re-enriching', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const golden = JSON.parse(readFileSync(GOLDEN_PATH, 'utf8')) as CardRecord[];
+    const edited = golden.map((card) =>
+      card.subtitleId === 4 && card.tokens
+        ? {
+            ...card,
+            tokens: card.tokens.map((token, idx) =>
+              idx === 0 ? { ...token, meanings: ['loan shark debt'], meaningsEdited: true } : token,
+            ),
+          }
+        : card,
+    );
+
+    const cards = await enrichCards(edited, options({}));
+
+    const debt = cards.find((card) => card.subtitleId === 4);
+    assert.deepEqual(debt?.tokens?.[0].meanings, ['loan shark debt']);
+    assert.equal(debt?.tokens?.[0].meaningsEdited, true);
+    assert.equal(debt?.tokens?.[1].meaningsEdited, undefined);
+  });
+
+  it('re-enriches cues merged since the last run', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const fragments = [
+      card(1, '俺は', { startMs: 0, endMs: 1000 }),
+      card(2, '借金を返す。', { startMs: 1100, endMs: 2500 }),
+    ];
+    const enriched = await enrichCards(fragments, options({}));
+
+    const [merged] = await enrichCards(enriched, options({ onlyChanged: true, mergeGapMs: 500 }));
+
+    assert.equal(merged.sentence, '俺は 借金を返す。');
+    assert.equal(merged.needsEnrichment, undefined);
+    assert.deepEqual(
+      merged.tokens?.map((token) => token.surface),
+      ['俺', 'は', '借金', 'を', '返す', '。'],
+    );
+    assert.match(merged.romaji ?? '', /shakkin/);
+  });
+
+  it('gives unchanged cues the lines of an English track added since the last build', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const golden = JSON.parse(readFileSync(GOLDEN_PATH, 'utf8')) as CardRecord[];
+    const { cards: merged } = mergeReparsedCards(golden, parsedCards());
+    const translations = loadTranslationHints(null);
+    addTranslationHints(translations, [
+      { id: 5, subtitleId: 5, sentence: 'ポチタ 行くぞ', translation: "Let's go, Pochita." },
+    ]);
+
+    const cards = await enrichCards(merged, options({ translations, onlyChanged: true }));
+
+    assert.deepEqual(
+      cards.filter((card) => card.subtitleId !== 5),
+      golden.filter((card) => card.subtitleId !== 5),
+    );
+    const pochita = cards.find((card) => card.subtitleId === 5);
+    const before = golden.find((card) => card.subtitleId === 5);
+    assert.equal(pochita?.translation, "Let's go, Pochita.");
+    assert.equal(pochita?.translationSource, 'hint');
+    assert.deepEqual(pochita?.tokens, before?.tokens);
+  });
+});
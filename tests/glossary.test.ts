@@ -0,0 +1,219 @@
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import {
+  applyGlossaryToTokens,
+  buildGlossary,
+  enforceGlossary,
+  glossaryHash,
+  substituteTerms,
+  syncDeepLGlossary,
+  syncedGlossaryId,
+  withGlossary,
+  withSyncedGlossaryFlag,
+} from '../scripts/lib/glossary.js';
+import type { TranslationRequest, Translator } from '../scripts/lib/translators.js';
+import { token } from './helpers.js';
+
+const glossary = buildGlossary([
+  { term: 'ポチタ', translation: 'Pochita', kind: 'name', variants: ['Pochitta'] },
+  { term: 'デンジ', translation: 'Denji', kind: 'name' },
+  { term: 'デビルハンター', translation: 'devil hunter', reading: 'でびるはんたー', variants: ['demon hunter'] },
+]);
+
+describe('substituteTerms', () => {
+  it('replaces the longest terms and keeps them apart from the surrounding Japanese', () => {
+    assert.equal(substituteTerms('ポチタ 行くぞ', glossary), 'Pochita 行くぞ');
+    assert.equal(substituteTerms('デンジはデビルハンターだ', glossary), 'Denji は devil hunter だ');
+    assert.equal(substituteTerms('デンジ、行くぞ', glossary), 'Denji、行くぞ');
+  });
+});
+
+describe('enforceGlossary', () => {
+  it('fixes variants, name capitalisation and untranslated terms the Japanese contains', () => {
+    assert.equal(
+      enforceGlossary('ポチタ デビルハンターだ', 'pochitta is a Demon Hunter, ポチタ!', glossary),
+      'Pochita is a devil hunter, Pochita!',
+    );
+  });
+
+  it('leaves terms alone when the line does not mention them', () => {
+    assert.equal(enforceGlossary('行くぞ', "Let's go, Pochitta.", glossary), "Let's go, Pochitta.");
+    assert.equal(enforceGlossary('デンジ', 'Denjiro said so.', glossary), 'Denjiro said so.');
+  });
+});
+
+describe('withGlossary', () => {
+  const echo = (settings?: Translator['settings']): Translator & { seen: TranslationRequest[] } => {
+    const seen: TranslationRequest[] = [];
+    return {
+      name: 'echo',
+      maxBatchSize: 10,
+      settings,
+      seen,
+      translate: async (requests) => {
+        seen.push(...requests);
+        return requests.map(({ card }) => `said: ${card.sentence}`);
+      },
+    };
+  };
+  const request: TranslationRequest = {
+    card: { id: 1, sentence: 'ポチタ 行くぞ' },
+    context: { before: ['デンジ！'], after: [] },
+  };
+
+  it('substitutes lines and context before and enforces the glossary after', async () => {
+    const inner = echo();
+    const translator = withGlossary(inner, glossary);
+    assert.deepEqual(await translator.translate([request]), ['said: Pochita 行くぞ']);
+    assert.deepEqual(inner.seen[0].context, { before: ['Denji！'], after: [] });
+    assert.equal(request.card.sentence, 'ポチタ 行くぞ');
+    assert.equal(translator.name, 'echo');
+  });
+
+  it('leaves the Japanese to a DeepL glossary but still corrects the output', async () => {
+    const inner = echo({ glossaryId: 'g-1' });
+    assert.deepEqual(await withGlossary(inner, glossary).translate([request]), ['said: Pochita 行くぞ']);
+    assert.equal(inner.seen[0].card.sentence, 'ポチタ 行くぞ');
+  });
+});
+
+describe('applyGlossaryToTokens', () => {
+  it('joins a term split over several tokens and glosses it', () => {
+    const tokens = applyGlossaryToTokens(
+      [token('デビル', { reading: 'でびる' }), token('ハンター', { reading: 'はんたー' }), token('だ', { pos: 'auxiliary-verb' })],
+      glossary,
+    );
+    assert.deepEqual(
+      tokens.map(({ surface, pos, meanings, parts }) => [surface, pos, meanings, parts?.length ?? 0]),
+      [
+        ['デビルハンター', 'noun', ['devil hunter'], 2],
+        ['だ', 'auxiliary-verb', null, 0],
+      ],
+    );
+    assert.equal(tokens[0].reading, 'でびるはんたー');
+  });
+
+  it('marks names as proper nouns and ignores terms that end inside a token', () => {
+    const tokens = applyGlossaryToTokens([token('デンジ', { reading: 'でんじ' }), token('ポチタロウ')], glossary);
+    assert.deepEqual(
+      tokens.map(({ pos, meanings }) => [pos, meanings]),
+      [
+        ['noun-proper-noun', ['Denji']],
+        ['noun-general', null],
+      ],
+    );
+  });
+});
+
+describe('syncDeepLGlossary', () => {
+  /** Stand-in for DeepL's /v2/glossaries endpoints. */
+  const stored = new Map<string, { name: string; entries: string }>();
+  const calls: string[] = [];
+  let server: Server;
+  let serverUrl: string;
+
+  before(async () => {
+    let nextId = 1;
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => {
+        body += chunk;
+      });
+      request.on('end', () => {
+        calls.push(`${request.method} ${request.url}`);
+        const id = /^\/v2\/glossaries\/([^/]+)$/.exec(request.url ?? '')?.[1];
+        const reply = (status: number, payload?: unknown): void => {
+          response.writeHead(status, { 'Content-Type': 'application/json' });
+          response.end(payload === undefined ? '' : JSON.stringify(payload));
+        };
+        const info = (glossaryId: string) => ({
+          glossary_id: glossaryId,
+          name: stored.get(glossaryId)?.name,
+          ready: true,
+          source_lang: 'ja',
+          target_lang: 'en',
+          creation_time: '2026-01-01T00:00:00Z',
+          entry_count: stored.get(glossaryId)?.entries.split('\n').length,
+        });
+
+        if (request.method === 'POST' && request.url === '/v2/glossaries') {
+          const form = new URLSearchParams(body);
+          const glossaryId = `g-${nextId++}`;
+          stored.set(glossaryId, { name: form.get('name') ?? '', entries: form.get('entries') ?? '' });
+          reply(201, info(glossaryId));
+        } else if (id && !stored.has(id)) {
+          reply(404, { message: 'Glossary not found' });
+        } else if (id && request.method === 'GET') {
+          reply(200, info(id));
+        } else if (id && request.method === 'DELETE') {
+          stored.delete(id);
+          reply(204);
+        } else {
+          reply(400, { message: 'unexpected request' });
+        }
+      });
+    });
+    await new Promise<void>((resolveListen) => server.listen(0, '127.0.0.1', resolveListen));
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('uploads once, skips unchanged glossaries and replaces changed ones', async () => {
+    const options = { authKey: 'test-key', serverUrl, name: 'ChainsawMan glossary', force: false };
+
+    const first = await syncDeepLGlossary(glossary, options);
+    assert.equal(first.created, true);
+    assert.equal(first.state.glossaryId, 'g-1');
+    assert.equal(first.state.entryCount, 3);
+    assert.equal(stored.get('g-1')?.entries, 'ポチタ\tPochita\nデンジ\tDenji\nデビルハンター\tdevil hunter');
+
+    const synced = buildGlossary(glossary.entries, null, first.state);
+    assert.equal(syncedGlossaryId(synced), 'g-1');
+    const again = await syncDeepLGlossary(synced, options);
+    assert.equal(again.created, false);
+
+    const edited = buildGlossary(
+      [...glossary.entries, { term: 'マキマ', translation: 'Makima', kind: 'name' }],
+      null,
+      first.state,
+    );
+    assert.equal(syncedGlossaryId(edited), null);
+    const replaced = await syncDeepLGlossary(edited, options);
+    assert.equal(replaced.state.glossaryId, 'g-2');
+    assert.equal(replaced.state.entriesHash, glossaryHash(edited));
+    assert.equal(replaced.deletedId, 'g-1');
+    assert.deepEqual(Array.from(stored.keys()), ['g-2']);
+    assert.deepEqual(calls, [
+      'POST /v2/glossaries',
+      'GET /v2/glossaries/g-1',
+      'POST /v2/glossaries',
+      'DELETE /v2/glossaries/g-1',
+    ]);
+  });
+});
+
+describe('withSyncedGlossaryFlag', () => {
+  it('fills in the uploaded glossary unless one was given or the upload is stale', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    const state = {
+      glossaryId: 'g-9',
+      name: 'Show glossary',
+      entriesHash: glossaryHash(glossary),
+      entryCount: 3,
+      syncedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const synced = buildGlossary(glossary.entries, null, state);
+    assert.equal(withSyncedGlossaryFlag(new Map(), synced).get('--deepl-glossary'), 'g-9');
+    assert.equal(
+      withSyncedGlossaryFlag(new Map([['--deepl-glossary', 'mine']]), synced).get('--deepl-glossary'),
+      'mine',
+    );
+    const stale = buildGlossary(glossary.entries.slice(1), null, state);
+    assert.equal(withSyncedGlossaryFlag(new Map(), stale).has('--deepl-glossary'), false);
+  });
+});
@@ -0,0 +1,34 @@
+/** Record factories shared by the unit tests. */
+
+import type { CardRecord, TokenBreakdown } from '../scripts/lib/cards.js';
+import { msToTimecode, type SubtitleEntry } from '../scripts/lib/subtitles.js';
+
+/** A breakdown token spelled and looked up as `surface`, a plain noun unless `fields` say otherwise. */
+export const token = (surface: string, fields: Partial<TokenBreakdown> = {}): TokenBreakdown => ({
+  surface,
+  lemma: surface,
+  reading: null,
+  pos: 'noun-general',
+  meanings: null,
+  ...fields,
+});
+
+/** An untranslated speech card for cue `id`. */
+export const card = (id: number, sentence: string, fields: Partial<CardRecord> = {}): CardRecord => ({
+  id,
+  subtitleId: id,
+  sentence,
+  translation: '',
+  ...fields,
+});
+
+/** A parsed subtitle cue numbered `index` in its file. */
+export const cue = (index: number, startMs: number, endMs: number, text: string): SubtitleEntry => ({
+  index,
+  rawId: index,
+  start: msToTimecode(startMs),
+  end: msToTimecode(endMs),
+  startMs,
+  endMs,
+  text,
+});
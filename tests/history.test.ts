@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffCardTranslations, revertCard, revertSource } from '../scripts/lib/history.js';
+import { recordCardTranslation } from '../scripts/lib/translations.js';
+import { card } from './helpers.js';
+
+const JAN = '2026-01-01T00:00:00.000Z';
+const FEB = '2026-02-01T00:00:00.000Z';
+const HUNGRY = '腹 減った';
+
+describe('recordCardTranslation', () => {
+  it('moves the replaced translation and its provenance into the history', () => {
+    const target = card(1, HUNGRY, {
+      translation: "I'm starving.",
+      translationSource: 'manual',
+      translationProvenance: { at: JAN },
+    });
+    recordCardTranslation(target, 'Belly reduced.', 'deepl', { provider: 'deepl', formality: 'less', at: FEB });
+
+    assert.equal(target.translation, 'Belly reduced.');
+    assert.equal(target.translationSource, 'deepl');
+    assert.deepEqual(target.translationProvenance, { provider: 'deepl', formality: 'less', at: FEB });
+    assert.deepEqual(target.translationHistory, [{ translation: "I'm starving.", source: 'manual', at: JAN }]);
+  });
+
+  it('keeps the original provenance when the text does not change', () => {
+    const target = card(1, HUNGRY, {
+      translation: "I'm starving.",
+      translationSource: 'deepl',
+      translationProvenance: { provider: 'deepl', at: JAN },
+    });
+    recordCardTranslation(target, "I'm starving.", 'hint', { provider: 'deepl', at: FEB });
+
+    assert.equal(target.translationSource, 'hint');
+    assert.deepEqual(target.translationProvenance, { provider: 'deepl', at: JAN });
+    assert.equal(target.translationHistory, undefined);
+  });
+
+  it('never keeps literal fallbacks in the history', () => {
+    const target = card(1, HUNGRY, { translation: 'belly decrease', translationSource: 'literal' });
+    recordCardTranslation(target, "I'm starving.", 'deepl', { provider: 'deepl', at: FEB });
+    assert.equal(target.translationHistory, undefined);
+  });
+});
+
+describe('revertCard', () => {
+  it('restores a history entry as a hand edit and keeps the replaced value', () => {
+    const target = card(1, HUNGRY, {
+      translation: 'Belly reduced.',
+      translationSource: 'deepl',
+      translationProvenance: { provider: 'deepl', at: FEB },
+      translationHistory: [{ translation: "I'm starving.", source: 'card', at: JAN }],
+      qaFlags: ['aligned-mismatch'],
+    });
+    const { card: reverted, restored, replaced } = revertCard(target);
+
+    assert.equal(restored.translation, "I'm starving.");
+    assert.equal(replaced?.translation, 'Belly reduced.');
+    assert.equal(reverted.translation, "I'm starving.");
+    assert.equal(reverted.translationSource, 'manual');
+    assert.deepEqual(reverted.translationProvenance, { at: JAN });
+    assert.deepEqual(reverted.translationHistory, [
+      { translation: 'Belly reduced.', source: 'deepl', provider: 'deepl', at: FEB },
+    ]);
+    assert.equal(reverted.qaFlags, undefined);
+    assert.equal(target.translation, 'Belly reduced.');
+  });
+
+  it('rejects cards without history and unknown revisions', () => {
+    assert.throws(() => revertCard(card(1, HUNGRY, { translation: 'x' })), /no earlier translations/);
+    assert.throws(
+      () => revertCard(card(1, HUNGRY, { translationHistory: [{ translation: 'a', source: 'card' }] }), 3),
+      /no revision 3/,
+    );
+  });
+});
+
+describe('revertSource', () => {
+  it('undoes one provider run, skipping older lines and cards with nothing to go back to', () => {
+    const cards = [
+      card(1, HUNGRY, {
+        translation: 'Belly reduced.',
+        translationSource: 'deepl',
+        translationProvenance: { provider: 'deepl', at: FEB },
+        translationHistory: [
+          { translation: "I'm starving.", source: 'manual', at: JAN },
+          { translation: 'Belly decreased.', source: 'deepl', provider: 'deepl', at: JAN },
+        ],
+      }),
+      card(2, HUNGRY, {
+        translation: 'Hungry.',
+        translationSource: 'hint',
+        translationProvenance: { provider: 'deepl', at: JAN },
+        translationHistory: [{ translation: 'So hungry.', source: 'card' }],
+      }),
+      card(3, HUNGRY, {
+        translation: 'Go.',
+        translationSource: 'deepl',
+        translationProvenance: { provider: 'deepl', at: FEB },
+      }),
+      card(4, HUNGRY, { translation: 'Fine.', translationSource: 'manual' }),
+    ];
+
+    const result = revertSource(cards, 'deepl', '2026-01-15T00:00:00.000Z');
+
+    assert.deepEqual(
+      result.reverted.map(({ card: reverted }) => [reverted.id, reverted.translation]),
+      [[1, "I'm starving."]],
+    );
+    assert.deepEqual(
+      result.skipped.map((skipped) => skipped.id),
+      [3],
+    );
+    assert.equal(result.cards[1], cards[1]);
+    assert.equal(result.cards[3], cards[3]);
+  });
+});
+
+describe('diffCardTranslations', () => {
+  it('lists changed, added and removed translations by card id', () => {
+    const before = [
+      card(1, HUNGRY, { translation: "I'm starving.", translationSource: 'manual' }),
+      card(2, HUNGRY, { translation: 'Same.' }),
+      card(3, HUNGRY, { translation: 'Gone.' }),
+    ];
+    const after = [
+      card(1, HUNGRY, {
+        translation: 'Belly reduced.',
+        translationSource: 'deepl',
+        translationProvenance: { provider: 'deepl', at: FEB },
+      }),
+      card(2, HUNGRY, { translation: 'Same.' }),
+      card(4, HUNGRY, { translation: 'New.' }),
+    ];
+
+    assert.deepEqual(
+      diffCardTranslations(before, after).map(({ id, before: old, after: next }) => [
+        id,
+        old?.translation ?? null,
+        next?.translation ?? null,
+      ]),
+      [
+        [1, "I'm starving.", 'Belly reduced.'],
+        [3, 'Gone.', null],
+        [4, null, 'New.'],
+      ],
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cardsToTsv } from '../scripts/lib/cards.js';
+import {
+  annotatePitch,
+  classifyPitch,
+  parseAccentTsv,
+  pitchLevels,
+  renderPitchField,
+  renderPitchGraph,
+  splitMorae,
+} from '../scripts/lib/pitch.js';
+import { card, token } from './helpers.js';
+
+const accents = parseAccentTsv(
+  [
+    '\uFEFF借金\tしゃっきん\t3',
+    '食べ物\tたべもの\t3,2',
+    '分かる\tわかる\t2',
+    '辛い\tからい\t2',
+    '辛い\tつらい\t0,2',
+    '副詞\tふくし\t(名)0,(副)1',
+    'いい\t\t1',
+    'broken line',
+  ].join('\n'),
+);
+
+describe('splitMorae', () => {
+  it('keeps small kana with the kana before them and counts っ and ー', () => {
+    assert.deepEqual(splitMorae('しゃっきん'), ['しゃ', 'っ', 'き', 'ん']);
+    assert.deepEqual(splitMorae('コーヒー'), ['こ', 'ー', 'ひ', 'ー']);
+  });
+});
+
+describe('classifyPitch and pitchLevels', () => {
+  it('names the four patterns', () => {
+    assert.deepEqual(
+      [0, 1, 2, 3].map((pattern) => classifyPitch(pattern, 3)),
+      ['heiban', 'atamadaka', 'nakadaka', 'odaka'],
+    );
+  });
+
+  it('rises after the first mora and drops after the accented one', () => {
+    const shape = (morae: number, pattern: number): string =>
+      pitchLevels(morae, pattern)
+        .map((high) => (high ? 'H' : 'L'))
+        .join('');
+    assert.equal(shape(3, 0), 'LHHH');
+    assert.equal(shape(3, 1), 'HLLL');
+    assert.equal(shape(4, 2), 'LHLLL');
+    assert.equal(shape(2, 2), 'LHL');
+  });
+});
+
+describe('parseAccentTsv', () => {
+  it('reads patterns, alternatives and kana-only words', () => {
+    assert.equal(accents.size, 7);
+    assert.deepEqual(accents.lookup('食べ物', null), {
+      reading: 'たべもの',
+      pattern: 3,
+      type: 'nakadaka',
+      alternatives: [2],
+    });
+    assert.deepEqual(accents.lookup('いい', 'いい'), { reading: 'いい', pattern: 1, type: 'atamadaka' });
+    assert.equal(accents.lookup('副詞', null)?.alternatives?.[0], 1);
+    assert.equal(accents.lookup('ない', null), null);
+  });
+
+  it('picks the homograph whose reading matches the token', () => {
+    assert.equal(accents.lookup('辛い', 'つらかった')?.type, 'heiban');
+    assert.equal(accents.lookup('辛い', 'カラカッタ')?.type, 'nakadaka');
+  });
+});
+
+describe('annotatePitch', () => {
+  it('annotates content words only', () => {
+    const tokens = annotatePitch(
+      [
+        token('借金', { reading: 'しゃっきん' }),
+        token('が', { pos: 'particle-case' }),
+        token('分かっ', { lemma: '分かる', reading: 'わかっ', pos: 'verb' }),
+      ],
+      accents,
+    );
+    assert.deepEqual(
+      tokens.map((item) => item.pitchAccent?.type ?? null),
+      ['nakadaka', null, 'nakadaka'],
+    );
+  });
+});
+
+describe('renderPitchField', () => {
+  it('draws one graph per lemma with a hollow particle dot', () => {
+    const graph = renderPitchGraph({ reading: 'しゃっきん', pattern: 3, type: 'nakadaka' });
+    assert.match(graph, /^<svg class="pitch-graph"/);
+    assert.match(graph, /points="11,25 33,7 55,7 77,25 99,25"/);
+    assert.equal(graph.match(/<circle /g)?.length, 5);
+    assert.equal(graph.match(/fill="white"/g)?.length, 1);
+    assert.match(graph, />しゃ<\/text>/);
+
+    const tokens = annotatePitch([token('借金'), token('借金'), token('<b>')], accents);
+    const field = renderPitchField(tokens);
+    assert.equal(field.match(/class="pitch-word"/g)?.length, 1);
+    assert.match(field, /nakadaka \[3\]/);
+    assert.equal(renderPitchField([token('<b>')]), '');
+  });
+
+  it('adds the field as a third TSV column on request', () => {
+    const debt = card(1, '借金', { translation: 'Debt', tokens: annotatePitch([token('借金')], accents) });
+    assert.equal(cardsToTsv([debt]), '借金\tDebt');
+    const [, , pitch] = cardsToTsv([debt], { pitch: true }).split('\t');
+    assert.match(pitch, /^<span class="pitch-word">/);
+  });
+});
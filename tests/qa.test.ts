@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { CardRecord } from '../scripts/lib/cards.js';
+import { DEFAULT_QA_OPTIONS, formatQaReport, runQa, type AlignedEnglish } from '../scripts/lib/qa.js';
+import { card } from './helpers.js';
+
+const DEEPL: Partial<CardRecord> = {
+  translationSource: 'deepl',
+  translationProvenance: { provider: 'deepl', at: '2026-01-02T03:04:05.000Z' },
+};
+
+/** A card translated by the provider unless `fields` say otherwise. */
+const translated = (
+  id: number,
+  sentence: string,
+  translation: string,
+  fields: Partial<CardRecord> = {},
+): CardRecord => card(id, sentence, { ...DEEPL, translation, ...fields });
+
+const flagsOf = (cards: CardRecord[]): Record<number, string[]> =>
+  Object.fromEntries(cards.filter((c) => c.qaFlags).map((c) => [c.id, c.qaFlags as string[]]));
+
+describe('runQa', () => {
+  it('flags literal fallbacks and Japanese left in the English', () => {
+    const { cards, issues } = runQa(
+      [
+        translated(1, '仕事に行くか', 'work go か', { translationSource: 'literal' }),
+        translated(2, 'ポチタ 行くぞ', "Let's go, ポチタ."),
+        translated(3, '腹 減った', "I'm starving."),
+      ],
+      DEFAULT_QA_OPTIONS,
+    );
+    assert.deepEqual(flagsOf(cards), { 1: ['literal', 'japanese'], 2: ['japanese'] });
+    assert.match(issues.find((issue) => issue.card.id === 2)?.detail ?? '', /"ポチタ"/);
+  });
+
+  it('flags length ratios out of range but not short lines', () => {
+    const { cards } = runQa(
+      [
+        translated(1, 'こいつはトマトの悪魔ですね', 'Hm.'),
+        translated(2, '借金を返さなきゃ', 'I really, truly, absolutely have to pay back every single yen of this enormous debt.'),
+        translated(3, 'はい', 'Yes, of course, right away, whatever you say, sir.'),
+        translated(4, '今日は いい天気だね', 'Nice weather today, huh?'),
+      ],
+      DEFAULT_QA_OPTIONS,
+    );
+    assert.deepEqual(flagsOf(cards), { 1: ['length-ratio'], 2: ['length-ratio'] });
+  });
+
+  it('flags provider lines that share no content words with the aligned English', () => {
+    const aligned: AlignedEnglish = {
+      bySubtitleId: new Map([
+        ['1', "Boy, you've got until tomorrow to put 700,000 together."],
+        ['2', 'You could end up starving to death...'],
+        ['3', 'Devil hunters really make the most money.'],
+      ]),
+      bySentence: new Map(),
+    };
+    const { cards } = runQa(
+      [
+        translated(1, 'ガキ 物乞いするなり 体売るなりして', 'Kids, they beg, they sell their bodies.'),
+        translated(2, '腹すかして死ぬかもしれねえし', 'I might starve to death.'),
+        translated(3, 'やっぱ デビルハンターが 一番 もうかるな', 'Devil hunters make the most money.', {
+          translationSource: 'hint',
+        }),
+        // Provider output kept as card text by a later run is still checked; hand edits are not.
+        translated(4, 'ガキ 物乞いするなり 体売るなりして', 'Kids, they beg, they sell their bodies.', {
+          subtitleId: 1,
+          translationSource: 'card',
+        }),
+        translated(5, '腹すかして死ぬかもしれねえし', 'My stomach is empty.', {
+          subtitleId: 2,
+          translationSource: 'manual',
+          translationProvenance: { at: '2026-01-03T00:00:00.000Z' },
+        }),
+      ],
+      { ...DEFAULT_QA_OPTIONS, aligned },
+    );
+    assert.deepEqual(flagsOf(cards), { 1: ['aligned-mismatch'], 4: ['aligned-mismatch'] });
+  });
+
+  it('flags identical translations on adjacent different lines, skipping non-speech cues', () => {
+    const { cards } = runQa(
+      [
+        translated(1, 'ハァ', 'Pant...', { nonSpeech: 'breathing' }),
+        translated(2, 'よくやった デンジ', 'Good job, Denji.'),
+        translated(3, '（足音）', 'Footsteps', { nonSpeech: 'sfx' }),
+        translated(4, 'よくやったな', 'Good job, Denji!'),
+        translated(5, 'よくやったな', 'Good job, Denji!'),
+      ],
+      DEFAULT_QA_OPTIONS,
+    );
+    assert.deepEqual(flagsOf(cards), { 2: ['duplicate'], 4: ['duplicate'] });
+  });
+
+  it('clears flags from an earlier run once a card passes', () => {
+    const { cards } = runQa([translated(1, '腹 減った', "I'm starving.", { qaFlags: ['literal'] })], DEFAULT_QA_OPTIONS);
+    assert.equal('qaFlags' in cards[0], false);
+  });
+});
+
+describe('formatQaReport', () => {
+  it('lists counts per flag and each flagged card with its reasons', () => {
+    const result = runQa([translated(1, '仕事に行くか', 'work go か', { translationSource: 'literal' })], DEFAULT_QA_OPTIONS);
+    const report = formatQaReport(result, 'Show episode01');
+    assert.match(report, /^QA report for Show episode01: 1 of 1 card\(s\) flagged/);
+    assert.match(report, /literal\s+1 /);
+    assert.match(report, /#1 \[literal, japanese\]\n {2}JA: 仕事に行くか\n {2}EN: work go か \(literal\)/);
+  });
+});
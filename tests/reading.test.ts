@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { buildFurigana, buildRomaji, kanaToRomaji, parseFurigana } from '../scripts/lib/reading.js';
+import { buildTokenizer, type KuromojiTokenizer } from '../scripts/lib/tokenizer.js';
+
+describe('romaji and furigana', () => {
+  let tokenizer: KuromojiTokenizer;
+
+  before(async () => {
+    tokenizer = await buildTokenizer();
+  });
+
+  const readings = (sentence: string): [string, string] => {
+    const tokens = tokenizer.tokenize(sentence);
+    return [buildRomaji(tokens), buildFurigana(tokens)];
+  };
+
+  it('joins inflections to their word and marks long vowels with macrons', () => {
+    assert.deepEqual(readings('東京に行こう'), ['tōkyō ni ikō', '東京[とうきょう]に 行[い]こう']);
+    assert.deepEqual(readings('金を売った'), ['kin o utta', '金[きん]を 売[う]った']);
+    assert.deepEqual(readings('コーヒーを飲みたい'), ['kōhī o nomitai', 'コーヒーを 飲[の]みたい']);
+  });
+
+  it("writes n' before a vowel and keeps okurigana out of the brackets", () => {
+    assert.deepEqual(readings('本屋さん、あの'), ["hon'ya san, ano", '本屋[ほんや]さん、あの']);
+    assert.deepEqual(readings('お母さんは来ます'), ['okāsan wa kimasu', 'お 母[かあ]さんは 来[き]ます']);
+  });
+
+  it('romanizes kana with doubled consonants and syllabic n', () => {
+    assert.equal(kanaToRomaji('しんぶん'), 'shinbun');
+    assert.equal(kanaToRomaji('きんえん'), "kin'en");
+    assert.equal(kanaToRomaji('がっこう'), 'gakkō');
+    assert.equal(kanaToRomaji('ちょっと'), 'chotto');
+  });
+});
+
+describe('parseFurigana', () => {
+  it('splits markup into ruby segments spelling the sentence', () => {
+    assert.deepEqual(parseFurigana('金[かね]を 売[う]った', '金を売った'), [
+      { text: '金', reading: 'かね' },
+      { text: 'を', reading: null },
+      { text: '売', reading: 'う' },
+      { text: 'った', reading: null },
+    ]);
+  });
+
+  it('returns null for markup that no longer matches the sentence', () => {
+    assert.equal(parseFurigana('金[かね]を', '金が'), null);
+  });
+});
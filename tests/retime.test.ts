@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  composeTiming,
+  describeScale,
+  fitTiming,
+  framerateTiming,
+  parseFramerate,
+  retimeEntries,
+  retimeSrtText,
+} from '../scripts/lib/retime.js';
+import { cue } from './helpers.js';
+
+describe('retimeSrtText', () => {
+  it('shifts timing lines, clamps at zero and keeps everything else', () => {
+    const srt =
+      '1\n00:00:01,000 --> 00:00:02,500\n<i>腹</i> 減った\n\n' + '2\n00:00:00,200 --> 00:00:01,000 X1:10\nよし\n';
+    assert.equal(
+      retimeSrtText(srt, { scale: 1, offsetMs: -500 }),
+      '1\n00:00:00,500 --> 00:00:02,000\n<i>腹</i> 減った\n\n2\n00:00:00,000 --> 00:00:00,500 X1:10\nよし\n',
+    );
+  });
+});
+
+describe('framerate timing', () => {
+  it('parses framerates and describes the scale between them', () => {
+    assert.equal(parseFramerate('25'), 25);
+    assert.equal(parseFramerate('23.976'), 24000 / 1001);
+    assert.equal(parseFramerate('24000/1001'), 24000 / 1001);
+    assert.throws(() => parseFramerate('fast'), /"fast" is not a framerate/);
+
+    const pal = framerateTiming(25, parseFramerate('23.976'));
+    assert.equal(describeScale(pal.scale), '25 -> 23.976 fps');
+    assert.equal(describeScale(1.01), null);
+  });
+
+  it('applies a framerate change before a shift', () => {
+    const timing = composeTiming(framerateTiming(25, 24000 / 1001), { scale: 1, offsetMs: 1500 });
+    const [entry] = retimeEntries([cue(1, 24_000, 26_000, '腹 減った')], timing);
+    assert.deepEqual(
+      { start: entry.start, startMs: entry.startMs, endMs: entry.endMs },
+      { start: '00:00:26,525', startMs: 26_525, endMs: 28_610 },
+    );
+  });
+});
+
+describe('fitTiming', () => {
+  it('recovers a framerate change and offset from a track already in sync', () => {
+    const reference = Array.from({ length: 12 }, (_, i) =>
+      cue(i + 1, 2000 + i * 4000, 4500 + i * 4000, `line ${i + 1}`),
+    );
+    const moving = retimeEntries(reference, { scale: (24000 / 1001) / 25, offsetMs: -2000 });
+
+    const fit = fitTiming(reference, moving);
+    assert.equal(fit.matched, 12);
+    assert.ok(Math.abs(fit.scale - 25 / (24000 / 1001)) < 0.001, `scale ${fit.scale}`);
+    assert.ok(Math.abs(fit.offsetMs - 2085) < 100, `offset ${fit.offsetMs}`);
+    assert.ok(fit.residualMs < 50, `residual ${fit.residualMs}`);
+  });
+});
@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  detectSubtitleFormat,
+  formatSrt,
+  msToTimecode,
+  parseAss,
+  parseSrt,
+  parseVtt,
+  timecodeToMs,
+} from '../scripts/lib/subtitles.js';
+
+const fixture = (name: string): string =>
+  readFileSync(resolve(import.meta.dirname, 'fixtures/srt', name), 'utf8');
+
+describe('parseSrt', () => {
+  it('strips the BOM and handles CRLF line endings', () => {
+    const entries = parseSrt(fixture('bom-crlf.srt'));
+    assert.deepEqual(entries, [
+      {
+        index: 1,
+        rawId: 1,
+        start: '00:00:01,000',
+        end: '00:00:02,500',
+        startMs: 1000,
+        endMs: 2500,
+        text: 'おはよう',
+      },
+      {
+        index: 2,
+        rawId: 2,
+        start: '00:00:03,000',
+        end: '00:00:04,200',
+        startMs: 3000,
+        endMs: 4200,
+        text: '元気？',
+      },
+    ]);
+  });
+
+  it('keeps the timecode of cues without an id and numbers them after the previous cue', () => {
+    const entries = parseSrt(fixture('missing-ids.srt'));
+    assert.deepEqual(
+      entries.map(({ rawId, startMs, endMs, text }) => ({ rawId, startMs, endMs, text })),
+      [
+        { rawId: 1, startMs: 1000, endMs: 2000, text: 'ありがとう' },
+        { rawId: 7, startMs: 2500, endMs: 3000, text: 'いいえ' },
+        { rawId: 8, startMs: 4000, endMs: 5000, text: 'またね' },
+      ],
+    );
+  });
+
+  it('keeps cues with a missing or half timecode', () => {
+    const entries = parseSrt(fixture('missing-timecodes.srt'));
+    assert.deepEqual(
+      entries.map(({ start, end, startMs, endMs, text }) => ({ start, end, startMs, endMs, text })),
+      [
+        { start: null, end: null, startMs: null, endMs: null, text: '時間なし' },
+        { start: '00:00:05,000', end: '00:00:06,000', startMs: 5000, endMs: 6000, text: '時間あり' },
+        { start: '00:00:07,000', end: null, startMs: 7000, endMs: null, text: '終わりなし' },
+      ],
+    );
+  });
+
+  it('joins multi-line cues and skips cues without text', () => {
+    const entries = parseSrt(fixture('multi-line.srt'));
+    assert.deepEqual(
+      entries.map(({ index, rawId, text }) => ({ index, rawId, text })),
+      [
+        { index: 1, rawId: 1, text: '（デンジ） 腹 減った' },
+        { index: 2, rawId: 2, text: '今日は いい天気だね' },
+      ],
+    );
+  });
+});
+
+describe('timecodeToMs', () => {
+  it('reads SRT, WebVTT and ASS timecodes', () => {
+    assert.equal(timecodeToMs('01:02:03,456'), 3_723_456);
+    assert.equal(timecodeToMs('00:01:02.345'), 62_345);
+    assert.equal(timecodeToMs('01:02.345'), 62_345);
+    assert.equal(timecodeToMs('0:01:02.34'), 62_340);
+  });
+
+  it('returns null for missing or malformed timecodes', () => {
+    assert.equal(timecodeToMs(null), null);
+    assert.equal(timecodeToMs(''), null);
+    assert.equal(timecodeToMs('soon'), null);
+  });
+
+  it('round-trips through msToTimecode', () => {
+    assert.equal(msToTimecode(3_723_456), '01:02:03,456');
+    assert.equal(timecodeToMs(msToTimecode(62_345)), 62_345);
+    assert.equal(msToTimecode(-20), '00:00:00,000');
+  });
+});
+
+describe('formatSrt', () => {
+  it('writes parsed cues back with their source ids and drops untimed ones', () => {
+    const entries = parseSrt(fixture('missing-timecodes.srt'));
+    assert.equal(formatSrt(entries), '2\n00:00:05,000 --> 00:00:06,000\n時間あり\n');
+    assert.deepEqual(parseSrt(formatSrt(parseSrt(fixture('bom-crlf.srt')))), parseSrt(fixture('bom-crlf.srt')));
+  });
+});
+
+describe('detectSubtitleFormat', () => {
+  it('goes by extension first, then by content', () => {
+    assert.equal(detectSubtitleFormat('a.vtt', ''), 'vtt');
+    assert.equal(detectSubtitleFormat('a.SSA', ''), 'ass');
+    assert.equal(detectSubtitleFormat(null, '\uFEFFWEBVTT\n\n'), 'vtt');
+    assert.equal(detectSubtitleFormat('a.txt', '[Script Info]\nTitle: x'), 'ass');
+    assert.equal(detectSubtitleFormat(null, fixture('bom-crlf.srt')), 'srt');
+  });
+});
+
+describe('parseVtt', () => {
+  it('drops cue settings, markup and NOTE blocks', () => {
+    const entries = parseVtt(
+      [
+        'WEBVTT',
+        '',
+        'NOTE timed against the broadcast',
+        '',
+        '1',
+        '00:00:01.000 --> 00:00:02.500 line:90% align:start',
+        '<c.yellow>腹</c> 減った',
+        '',
+        'intro',
+        '00:03.000 --> 00:04.000 position:10%',
+        '<ruby>今日<rt>きょう</rt></ruby>は &amp; いい',
+        '',
+      ].join('\n'),
+    );
+    assert.deepEqual(
+      entries.map(({ rawId, start, end, text }) => ({ rawId, start, end, text })),
+      [
+        { rawId: 1, start: '00:00:01,000', end: '00:00:02,500', text: '腹 減った' },
+        { rawId: 2, start: '00:00:03,000', end: '00:00:04,000', text: '今日は & いい' },
+      ],
+    );
+  });
+});
+
+describe('parseAss', () => {
+  it('strips override tags and skips comments, signs and drawings', () => {
+    const entries = parseAss(
+      [
+        '[Script Info]',
+        'Title: episode01',
+        '',
+        '[Events]',
+        'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+        'Dialogue: 0,0:00:05.00,0:00:06.50,Default,,0,0,0,,{\\an8\\pos(960,80)}{\\i1}ポチタ{\\i0}\\N行くぞ、早く',
+        'Comment: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,メモ',
+        'Dialogue: 0,0:00:01.00,0:00:02.00,Signs,,0,0,0,,看板',
+        'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\p1}m 0 0 l 10 10{\\p0}',
+        'Dialogue: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,腹\\h減った, マジで',
+      ].join('\n'),
+    );
+    // Sorted by start time; rawId counts Dialogue lines in file order.
+    assert.deepEqual(
+      entries.map(({ index, rawId, startMs, endMs, text }) => ({ index, rawId, startMs, endMs, text })),
+      [
+        { index: 1, rawId: 4, startMs: 2000, endMs: 3000, text: '腹 減った, マジで' },
+        { index: 2, rawId: 1, startMs: 5000, endMs: 6500, text: 'ポチタ 行くぞ、早く' },
+      ],
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  addTranslationHints,
+  loadTranslationHints,
+  mergeTranslationEntries,
+  pickTranslation,
+  registerGeneratedTranslation,
+  sanitizeTranslationEntry,
+  type TranslationEntry,
+} from '../scripts/lib/translations.js';
+import { card } from './helpers.js';
+
+const entry = (fields: Partial<TranslationEntry>): TranslationEntry => ({
+  id: null,
+  subtitleId: null,
+  sentence: null,
+  translation: '',
+  ...fields,
+});
+
+describe('sanitizeTranslationEntry', () => {
+  it('trims text and normalizes numeric ids', () => {
+    assert.deepEqual(
+      sanitizeTranslationEntry({ id: '12', subtitleId: 4, sentence: '  腹減った ', translation: ' Hungry. ' }),
+      { id: 12, subtitleId: 4, sentence: '腹減った', translation: 'Hungry.' },
+    );
+  });
+
+  it('keeps non-numeric ids as strings and drops empty ones', () => {
+    assert.deepEqual(sanitizeTranslationEntry({ id: 'op-1', subtitleId: '', sentence: '   ', translation: 'x' }), {
+      id: 'op-1',
+      subtitleId: null,
+      sentence: null,
+      translation: 'x',
+    });
+  });
+
+  it('keeps a finite confidence only', () => {
+    assert.equal(sanitizeTranslationEntry({ translation: 'x', confidence: 0.8 })?.confidence, 0.8);
+    assert.equal(sanitizeTranslationEntry({ translation: 'x', confidence: Number.NaN })?.confidence, undefined);
+  });
+
+  it('rejects entries without a usable translation', () => {
+    assert.equal(sanitizeTranslationEntry(null), null);
+    assert.equal(sanitizeTranslationEntry('Hungry.'), null);
+    assert.equal(sanitizeTranslationEntry({ id: 1, translation: '   ' }), null);
+    assert.equal(sanitizeTranslationEntry({ id: 1, translation: 3 }), null);
+  });
+});
+
+describe('pickTranslation', () => {
+  const state = loadTranslationHints(null);
+  addTranslationHints(state, [
+    { id: 1, translation: 'by id' },
+    { subtitleId: 20, translation: 'by subtitle id' },
+    { sentence: 'おはよう', translation: 'by sentence' },
+  ]);
+
+  it('looks up by card id, then subtitle id, then sentence', () => {
+    assert.equal(pickTranslation(card(1, 'おはよう', { subtitleId: 20 }), state), 'by id');
+    assert.equal(pickTranslation(card(2, 'おはよう', { subtitleId: 20 }), state), 'by subtitle id');
+    assert.equal(pickTranslation(card(2, ' おはよう ', { subtitleId: 21 }), state), 'by sentence');
+    assert.equal(pickTranslation(card(2, 'またね', { subtitleId: 21 }), state), null);
+  });
+
+  it('matches merged and re-parsed cards on the sentence only', () => {
+    assert.equal(pickTranslation(card(1, 'またね', { mergedSubtitleIds: [1, 2] }), state), null);
+    assert.equal(pickTranslation(card(1, 'またね', { needsEnrichment: true }), state), null);
+    assert.equal(pickTranslation(card(1, 'おはよう', { needsEnrichment: true }), state), 'by sentence');
+  });
+});
+
+describe('mergeTranslationEntries', () => {
+  it('lets later entries replace earlier ones with the same key', () => {
+    const merged = mergeTranslationEntries(
+      [
+        entry({ id: 1, subtitleId: 1, translation: 'old' }),
+        entry({ id: 2, subtitleId: null, translation: 'two' }),
+        entry({ sentence: 'またね', translation: 'see you' }),
+      ],
+      [
+        entry({ id: 9, subtitleId: 1, translation: 'new' }),
+        entry({ id: 2, translation: 'two, again' }),
+        entry({ sentence: 'またね', translation: 'bye' }),
+      ],
+    );
+    assert.deepEqual(
+      merged.map((item) => item.translation),
+      ['new', 'two, again', 'bye'],
+    );
+  });
+
+  it('keeps the replaced translation in the history of the newer entry', () => {
+    const merged = mergeTranslationEntries(
+      [
+        entry({
+          subtitleId: 1,
+          translation: "I'm starving.",
+          source: 'manual',
+          at: '2026-01-01T00:00:00.000Z',
+        }),
+      ],
+      [
+        entry({
+          subtitleId: 1,
+          translation: 'Belly reduced.',
+          source: 'deepl',
+          provider: 'deepl',
+          formality: 'less',
+          at: '2026-02-01T00:00:00.000Z',
+        }),
+      ],
+    );
+    assert.deepEqual(merged, [
+      {
+        id: null,
+        subtitleId: 1,
+        sentence: null,
+        translation: 'Belly reduced.',
+        source: 'deepl',
+        provider: 'deepl',
+        formality: 'less',
+        at: '2026-02-01T00:00:00.000Z',
+        history: [{ translation: "I'm starving.", source: 'manual', at: '2026-01-01T00:00:00.000Z' }],
+      },
+    ]);
+  });
+
+  it('keeps every entry that has no key', () => {
+    const anonymous = [entry({ translation: 'a' }), entry({ translation: 'b' })];
+    assert.equal(mergeTranslationEntries(anonymous, [entry({ translation: 'c' })]).length, 3);
+  });
+});
+
+describe('registerGeneratedTranslation', () => {
+  it('records ids for single cues and only the sentence for merged cards', () => {
+    const state = loadTranslationHints(null);
+    registerGeneratedTranslation(state, card(3, '行くぞ', { subtitleId: 5 }), "Let's go.");
+    registerGeneratedTranslation(
+      state,
+      card(4, '腹 減った', { subtitleId: 6, mergedSubtitleIds: [6, 7] }),
+      "I'm hungry.",
+    );
+
+    assert.deepEqual(state.addedEntries, [
+      { id: 3, subtitleId: 5, sentence: '行くぞ', translation: "Let's go." },
+      { id: null, subtitleId: null, sentence: '腹 減った', translation: "I'm hungry." },
+    ]);
+    assert.equal(state.byId.has('4'), false);
+    assert.equal(pickTranslation(card(9, '腹 減った'), state), "I'm hungry.");
+  });
+});